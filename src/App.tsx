@@ -1,12 +1,36 @@
-import { useState, useRef } from 'react';
+import { useState, useRef, useEffect, useMemo } from 'react';
 import { useGrid } from './hooks/useGrid';
+import { useSelection } from './hooks/useSelection';
+import { useKeybindings, type ActionHandlers } from './hooks/useKeybindings';
+import { usePathPreview } from './hooks/usePathPreview';
 import type { GridCanvasHandle } from './components/GridCanvas';
 import { GridCanvas } from './components/GridCanvas';
 import { GeneratorPanel } from './components/GeneratorPanel';
-import { Pencil, Square, Eraser, Undo, Redo, Download, Upload, MapPin, Flag, Scan } from 'lucide-react';
+import { ImageImportDialog } from './components/ImageImportDialog';
+import { VectorImportDialog } from './components/VectorImportDialog';
+import { ValuePalette } from './components/ValuePalette';
+import { ShortcutHelp } from './components/ShortcutHelp';
+import { WaypointList } from './components/WaypointList';
+import { ScenarioPanel } from './components/ScenarioPanel';
+import { FootprintSettings } from './components/FootprintSettings';
+import { PlannerPanel } from './components/PlannerPanel';
+import { BenchmarkPanel } from './components/BenchmarkPanel';
+import { ExportOptionsPanel } from './components/ExportOptionsPanel';
+import { Pencil, Square, Eraser, Undo, Redo, Download, Upload, MapPin, Flag, Scan, Settings, Save, PaintBucket, Circle, Slash, Pentagon, BoxSelect, Scissors, Copy, ClipboardPaste, RotateCw, FlipHorizontal, FlipVertical, PaintRoller, Trash2, Check, Keyboard, Waypoints, ListOrdered, Bot, Route, ChartBar } from 'lucide-react';
 import clsx from 'clsx';
 import { saveAs } from 'file-saver';
-import type { GridMetadata } from './types';
+import { CELL_OCCUPIED, TOOLS, type Connectivity, type ImportSource, type Tool } from './types';
+import type { RasterImage } from './utils/imageImporter';
+import type { Drawing } from './utils/vectorImporter';
+import { DEFAULT_GENERATOR_SETTINGS, type GeneratorSettings } from './utils/generatorUtils';
+import { DEFAULT_EXPORT_OPTIONS, type ExportOptions } from './utils/exportOptions';
+import { DEFAULT_BRUSH, DEFAULT_SHAPE_STYLE, type Brush, type ShapeStyle } from './utils/drawingUtils';
+import { parseRegion, serializeRegion, type GridRegion } from './utils/selectionUtils';
+import { isTypingTarget, type ActionId } from './utils/keybindings';
+import { collidingPoses, footprintRadius } from './utils/footprintUtils';
+import { DEFAULT_PLANNER_OPTIONS, PREVIEW_PATH_COLOR, type PlannerOptions } from './utils/planner';
+import { BENCHMARK_PLANNERS, DEFAULT_BENCHMARK_OPTIONS, benchmarkToCSV, runBenchmark, type BenchmarkOptions, type PlannerRun } from './utils/plannerBenchmark';
+import { activateScenario, addScenario, labelScenario, moveScenario, parseScenarioSet, removeScenario, scenariosToCSV, serializeScenarioSet } from './utils/scenarioUtils';
 
 function App() {
   // Grid State
@@ -17,12 +41,16 @@ function App() {
     metadata,
     updateGrid,
     updateMetadata,
+    loadGrid,
+    getHistory,
+    restoreSession,
     resize,
     clearGrid,
     setStart,
     setGoal,
     clearStart,
     clearGoal,
+    setWaypoints,
     undo,
     redo,
     canUndo,
@@ -36,7 +64,43 @@ function App() {
   const canvasRef = useRef<GridCanvasHandle>(null);
   const handleGridUpdate = (newData: Int8Array) => updateGrid(newData, width, height);
 
-  const [tool, setTool] = useState<'pencil' | 'rect' | 'eraser' | 'start' | 'goal'>('pencil');
+  const [tool, setTool] = useState<Tool>('pencil');
+  const [fillConnectivity, setFillConnectivity] = useState<Connectivity>(4);
+  const [paintValue, setPaintValue] = useState<number>(CELL_OCCUPIED);
+  const [brush, setBrush] = useState<Brush>(DEFAULT_BRUSH);
+  const [shapeStyle, setShapeStyle] = useState<ShapeStyle>(DEFAULT_SHAPE_STYLE);
+
+  // Region selection. Leaving the select tool places anything still floating.
+  const selection = useSelection({ data: gridData, width, height, onUpdate: handleGridUpdate });
+  const selectionRef = useRef(selection);
+  selectionRef.current = selection;
+  useEffect(() => {
+    if (tool !== 'select') selectionRef.current.release();
+  }, [tool]);
+
+  // Last copied region, used when the system clipboard cannot be read
+  const copiedRegionRef = useRef<GridRegion | null>(null);
+
+  const copySelection = (cut: boolean) => {
+    const region = cut ? selection.cut() : selection.copy();
+    if (!region) return;
+    copiedRegionRef.current = region;
+    navigator.clipboard?.writeText(serializeRegion(region)).catch(() => {});
+  };
+
+  const pasteSelection = async () => {
+    let region: GridRegion | null = null;
+    try {
+      region = parseRegion(await navigator.clipboard.readText());
+    } catch {
+      // Clipboard access denied or unavailable
+    }
+    region ??= copiedRegionRef.current;
+    if (region) {
+      setTool('select');
+      selection.paste(region);
+    }
+  };
 
   // Export Handler
   const [shiftToStart, setShiftToStart] = useState(false);
@@ -44,165 +108,190 @@ function App() {
   // Recenter and relative coordinates
   const [useRelativeCoords, setUseRelativeCoords] = useState(false);
 
+  // Export options (ROS thresholds, PGM format, ...)
+  const [exportOptions, setExportOptions] = useState<ExportOptions>(DEFAULT_EXPORT_OPTIONS);
+  const [showExportOptions, setShowExportOptions] = useState(false);
+
+  // Generator panel settings live here so project files can save them
+  const [generatorSettings, setGeneratorSettings] = useState<GeneratorSettings>(DEFAULT_GENERATOR_SETTINGS);
+
+  // Project files store the session as-is (no shifting), separately from the exports
+  const [saveHistory, setSaveHistory] = useState(true);
+
+  const handleSaveProject = async () => {
+    const { serializeProject, PROJECT_EXTENSION } = await import('./utils/projectFile');
+    const project = serializeProject({
+      grid: { width, height, data: gridData, metadata },
+      history: saveHistory ? getHistory() : undefined,
+      generator: generatorSettings,
+      view: canvasRef.current?.getView(),
+      editor: { tool, useRelativeCoords, shiftToStart }
+    });
+    saveAs(new Blob([project], { type: 'application/json' }), `occupancy_grid${PROJECT_EXTENSION}`);
+  };
+
   const handleExport = async () => {
     // Dynamic import to avoid heavy bundle if not used? 
     // Vite handles code splitting automatically but explicit is nice.
     const JSZip = (await import('jszip')).default;
     const { saveAs } = (await import('file-saver'));
-    const { generatePGM, generateYAML } = (await import('./utils/rosExporter'));
+    const { generatePGM, generatePGMBinary, generateYAML, generatePosesYAML, POSES_FILENAME } = (await import('./utils/rosExporter'));
 
-    const zip = new JSZip();
+    const options = exportOptions.ros;
+    if (options.mode !== 'raw' && !(options.freeThresh < options.occupiedThresh)) {
+      alert('Free threshold must be lower than the occupied threshold.');
+      return;
+    }
+    const imageFilename = options.imageFilename.trim() || 'map.pgm';
 
-    const pgm = generatePGM(gridData, width, height, metadata, shiftToStart);
-    // We need metadata for YAML. `useGrid` has metadata state but current hook exposes `metadata`?
-    // Wait, I see I forgot to export `metadata` from the destructuring in App, but it IS returned by hook.
-    // I need to add it to destructuring.
+    const zip = new JSZip();
 
-    const yaml = generateYAML(metadata, 'map.pgm', shiftToStart);
+    // The same options drive pixel values and YAML thresholds so they always agree
+    const pgm = options.format === 'P5'
+      ? generatePGMBinary(gridData, width, height, metadata, shiftToStart, options)
+      : generatePGM(gridData, width, height, metadata, shiftToStart, options);
+    const yaml = generateYAML(metadata, imageFilename, shiftToStart, options);
 
-    zip.file("map.pgm", pgm);
+    zip.file(imageFilename, pgm);
     zip.file("map.yaml", yaml);
 
+    // Start, goal and waypoints as map-frame poses, read back on import
+    const poses = generatePosesYAML(metadata, height, shiftToStart);
+    if (poses) zip.file(POSES_FILENAME, poses);
+
+    if (exportOptions.world.include) {
+      if (!(exportOptions.world.wallHeight > 0)) {
+        alert('Wall height must be positive.');
+        return;
+      }
+      const { generateSDF } = await import('./utils/sdfExporter');
+      zip.file("world.sdf", generateSDF(gridData, width, height, metadata, shiftToStart, exportOptions.world));
+    }
+
     const content = await zip.generateAsync({ type: "blob" });
     saveAs(content, "occupancy_grid.zip");
   };
 
-  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
+  // Raster image waiting for threshold settings in the import dialog
+  const [pendingImage, setPendingImage] = useState<{ image: RasterImage, name: string } | null>(null);
+  // Floor plan waiting for scale and wall settings in the import dialog
+  const [pendingDrawing, setPendingDrawing] = useState<{ drawing: Drawing, name: string } | null>(null);
 
+  // Apply the result of an import: load the grid, restore a project, or open a settings dialog
+  const runImport = async (sources: ImportSource[]) => {
     try {
-      const text = await file.text();
-      const fileName = file.name.toLowerCase();
-      
-      // Determine file type by extension
-      if (fileName.endsWith('.csv')) {
-        // Parse CSV
-        const { parseCSV } = await import('./utils/csvParser');
-        const parsed = parseCSV(text, metadata.resolution);
-        
-        // CSV exports start/goal in DISPLAY coordinates (center-based, (0,0) at center)
-        // We need to convert them to INTERNAL coordinates (0-based, top-left origin) for storage
-        const centerX = Math.floor(parsed.width / 2);
-        const centerY = Math.floor(parsed.height / 2);
-        const displayToInternal = (dx: number, dy: number) => ({
-          x: dx + centerX,
-          y: dy + centerY
-        });
-        
-        const adjustedMetadata = { ...parsed.metadata };
-        
-        // CSV start is in display coordinates (typically (0,0) at center)
-        // Convert to internal coordinates for storage
-        if (parsed.metadata.start) {
-          const startInternal = displayToInternal(parsed.metadata.start.x, parsed.metadata.start.y);
-          adjustedMetadata.start = startInternal;
-        } else {
-          // If no start in CSV, set it to center (display 0,0 = internal centerX,centerY)
-          adjustedMetadata.start = { x: centerX, y: centerY };
-        }
-        
-        // CSV goal is in display coordinates, relative to start
-        // If start is at display (0,0), goal at display (gx,gy) means absolute display (gx,gy)
-        // Convert to internal coordinates
-        if (parsed.metadata.goal) {
-          // Goal in CSV is relative to start in display coords
-          // If start is at display (0,0), goal display = goal value from CSV
-          const startDisplay = parsed.metadata.start || { x: 0, y: 0 };
-          const goalDisplay = {
-            x: startDisplay.x + parsed.metadata.goal.x,
-            y: startDisplay.y + parsed.metadata.goal.y
-          };
-          const goalInternal = displayToInternal(goalDisplay.x, goalDisplay.y);
-          adjustedMetadata.goal = goalInternal;
-        }
-        
-        // Update grid and metadata
-        updateGrid(parsed.data, parsed.width, parsed.height);
-        updateMetadata(adjustedMetadata);
+      const { importSources } = await import('./utils/importDispatcher');
+      const result = await importSources(sources, { width, height, data: gridData, metadata });
+
+      if (result.kind === 'grid') {
+        loadGrid(result.grid);
+      } else if (result.kind === 'image') {
+        setPendingImage({ image: result.image, name: result.name });
+      } else if (result.kind === 'drawing') {
+        setPendingDrawing({ drawing: result.drawing, name: result.name });
       } else {
-        // Try JSON
-      const json = JSON.parse(text);
-      const { GridImportSchema } = await import('./utils/validators');
-      const parsed = GridImportSchema.parse(json);
-
-        // JSON exports may have start/goal in different formats
-        // Check if they're in internal or display coordinates by checking if they're within bounds
-        // For now, assume JSON stores in internal coordinates (0-based) like the original format
-        // But if start/goal are outside bounds, they might be in display coordinates
-        const parsedMeta = parsed.metadata as GridMetadata;
-        const adjustedMetadata: GridMetadata = { ...parsedMeta };
-        
-        // If start/goal exist and are outside internal coordinate bounds, convert from display
-        const centerX = Math.floor(parsed.width / 2);
-        const centerY = Math.floor(parsed.height / 2);
-        const displayToInternal = (dx: number, dy: number) => ({
-          x: dx + centerX,
-          y: dy + centerY
-        });
-        
-        if (parsedMeta.start) {
-          // Check if start is in display coordinates (likely negative or > width/height)
-          const isDisplayCoords = parsedMeta.start.x < 0 || parsedMeta.start.x >= parsed.width ||
-                                  parsedMeta.start.y < 0 || parsedMeta.start.y >= parsed.height;
-          
-          if (isDisplayCoords) {
-            // Convert from display to internal
-            const startInternal = displayToInternal(parsedMeta.start.x, parsedMeta.start.y);
-            adjustedMetadata.start = startInternal;
-          } else {
-            // Already in internal coordinates
-            adjustedMetadata.start = parsedMeta.start;
-          }
+        // Project files restore the whole session
+        const session = result.session;
+        if (session.history) {
+          restoreSession(session.history.entries, session.history.index);
         } else {
-          // If no start in JSON, set it to center (display 0,0 = internal centerX,centerY)
-          adjustedMetadata.start = { x: centerX, y: centerY };
+          restoreSession([session.grid], 0);
         }
-        
-        if (parsedMeta.goal) {
-          // Check if goal is in display coordinates
-          const isDisplayCoords = parsedMeta.goal.x < 0 || parsedMeta.goal.x >= parsed.width ||
-                                  parsedMeta.goal.y < 0 || parsedMeta.goal.y >= parsed.height;
-          
-          if (isDisplayCoords) {
-            // Goal might be relative to start, or absolute in display coords
-            // If start exists, goal might be relative; otherwise absolute
-            const startDisplay = parsedMeta.start ? 
-              (parsedMeta.start.x < 0 || parsedMeta.start.x >= parsed.width ? 
-                parsedMeta.start : 
-                { x: parsedMeta.start.x - centerX, y: parsedMeta.start.y - centerY }) :
-              { x: 0, y: 0 };
-            
-            const goalDisplay = {
-              x: startDisplay.x + parsedMeta.goal.x,
-              y: startDisplay.y + parsedMeta.goal.y
-            };
-            const goalInternal = displayToInternal(goalDisplay.x, goalDisplay.y);
-            adjustedMetadata.goal = goalInternal;
-          } else {
-            // Already in internal coordinates
-            adjustedMetadata.goal = parsedMeta.goal;
-          }
+        setGeneratorSettings(session.generator);
+        if (session.editor) {
+          setTool(session.editor.tool);
+          setUseRelativeCoords(session.editor.useRelativeCoords);
+          setShiftToStart(session.editor.shiftToStart);
         }
-
-      // Convert number[] back to Int8Array
-      const newData = new Int8Array(parsed.data);
-      updateGrid(newData, parsed.width, parsed.height);
-        updateMetadata(adjustedMetadata);
+        if (session.view) canvasRef.current?.setView(session.view);
       }
     } catch (err) {
       console.error("Import failed:", err);
       alert(`Import failed: ${err instanceof Error ? err.message : 'Invalid file format'}`);
     }
+  };
 
-    // Reset input
+  const importFiles = async (files: File[]) => {
+    if (files.length === 0) return;
+    const { readImportSource } = await import('./utils/importDispatcher');
+    await runImport(await Promise.all(files.map(readImportSource)));
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    // Reset input so the same file can be picked again
     e.target.value = '';
+    await importFiles(files);
+  };
+
+  // Drag and drop onto the canvas area
+  const [isDragging, setIsDragging] = useState(false);
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    importFiles(Array.from(e.dataTransfer.files));
+  };
+
+  // Clipboard paste: images arrive as files, CSV/JSON as text. Ignored while typing in inputs.
+  const pasteRef = useRef<(e: ClipboardEvent) => void>();
+  pasteRef.current = (e: ClipboardEvent) => {
+    if (isTypingTarget(e.target) || !e.clipboardData) return;
+
+    const files = Array.from(e.clipboardData.files);
+    const text = e.clipboardData.getData('text/plain');
+    if (files.length === 0 && !text.trim()) return;
+
+    e.preventDefault();
+
+    // Regions copied with the select tool, possibly from another map or tab
+    const region = files.length === 0 ? parseRegion(text) : null;
+    if (region) {
+      copiedRegionRef.current = region;
+      setTool('select');
+      selection.paste(region);
+      return;
+    }
+
+    if (files.length > 0) {
+      importFiles(files);
+    } else {
+      import('./utils/importDispatcher').then(({ textImportSource }) => runImport([textImportSource(text)]));
+    }
   };
 
+  // Copy/cut of the selection (clipboard events, so the system clipboard can be written synchronously)
+  const copyRef = useRef<(e: ClipboardEvent) => void>();
+  copyRef.current = (e: ClipboardEvent) => {
+    if (tool !== 'select' || !selection.rect || isTypingTarget(e.target) || !e.clipboardData) return;
+    const region = e.type === 'cut' ? selection.cut() : selection.copy();
+    if (!region) return;
+    e.preventDefault();
+    copiedRegionRef.current = region;
+    e.clipboardData.setData('text/plain', serializeRegion(region));
+  };
+
+  useEffect(() => {
+    const onPaste = (e: ClipboardEvent) => pasteRef.current?.(e);
+    const onCopy = (e: ClipboardEvent) => copyRef.current?.(e);
+    window.addEventListener('paste', onPaste);
+    window.addEventListener('copy', onCopy);
+    window.addEventListener('cut', onCopy);
+    return () => {
+      window.removeEventListener('paste', onPaste);
+      window.removeEventListener('copy', onCopy);
+      window.removeEventListener('cut', onCopy);
+    };
+  }, []);
+
   // Export Logic with options
-  const [exportFormat, setExportFormat] = useState<'ros' | 'csv' | 'json' | 'png'>('ros');
+  const [exportFormat, setExportFormat] = useState<'ros' | 'csv' | 'json' | 'png' | 'npy' | 'npz' | 'rosmsg' | 'movingai' | 'stl' | 'obj' | 'geojson' | 'svg'>('ros');
 
   const handleExportClick = async () => {
+    if (footprintCollisions.length > 0
+      && !confirm(`The robot footprint collides with obstacles or unknown space at the ${footprintCollisions.join(' and ')}. Export anyway?`)) {
+      return;
+    }
     if (exportFormat === 'ros') {
       handleExport(); // Existing ROS ZIP export
     } else if (exportFormat === 'csv') {
@@ -212,13 +301,135 @@ function App() {
       saveAs(blob, 'occupancy_grid.csv');
     } else if (exportFormat === 'json') {
       const { generateJSON } = await import('./utils/exportUtils');
-      const json = generateJSON({ width, height, data: gridData, metadata }, shiftToStart);
+      const json = await generateJSON({ width, height, data: gridData, metadata }, shiftToStart, exportOptions.json);
       const blob = new Blob([json], { type: 'application/json' });
       saveAs(blob, 'occupancy_grid.json');
     } else if (exportFormat === 'png') {
       const { generatePNG } = await import('./utils/exportUtils');
       const blob = await generatePNG(gridData, width, height, metadata, shiftToStart);
       saveAs(blob, 'occupancy_grid.png');
+    } else if (exportFormat === 'rosmsg') {
+      const { generateOccupancyGridMessage } = await import('./utils/occupancyGridMsg');
+      const msg = generateOccupancyGridMessage({ width, height, data: gridData, metadata }, shiftToStart);
+      const blob = new Blob([msg], { type: 'application/json' });
+      saveAs(blob, 'occupancy_grid_msg.json');
+    } else if (exportFormat === 'npy') {
+      const { generateNPY } = await import('./utils/numpyUtils');
+      const npy = generateNPY(gridData, width, height);
+      saveAs(new Blob([npy], { type: 'application/octet-stream' }), 'occupancy_grid.npy');
+    } else if (exportFormat === 'npz') {
+      const { generateNPZ } = await import('./utils/numpyUtils');
+      const blob = await generateNPZ({ width, height, data: gridData, metadata }, shiftToStart);
+      saveAs(blob, 'occupancy_grid.npz');
+    } else if (exportFormat === 'stl' || exportFormat === 'obj') {
+      if (!(exportOptions.mesh.height > 0)) {
+        alert('Extrusion height must be positive.');
+        return;
+      }
+      const { buildGridMesh, generateSTL, generateOBJ } = await import('./utils/meshExporter');
+      const mesh = buildGridMesh(gridData, width, height, metadata, shiftToStart, exportOptions.mesh);
+      if (exportFormat === 'stl') {
+        saveAs(new Blob([generateSTL(mesh)], { type: 'model/stl' }), 'occupancy_grid.stl');
+      } else {
+        saveAs(new Blob([generateOBJ(mesh)], { type: 'model/obj' }), 'occupancy_grid.obj');
+      }
+    } else if (exportFormat === 'geojson' || exportFormat === 'svg') {
+      const vectorOptions = { tolerance: Math.max(0, exportOptions.vector.tolerance || 0) };
+      const { generateGeoJSON, generateSVG } = await import('./utils/vectorExporter');
+      if (exportFormat === 'geojson') {
+        const geojson = generateGeoJSON(gridData, width, height, metadata, shiftToStart, vectorOptions);
+        saveAs(new Blob([geojson], { type: 'application/geo+json' }), 'occupancy_grid.geojson');
+      } else {
+        const svg = generateSVG(gridData, width, height, metadata, vectorOptions);
+        saveAs(new Blob([svg], { type: 'image/svg+xml' }), 'occupancy_grid.svg');
+      }
+    } else if (exportFormat === 'movingai') {
+      const { generateMovingAIMap, generateMovingAIScen } = await import('./utils/movingAI');
+      const map = generateMovingAIMap(gridData, width, height);
+      const scenarios = metadata.scenarios ?? (metadata.start && metadata.goal ? [{ start: metadata.start, goal: metadata.goal }] : []);
+
+      if (scenarios.length === 0) {
+        saveAs(new Blob([map], { type: 'text/plain' }), 'occupancy_grid.map');
+      } else {
+        // Bundle the scenarios alongside the map, using the MovingAI naming convention
+        const JSZip = (await import('jszip')).default;
+        const zip = new JSZip();
+        zip.file('occupancy_grid.map', map);
+        zip.file('occupancy_grid.map.scen', generateMovingAIScen(scenarios, 'occupancy_grid.map', width, height));
+        saveAs(await zip.generateAsync({ type: 'blob' }), 'occupancy_grid_movingai.zip');
+      }
+    }
+  };
+
+  // Robot footprint checked at start and goal
+  const [showFootprint, setShowFootprint] = useState(false);
+  const footprintCollisions = useMemo(() => collidingPoses(gridData, width, height, metadata), [gridData, width, height, metadata]);
+
+  // Path preview between start and goal, replanned after edits while the panel is open
+  const [showPlanner, setShowPlanner] = useState(false);
+  const [plannerOptions, setPlannerOptions] = useState<PlannerOptions>(DEFAULT_PLANNER_OPTIONS);
+  const plannedPath = usePathPreview({
+    enabled: showPlanner,
+    data: gridData,
+    width,
+    height,
+    start: metadata.start,
+    goal: metadata.goal,
+    resolution: metadata.resolution,
+    options: plannerOptions
+  });
+
+  // Planner comparison on the current start/goal; results are dropped once the map or points change
+  const [showBenchmark, setShowBenchmark] = useState(false);
+  const [benchmarkOptions, setBenchmarkOptions] = useState<BenchmarkOptions>(DEFAULT_BENCHMARK_OPTIONS);
+  const [benchmarkRuns, setBenchmarkRuns] = useState<PlannerRun[] | null>(null);
+  const [benchmarkRunning, setBenchmarkRunning] = useState(false);
+  useEffect(() => setBenchmarkRuns(null), [gridData, width, height, metadata.start, metadata.goal, metadata.resolution]);
+
+  const handleRunBenchmark = () => {
+    const { start, goal } = metadata;
+    if (!start || !goal) return;
+    setBenchmarkRunning(true);
+    // Let the panel show that it is running before the planners block the page
+    setTimeout(() => {
+      setBenchmarkRuns(runBenchmark(gridData, width, height, start, goal, benchmarkOptions, metadata.resolution));
+      setBenchmarkRunning(false);
+    }, 0);
+  };
+
+  const handleBenchmarkExport = () => {
+    if (!benchmarkRuns) return;
+    saveAs(new Blob([benchmarkToCSV(benchmarkRuns, metadata.resolution)], { type: 'text/csv' }), 'planner_comparison.csv');
+  };
+
+  const pathOverlays = useMemo(() => {
+    const overlays = showBenchmark && benchmarkRuns
+      ? benchmarkRuns.filter(r => r.path).map(r => ({ points: r.path!, color: BENCHMARK_PLANNERS.find(p => p.id === r.planner)!.color }))
+      : [];
+    if (plannedPath?.path) overlays.push({ points: plannedPath.path, color: PREVIEW_PATH_COLOR });
+    return overlays;
+  }, [plannedPath, showBenchmark, benchmarkRuns]);
+
+  // Scenario set: each change is one history entry
+  const [showScenarios, setShowScenarios] = useState(false);
+
+  const handleScenarioImport = async (file: File) => {
+    try {
+      const imported = parseScenarioSet(await file.text(), width, height);
+      const first = metadata.scenarios?.length ?? 0;
+      updateMetadata(activateScenario({ ...metadata, scenarios: [...(metadata.scenarios ?? []), ...imported] }, first));
+    } catch (err) {
+      console.error(err);
+      alert(`Scenario import failed: ${err instanceof Error ? err.message : 'Invalid file format'}`);
+    }
+  };
+
+  const handleScenarioExport = (format: 'json' | 'csv') => {
+    const scenarios = metadata.scenarios ?? [];
+    if (format === 'json') {
+      saveAs(new Blob([serializeScenarioSet(scenarios, width, height)], { type: 'application/json' }), 'scenarios.json');
+    } else {
+      saveAs(new Blob([scenariosToCSV(scenarios)], { type: 'text/csv' }), 'scenarios.csv');
     }
   };
 
@@ -229,6 +440,28 @@ function App() {
     updateGrid(newData, width, height);
   };
 
+  // Keyboard shortcuts
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  const selectionActive = tool === 'select' && !!selection.rect;
+  const actionHandlers: ActionHandlers = {
+    ...Object.fromEntries(TOOLS.map(t => [`tool.${t}`, () => setTool(t)])),
+    'undo': undo,
+    'redo': redo,
+    'zoomIn': () => canvasRef.current?.zoom(1.25),
+    'zoomOut': () => canvasRef.current?.zoom(0.8),
+    'zoomFit': () => canvasRef.current?.resetView(),
+    'toggleRelativeCoords': () => { if (metadata.start) setUseRelativeCoords(v => !v); },
+    'export': handleExportClick,
+    'selection.commit': selectionActive ? selection.commit : undefined,
+    'selection.cancel': selectionActive ? selection.cancel : undefined,
+    'selection.clear': selectionActive ? selection.clear : undefined,
+    'help': () => setShowShortcuts(v => !v)
+  };
+  const { bindings, setBinding, resetBindings } = useKeybindings(actionHandlers);
+
+  // Tooltip text with the current shortcut, if any
+  const withKey = (label: string, action: ActionId) => bindings[action] ? `${label} (${bindings[action]})` : label;
+
   return (
     <div className="flex flex-col h-screen bg-white text-black overflow-hidden font-sans">
       {/* Header / Toolbar */}
@@ -238,17 +471,99 @@ function App() {
         </h1>
 
         <div className="flex items-center gap-2 bg-white border border-gray-200 p-1 rounded-md shadow-sm">
-          <ToolbarBtn icon={<Pencil size={18} />} active={tool === 'pencil'} onClick={() => setTool('pencil')} title="Pencil (P)" />
-          <ToolbarBtn icon={<Square size={18} />} active={tool === 'rect'} onClick={() => setTool('rect')} title="Rectangle (R)" />
-          <ToolbarBtn icon={<Eraser size={18} />} active={tool === 'eraser'} onClick={() => setTool('eraser')} title="Eraser (E)" />
+          <ToolbarBtn icon={<BoxSelect size={18} />} active={tool === 'select'} onClick={() => setTool('select')} title={`${withKey('Select', 'tool.select')}, drag inside the selection to move it`} />
+          <ToolbarBtn icon={<Pencil size={18} />} active={tool === 'pencil'} onClick={() => setTool('pencil')} title={withKey('Pencil', 'tool.pencil')} />
+          <ToolbarBtn icon={<Square size={18} />} active={tool === 'rect'} onClick={() => setTool('rect')} title={`${withKey('Rectangle', 'tool.rect')}, Shift: square`} />
+          <ToolbarBtn icon={<Circle size={18} />} active={tool === 'ellipse'} onClick={() => setTool('ellipse')} title={`${withKey('Ellipse', 'tool.ellipse')}, Shift: circle`} />
+          <ToolbarBtn icon={<Slash size={18} />} active={tool === 'line'} onClick={() => setTool('line')} title={withKey('Line', 'tool.line')} />
+          <ToolbarBtn icon={<Pentagon size={18} />} active={tool === 'polygon'} onClick={() => setTool('polygon')} title={`${withKey('Polygon', 'tool.polygon')}: click vertices, double-click to finish; end on the first vertex to close an outline`} />
+          <ToolbarBtn icon={<Eraser size={18} />} active={tool === 'eraser'} onClick={() => setTool('eraser')} title={withKey('Eraser', 'tool.eraser')} />
+          <ToolbarBtn icon={<PaintBucket size={18} />} active={tool === 'bucket'} onClick={() => setTool('bucket')} title={`${withKey('Bucket Fill', 'tool.bucket')}, Shift+Click fills free`} />
+          {tool === 'bucket' && (
+            <ToolbarBtn
+              icon={<span className="text-xs font-bold">{fillConnectivity}N</span>}
+              onClick={() => setFillConnectivity(c => c === 4 ? 8 : 4)}
+              title={`Fill connectivity: ${fillConnectivity}-neighbour (click to toggle)`}
+            />
+          )}
+          {(tool === 'pencil' || tool === 'eraser') && (
+            <div className="flex items-center gap-1 text-sm">
+              <ToolbarBtn
+                icon={brush.shape === 'round' ? <Circle size={14} /> : <Square size={14} />}
+                onClick={() => setBrush(b => ({ ...b, shape: b.shape === 'round' ? 'square' : 'round' }))}
+                title={`Brush shape: ${brush.shape} (click to toggle)`}
+              />
+              <span className="text-gray-500 text-xs font-bold">R:</span>
+              <input
+                type="number"
+                min={0}
+                max={25}
+                value={brush.radius}
+                onChange={(e) => {
+                  const val = parseInt(e.target.value);
+                  if (!isNaN(val)) setBrush(b => ({ ...b, radius: Math.max(0, Math.min(25, val)) }));
+                }}
+                className="w-12 border border-gray-300 rounded px-1 py-0.5 text-sm text-center"
+                title="Brush radius (cells)"
+              />
+            </div>
+          )}
+          {tool === 'select' && (
+            <div className="flex items-center">
+              <ToolbarBtn icon={<Scissors size={16} />} disabled={!selection.rect} onClick={() => copySelection(true)} title="Cut (Ctrl+X)" />
+              <ToolbarBtn icon={<Copy size={16} />} disabled={!selection.rect} onClick={() => copySelection(false)} title="Copy (Ctrl+C)" />
+              <ToolbarBtn icon={<ClipboardPaste size={16} />} onClick={pasteSelection} title="Paste (Ctrl+V)" />
+              <ToolbarBtn icon={<RotateCw size={16} />} disabled={!selection.rect} onClick={() => selection.rotate()} title="Rotate 90°" />
+              <ToolbarBtn icon={<FlipHorizontal size={16} />} disabled={!selection.rect} onClick={() => selection.flip('horizontal')} title="Flip Horizontally" />
+              <ToolbarBtn icon={<FlipVertical size={16} />} disabled={!selection.rect} onClick={() => selection.flip('vertical')} title="Flip Vertically" />
+              <ToolbarBtn icon={<PaintRoller size={16} />} disabled={!selection.rect} onClick={() => selection.fill(paintValue)} title="Fill with Palette Value" />
+              <ToolbarBtn icon={<Trash2 size={16} />} disabled={!selection.rect} onClick={selection.clear} title={withKey('Clear', 'selection.clear')} />
+              <ToolbarBtn icon={<Check size={16} />} disabled={!selection.floating} onClick={selection.commit} title={`${withKey('Place Selection', 'selection.commit')}, ${withKey('Cancel', 'selection.cancel')}`} />
+            </div>
+          )}
+          {(tool === 'rect' || tool === 'ellipse' || tool === 'line' || tool === 'polygon') && (
+            <div className="flex items-center gap-1 text-sm">
+              {tool !== 'line' && (
+                <ToolbarBtn
+                  icon={<span className="text-xs font-bold">{shapeStyle.filled ? 'FILL' : 'LINE'}</span>}
+                  onClick={() => setShapeStyle(s => ({ ...s, filled: !s.filled }))}
+                  title={shapeStyle.filled ? 'Filled shape (click for outline)' : 'Outline (click for filled shape)'}
+                />
+              )}
+              <span className="text-gray-500 text-xs font-bold">T:</span>
+              <input
+                type="number"
+                min={1}
+                max={25}
+                value={shapeStyle.strokeWidth}
+                onChange={(e) => {
+                  const val = parseInt(e.target.value);
+                  if (!isNaN(val)) setShapeStyle(s => ({ ...s, strokeWidth: Math.max(1, Math.min(25, val)) }));
+                }}
+                className="w-12 border border-gray-300 rounded px-1 py-0.5 text-sm text-center"
+                title="Line thickness / outline stroke width (cells)"
+              />
+            </div>
+          )}
           <div className="w-px h-6 bg-gray-200 mx-1" />
-          <ToolbarBtn icon={<MapPin size={18} className="text-green-600" />} active={tool === 'start'} onClick={() => setTool('start')} title="Set Start" />
-          <ToolbarBtn icon={<Flag size={18} className="text-red-500" />} active={tool === 'goal'} onClick={() => setTool('goal')} title="Set Goal" />
+          <ToolbarBtn icon={<MapPin size={18} className="text-green-600" />} active={tool === 'start'} onClick={() => setTool('start')} title={`${withKey('Set Start', 'tool.start')}, drag to set the heading`} />
+          <ToolbarBtn icon={<Flag size={18} className="text-red-500" />} active={tool === 'goal'} onClick={() => setTool('goal')} title={`${withKey('Set Goal', 'tool.goal')}, drag to set the heading`} />
+          <ToolbarBtn icon={<Waypoints size={18} className="text-purple-500" />} active={tool === 'waypoint'} onClick={() => setTool('waypoint')} title={`${withKey('Add Waypoint', 'tool.waypoint')}, drag to set the heading, click one to remove it`} />
+          <ToolbarBtn icon={<ListOrdered size={18} />} active={showScenarios} onClick={() => setShowScenarios(v => !v)} title="Scenarios: start/goal pairs for benchmarking" />
+          <ToolbarBtn
+            icon={<Bot size={18} className={clsx(footprintCollisions.length > 0 && "text-red-500")} />}
+            active={showFootprint}
+            onClick={() => setShowFootprint(v => !v)}
+            title={footprintCollisions.length > 0 ? `Robot footprint: collision at the ${footprintCollisions.join(' and ')}` : 'Robot footprint'}
+          />
+          <ToolbarBtn icon={<Route size={18} className="text-sky-500" />} active={showPlanner} onClick={() => setShowPlanner(v => !v)} title="Path preview (A* / Dijkstra)" />
+          <ToolbarBtn icon={<ChartBar size={18} />} active={showBenchmark} onClick={() => setShowBenchmark(v => !v)} title="Compare planners (A*, Dijkstra, JPS, Theta*, RRT*)" />
           <div className="w-px h-6 bg-gray-200 mx-1" />
-          <ToolbarBtn icon={<Undo size={18} />} disabled={!canUndo} onClick={undo} title="Undo (Ctrl+Z)" />
-          <ToolbarBtn icon={<Redo size={18} />} disabled={!canRedo} onClick={redo} title="Redo (Ctrl+Y)" />
+          <ToolbarBtn icon={<Undo size={18} />} disabled={!canUndo} onClick={undo} title={withKey('Undo', 'undo')} />
+          <ToolbarBtn icon={<Redo size={18} />} disabled={!canRedo} onClick={redo} title={withKey('Redo', 'redo')} />
           <div className="w-px h-6 bg-gray-200 mx-1" />
           <ToolbarBtn icon={<span className="text-xs font-bold">CLR</span>} onClick={() => { if (confirm('Reset grid?')) clearGrid(); }} title="Clear Grid" />
+          <ToolbarBtn icon={<Keyboard size={18} />} onClick={() => setShowShortcuts(true)} title={withKey('Keyboard Shortcuts', 'help')} />
         </div>
 
         <div className="flex items-center gap-3">
@@ -280,9 +595,28 @@ function App() {
 
           <div className="w-px h-6 bg-gray-200" />
 
+          <div className="flex items-center">
+            <button
+              onClick={handleSaveProject}
+              className="flex items-center gap-2 px-4 py-2 bg-gray-50 hover:bg-gray-100 border border-gray-200 rounded-md text-sm font-medium transition-colors text-gray-700"
+              title="Save project (.occproj), reopen it with Import"
+            >
+              <Save size={16} /> Save
+            </button>
+            <label className="flex items-center gap-1.5 px-2 py-1 text-xs text-gray-600 cursor-pointer" title="Include the undo history in the project file">
+              <input
+                type="checkbox"
+                checked={saveHistory}
+                onChange={(e) => setSaveHistory(e.target.checked)}
+                className="w-3.5 h-3.5 rounded border-gray-300 text-black focus:ring-1 focus:ring-black"
+              />
+              <span className="whitespace-nowrap">History</span>
+            </label>
+          </div>
+
           <label className="flex items-center gap-2 px-4 py-2 bg-gray-50 hover:bg-gray-100 border border-gray-200 rounded-md text-sm font-medium transition-colors cursor-pointer text-gray-700">
             <Upload size={16} /> Import
-            <input type="file" accept=".json,.csv" className="hidden" onChange={handleImport} />
+            <input type="file" accept=".occproj,.json,.csv,.npy,.npz,.zip,.yaml,.yml,.pgm,.map,.scen,.png,.jpg,.jpeg,.bmp,.gif,.webp,.dxf,.svg" multiple className="hidden" onChange={handleImport} />
           </label>
           <div className="flex items-center gap-2">
             <label className="flex items-center gap-1.5 px-2 py-1 text-xs text-gray-600 cursor-pointer">
@@ -296,7 +630,7 @@ function App() {
               />
               <span className="whitespace-nowrap">Start at (0,0)</span>
           </label>
-          <div className="flex rounded-md shadow-sm" role="group">
+          <div className="relative flex rounded-md shadow-sm" role="group">
             <select
               value={exportFormat}
               onChange={(e) => setExportFormat(e.target.value as any)}
@@ -306,13 +640,35 @@ function App() {
               <option value="json">JSON</option>
               <option value="csv">CSV</option>
                 <option value="png">PNG</option>
+                <option value="npy">NumPy (.npy)</option>
+                <option value="npz">NumPy (.npz)</option>
+                <option value="rosmsg">OccupancyGrid Msg</option>
+                <option value="movingai">MovingAI (.map)</option>
+                <option value="stl">Mesh (.stl)</option>
+                <option value="obj">Mesh (.obj)</option>
+                <option value="geojson">Polygons (GeoJSON)</option>
+                <option value="svg">Polygons (SVG)</option>
             </select>
             <button
               onClick={handleExportClick}
+              title={withKey('Export', 'export')}
               className="flex items-center gap-2 px-4 py-2 bg-black hover:bg-gray-800 text-white rounded-r-md text-sm font-medium transition-colors"
             >
               <Download size={16} /> Export
             </button>
+            <button
+              onClick={() => setShowExportOptions(v => !v)}
+              className={clsx(
+                "ml-1 px-2 border border-gray-300 rounded-md transition-colors",
+                showExportOptions ? "bg-black text-white" : "bg-gray-50 text-gray-600 hover:bg-gray-100"
+              )}
+              title="Export Options"
+            >
+              <Settings size={16} />
+            </button>
+            {showExportOptions && (
+              <ExportOptionsPanel format={exportFormat} options={exportOptions} onChange={setExportOptions} />
+            )}
             </div>
           </div>
 
@@ -322,7 +678,18 @@ function App() {
       {/* Main Workspace */}
       <div className="flex-1 flex overflow-hidden relative">
         {/* Canvas Area */}
-        <main className="flex-1 overflow-hidden relative">
+        <main
+          className="flex-1 overflow-hidden relative"
+          onDragOver={(e) => {
+            if (!e.dataTransfer.types.includes('Files')) return;
+            e.preventDefault();
+            setIsDragging(true);
+          }}
+          onDragLeave={(e) => {
+            if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsDragging(false);
+          }}
+          onDrop={handleDrop}
+        >
           <GridCanvas
             ref={canvasRef}
             width={width}
@@ -335,22 +702,98 @@ function App() {
             onSetGoal={setGoal}
             onClearStart={clearStart}
             onClearGoal={clearGoal}
+            onSetWaypoints={setWaypoints}
             onResize={resize}
             useRelativeCoords={useRelativeCoords}
+            fillConnectivity={fillConnectivity}
+            paintValue={paintValue}
+            brush={brush}
+            shapeStyle={shapeStyle}
+            selection={selection}
+            paths={pathOverlays}
           />
 
+          {/* Value Palette and waypoint tour */}
+          <div className="absolute top-6 left-6 flex flex-col gap-3">
+            <ValuePalette value={paintValue} onChange={setPaintValue} />
+            {(tool === 'waypoint' || metadata.waypoints) && (
+              <WaypointList waypoints={metadata.waypoints ?? []} onChange={setWaypoints} />
+            )}
+            {showFootprint && (
+              <FootprintSettings
+                footprint={metadata.footprint}
+                resolution={metadata.resolution}
+                collisions={footprintCollisions}
+                onChange={(footprint) => {
+                  const next = { ...metadata, footprint };
+                  if (!footprint) delete next.footprint;
+                  updateMetadata(next);
+                }}
+              />
+            )}
+            {showPlanner && (
+              <PlannerPanel
+                options={plannerOptions}
+                onChange={setPlannerOptions}
+                result={plannedPath}
+                resolution={metadata.resolution}
+                robotRadius={metadata.footprint && footprintRadius(metadata.footprint)}
+                hasEndpoints={!!(metadata.start && metadata.goal)}
+              />
+            )}
+            {showBenchmark && (
+              <BenchmarkPanel
+                options={benchmarkOptions}
+                onChange={setBenchmarkOptions}
+                runs={benchmarkRuns}
+                running={benchmarkRunning}
+                canRun={!!(metadata.start && metadata.goal)}
+                resolution={metadata.resolution}
+                onRun={handleRunBenchmark}
+                onExport={handleBenchmarkExport}
+              />
+            )}
+            {showScenarios && (
+              <ScenarioPanel
+                scenarios={metadata.scenarios ?? []}
+                active={metadata.activeScenario}
+                canAdd={!!(metadata.start && metadata.goal)}
+                onAdd={() => {
+                  if (metadata.start && metadata.goal) updateMetadata(addScenario(metadata, { start: metadata.start, goal: metadata.goal }));
+                }}
+                onActivate={(i) => updateMetadata(activateScenario(metadata, i))}
+                onRemove={(i) => updateMetadata(removeScenario(metadata, i))}
+                onMove={(from, to) => updateMetadata(moveScenario(metadata, from, to))}
+                onLabel={(i, label) => updateMetadata(labelScenario(metadata, i, label))}
+                onImport={handleScenarioImport}
+                onExport={handleScenarioExport}
+              />
+            )}
+          </div>
+
           {/* Reset View FAB */}
           <button
             onClick={() => canvasRef.current?.resetView()}
             className="absolute bottom-6 right-6 p-3 bg-white rounded-full shadow-lg border border-gray-200 hover:bg-gray-50 text-gray-700"
-            title="Reset View"
+            title={withKey('Reset View', 'zoomFit')}
           >
             <Scan size={24} />
           </button>
+
+          {/* Drop Overlay */}
+          {isDragging && (
+            <div className="absolute inset-4 border-2 border-dashed border-black/40 bg-white/70 rounded-lg flex items-center justify-center pointer-events-none z-20">
+              <div className="flex items-center gap-2 text-gray-700 font-medium">
+                <Upload size={20} /> Drop a map file to import
+              </div>
+            </div>
+          )}
         </main>
 
         {/* Persistent Generator Sidebar */}
         <GeneratorPanel
+          settings={generatorSettings}
+          onSettingsChange={setGeneratorSettings}
           onGenerate={handleRunGenerator}
         />
 
@@ -368,14 +811,47 @@ function App() {
               onChange={(e) => setUseRelativeCoords(e.target.checked)}
               disabled={!metadata?.start}
               className="w-4 h-4 rounded border-gray-300 text-black focus:ring-1 focus:ring-black"
-              title={metadata?.start ? "Show coordinates relative to start point" : "Set a start point first"}
+              title={metadata?.start ? withKey('Show coordinates relative to start point', 'toggleRelativeCoords') : "Set a start point first"}
             />
             <span className="text-gray-700 whitespace-nowrap">Use (0,0) at Start</span>
           </label>
         </div>
       </div>
 
+      {showShortcuts && (
+        <ShortcutHelp
+          bindings={bindings}
+          onRebind={setBinding}
+          onReset={resetBindings}
+          onClose={() => setShowShortcuts(false)}
+        />
+      )}
 
+      {pendingImage && (
+        <ImageImportDialog
+          image={pendingImage.image}
+          fileName={pendingImage.name}
+          resolution={metadata.resolution}
+          onConfirm={(grid) => {
+            loadGrid(grid);
+            setPendingImage(null);
+          }}
+          onCancel={() => setPendingImage(null)}
+        />
+      )}
+
+      {pendingDrawing && (
+        <VectorImportDialog
+          drawing={pendingDrawing.drawing}
+          fileName={pendingDrawing.name}
+          resolution={metadata.resolution}
+          onConfirm={(grid) => {
+            loadGrid(grid);
+            setPendingDrawing(null);
+          }}
+          onCancel={() => setPendingDrawing(null)}
+        />
+      )}
     </div>
   )
 }
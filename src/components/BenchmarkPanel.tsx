@@ -0,0 +1,146 @@
+import type { KeyboardEvent } from 'react';
+import { Download, Play } from 'lucide-react';
+import { BENCHMARK_PLANNERS, type BenchmarkOptions, type PlannerRun } from '../utils/plannerBenchmark';
+
+interface BenchmarkPanelProps {
+    options: BenchmarkOptions;
+    onChange: (options: BenchmarkOptions) => void;
+    runs: PlannerRun[] | null;
+    running: boolean;
+    canRun: boolean; // Both start and goal are set
+    resolution: number;
+    onRun: () => void;
+    onExport: () => void;
+}
+
+const checkboxClass = "w-3.5 h-3.5 rounded border-gray-300 text-black focus:ring-1 focus:ring-black";
+const numberClass = "w-16 border border-gray-300 rounded px-1 py-0.5 text-center disabled:opacity-40";
+
+/**
+ * Runs several planners on the current start and goal and compares their paths, each drawn
+ * on the canvas in the planner's color. Results are cleared when the map or points change.
+ */
+export function BenchmarkPanel({ options, onChange, runs, running, canRun, resolution, onRun, onExport }: BenchmarkPanelProps) {
+    const set = <K extends keyof BenchmarkOptions>(key: K, value: BenchmarkOptions[K]) => onChange({ ...options, [key]: value });
+    const commitOnEnter = (e: KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === 'Enter') e.currentTarget.blur();
+    };
+    // Number field applied on blur; invalid input restores the current value
+    const numberInput = (key: 'seed' | 'iterations' | 'inflationRadius', valid: (v: number) => boolean, step: number, disabled = false) => (
+        <input
+            key={options[key]}
+            type="number"
+            step={step}
+            disabled={disabled}
+            defaultValue={options[key]}
+            onBlur={(e) => {
+                const value = parseFloat(e.target.value);
+                if (valid(value)) set(key, value);
+                else e.target.value = String(options[key]);
+            }}
+            onKeyDown={commitOnEnter}
+            className={numberClass}
+        />
+    );
+    const rrtSelected = options.planners.includes('rrtstar');
+    const meters = (cells: number) => Number.isFinite(cells) ? (cells * resolution).toFixed(2) : '∞';
+
+    return (
+        <div className="bg-white border border-gray-200 shadow-md p-2 rounded-md text-sm w-96 space-y-2">
+            <div className="flex items-center justify-between">
+                <label className="text-xs font-bold text-gray-500 uppercase">Planner Comparison</label>
+                <div className="flex items-center gap-1.5">
+                    <button
+                        onClick={onRun}
+                        disabled={!canRun || running || options.planners.length === 0}
+                        className="flex items-center gap-1 px-2 py-0.5 rounded border border-black bg-black text-white text-xs disabled:opacity-30"
+                        title={canRun ? 'Run the selected planners' : 'Set a start and goal first'}
+                    >
+                        <Play size={12} />{running ? 'Running…' : 'Run'}
+                    </button>
+                    <button onClick={onExport} disabled={!runs?.length} className="flex items-center text-gray-500 hover:text-black disabled:opacity-30" title="Export the table as CSV">
+                        <Download size={14} /><span className="text-[10px] font-bold">CSV</span>
+                    </button>
+                </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-x-2 gap-y-1 text-xs">
+                {BENCHMARK_PLANNERS.map(p => (
+                    <label key={p.id} className="flex items-center gap-1.5 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={options.planners.includes(p.id)}
+                            onChange={(e) => set('planners', e.target.checked
+                                ? BENCHMARK_PLANNERS.map(q => q.id).filter(id => id === p.id || options.planners.includes(id))
+                                : options.planners.filter(id => id !== p.id))}
+                            className={checkboxClass}
+                        />
+                        <span className="w-3 h-1 rounded-full" style={{ backgroundColor: p.color }} />
+                        <span className="text-gray-700">{p.label}</span>
+                    </label>
+                ))}
+            </div>
+
+            <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs">
+                <label className="flex items-center gap-1.5 cursor-pointer">
+                    <input type="checkbox" checked={options.unknownIsFree} onChange={(e) => set('unknownIsFree', e.target.checked)} className={checkboxClass} />
+                    <span className="text-gray-700">Unknown is free</span>
+                </label>
+                <label className="flex items-center gap-1.5">
+                    <span className="text-gray-700">Inflate (m):</span>
+                    {numberInput('inflationRadius', v => v >= 0, 0.05)}
+                </label>
+                <label className="flex items-center gap-1.5" title="RRT* random seed">
+                    <span className="text-gray-700">Seed:</span>
+                    {numberInput('seed', v => Number.isInteger(v), 1, !rrtSelected)}
+                </label>
+                <label className="flex items-center gap-1.5" title="RRT* samples">
+                    <span className="text-gray-700">Samples:</span>
+                    {numberInput('iterations', v => Number.isInteger(v) && v > 0, 500, !rrtSelected)}
+                </label>
+            </div>
+
+            {runs && (
+                <table className="w-full text-[11px] tabular-nums border-t border-gray-100">
+                    <thead>
+                        <tr className="text-gray-500 text-left">
+                            <th className="font-bold py-1">Planner</th>
+                            <th className="font-bold text-right" title="Cells (meters)">Length</th>
+                            <th className="font-bold text-right">Expanded</th>
+                            <th className="font-bold text-right">Time</th>
+                            <th className="font-bold text-right" title="Smallest distance to an obstacle, before inflation">Clearance</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {runs.map(r => {
+                            const planner = BENCHMARK_PLANNERS.find(p => p.id === r.planner)!;
+                            return (
+                                <tr key={r.planner} className="border-t border-gray-50">
+                                    <td className="py-0.5">
+                                        <span className="inline-block w-3 h-1 rounded-full mr-1 align-middle" style={{ backgroundColor: planner.color }} />
+                                        {planner.label}
+                                    </td>
+                                    {r.path ? (
+                                        <>
+                                            <td className="text-right">{r.length.toFixed(1)} ({meters(r.length)} m)</td>
+                                            <td className="text-right">{r.expanded}</td>
+                                            <td className="text-right">{r.runtime.toFixed(1)} ms</td>
+                                            <td className="text-right">{meters(r.clearance)} m</td>
+                                        </>
+                                    ) : (
+                                        <td colSpan={4} className="text-right text-red-600">{r.error ?? 'No path'}</td>
+                                    )}
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            )}
+            {!runs && (
+                <p className="text-xs text-gray-500">
+                    {canRun ? 'A* and Dijkstra use 8-connectivity; lengths are Euclidean along each path.' : 'Set a start and goal to compare planners.'}
+                </p>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,169 @@
+import type { MapMode, PGMFormat, RosExportOptions } from '../utils/rosExporter';
+import type { WorldExportOptions } from '../utils/sdfExporter';
+import type { ExportOptions } from '../utils/exportOptions';
+import type { GridEncoding } from '../utils/validators';
+
+interface ExportOptionsPanelProps {
+    format: string;
+    options: ExportOptions;
+    onChange: (options: ExportOptions) => void;
+}
+
+export function ExportOptionsPanel({ format, options, onChange }: ExportOptionsPanelProps) {
+    const setRos = (patch: Partial<RosExportOptions>) => onChange({ ...options, ros: { ...options.ros, ...patch } });
+    const setWorld = (patch: Partial<WorldExportOptions>) => onChange({ ...options, world: { ...options.world, ...patch } });
+    const ros = options.ros;
+    const world = options.world;
+
+    return (
+        <div className="absolute right-0 top-full mt-2 w-72 bg-white border border-gray-200 rounded-md shadow-lg p-4 space-y-3 z-30 text-sm">
+            {format === 'ros' ? (
+                <>
+                    <label className="text-xs font-bold text-gray-500 uppercase">ROS Map</label>
+
+                    <div className="flex gap-2">
+                        <div className="flex-1">
+                            <label className="text-xs text-gray-500">PGM Format</label>
+                            <select
+                                value={ros.format}
+                                onChange={(e) => setRos({ format: e.target.value as PGMFormat })}
+                                className="w-full border border-gray-300 rounded px-2 py-1 text-sm"
+                            >
+                                <option value="P5">P5 (Binary)</option>
+                                <option value="P2">P2 (ASCII)</option>
+                            </select>
+                        </div>
+                        <div className="flex-1">
+                            <label className="text-xs text-gray-500">Mode</label>
+                            <select
+                                value={ros.mode}
+                                onChange={(e) => setRos({ mode: e.target.value as MapMode })}
+                                className="w-full border border-gray-300 rounded px-2 py-1 text-sm"
+                            >
+                                <option value="trinary">Trinary</option>
+                                <option value="scale">Scale</option>
+                                <option value="raw">Raw</option>
+                            </select>
+                        </div>
+                    </div>
+
+                    <div className="flex gap-2">
+                        <div className="flex-1">
+                            <label className="text-xs text-gray-500">Occupied Thresh</label>
+                            <input
+                                type="number" min="0" max="1" step="0.01" value={ros.occupiedThresh}
+                                disabled={ros.mode === 'raw'}
+                                onChange={(e) => setRos({ occupiedThresh: parseFloat(e.target.value) })}
+                                className="w-full border border-gray-300 rounded px-2 py-1 text-sm disabled:opacity-50"
+                            />
+                        </div>
+                        <div className="flex-1">
+                            <label className="text-xs text-gray-500">Free Thresh</label>
+                            <input
+                                type="number" min="0" max="1" step="0.01" value={ros.freeThresh}
+                                disabled={ros.mode === 'raw'}
+                                onChange={(e) => setRos({ freeThresh: parseFloat(e.target.value) })}
+                                className="w-full border border-gray-300 rounded px-2 py-1 text-sm disabled:opacity-50"
+                            />
+                        </div>
+                    </div>
+
+                    <div>
+                        <label className="text-xs text-gray-500">Image Filename</label>
+                        <input
+                            type="text" value={ros.imageFilename}
+                            onChange={(e) => setRos({ imageFilename: e.target.value })}
+                            className="w-full border border-gray-300 rounded px-2 py-1 text-sm"
+                        />
+                    </div>
+
+                    <label className="flex items-center gap-2 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={ros.negate}
+                            disabled={ros.mode === 'raw'}
+                            onChange={(e) => setRos({ negate: e.target.checked })}
+                            className="rounded text-black focus:ring-black"
+                        />
+                        <span>Negate</span>
+                    </label>
+
+                    <div className="space-y-2 pt-2 border-t border-gray-100">
+                        <label className="text-xs font-bold text-gray-500 uppercase">Gazebo World</label>
+                        <label className="flex items-center gap-2 cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={world.include}
+                                onChange={(e) => setWorld({ include: e.target.checked })}
+                                className="rounded text-black focus:ring-black"
+                            />
+                            <span>Include SDF world</span>
+                        </label>
+                        <div className="flex gap-2">
+                            <div className="flex-1">
+                                <label className="text-xs text-gray-500">Wall Height (m)</label>
+                                <input
+                                    type="number" min="0.01" step="0.1" value={world.wallHeight}
+                                    disabled={!world.include}
+                                    onChange={(e) => setWorld({ wallHeight: parseFloat(e.target.value) })}
+                                    className="w-full border border-gray-300 rounded px-2 py-1 text-sm disabled:opacity-50"
+                                />
+                            </div>
+                            <div className="flex-1">
+                                <label className="text-xs text-gray-500">World Name</label>
+                                <input
+                                    type="text" value={world.worldName}
+                                    disabled={!world.include}
+                                    onChange={(e) => setWorld({ worldName: e.target.value })}
+                                    className="w-full border border-gray-300 rounded px-2 py-1 text-sm disabled:opacity-50"
+                                />
+                            </div>
+                        </div>
+                    </div>
+                </>
+            ) : format === 'stl' || format === 'obj' ? (
+                <>
+                    <label className="text-xs font-bold text-gray-500 uppercase">Mesh</label>
+                    <div>
+                        <label className="text-xs text-gray-500">Extrusion Height (m)</label>
+                        <input
+                            type="number" min="0.01" step="0.1" value={options.mesh.height}
+                            onChange={(e) => onChange({ ...options, mesh: { ...options.mesh, height: parseFloat(e.target.value) } })}
+                            className="w-full border border-gray-300 rounded px-2 py-1 text-sm"
+                        />
+                    </div>
+                </>
+            ) : format === 'json' ? (
+                <>
+                    <label className="text-xs font-bold text-gray-500 uppercase">JSON</label>
+                    <div>
+                        <label className="text-xs text-gray-500">Data Encoding</label>
+                        <select
+                            value={options.json.encoding}
+                            onChange={(e) => onChange({ ...options, json: { ...options.json, encoding: e.target.value as GridEncoding } })}
+                            className="w-full border border-gray-300 rounded px-2 py-1 text-sm"
+                        >
+                            <option value="raw">Raw (number array)</option>
+                            <option value="rle">Run-length</option>
+                            <option value="base64+deflate">Base64 + Deflate</option>
+                        </select>
+                    </div>
+                </>
+            ) : format === 'geojson' || format === 'svg' ? (
+                <>
+                    <label className="text-xs font-bold text-gray-500 uppercase">Polygons</label>
+                    <div>
+                        <label className="text-xs text-gray-500">Simplify Tolerance (cells)</label>
+                        <input
+                            type="number" min="0" step="0.5" value={options.vector.tolerance}
+                            onChange={(e) => onChange({ ...options, vector: { ...options.vector, tolerance: parseFloat(e.target.value) } })}
+                            className="w-full border border-gray-300 rounded px-2 py-1 text-sm"
+                        />
+                    </div>
+                </>
+            ) : (
+                <p className="text-gray-500">No options for this format.</p>
+            )}
+        </div>
+    );
+}
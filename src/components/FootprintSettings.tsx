@@ -0,0 +1,104 @@
+import { useState, type KeyboardEvent } from 'react';
+import clsx from 'clsx';
+import type { RobotFootprint } from '../types';
+import { DEFAULT_FOOTPRINT, formatPolygonText, parsePolygonText } from '../utils/footprintUtils';
+
+interface FootprintSettingsProps {
+    footprint?: RobotFootprint;
+    resolution: number;
+    collisions: ('start' | 'goal')[];
+    onChange: (footprint: RobotFootprint | undefined) => void;
+}
+
+const DEFAULT_POLYGON = [{ x: 0.3, y: 0.2 }, { x: 0.3, y: -0.2 }, { x: -0.3, y: -0.2 }, { x: -0.3, y: 0.2 }];
+
+/**
+ * Robot outline drawn around the start and goal and checked against blocked cells.
+ * Sizes are in meters; fields are applied on blur or Enter so each edit is one undo step.
+ */
+export function FootprintSettings({ footprint, resolution, collisions, onChange }: FootprintSettingsProps) {
+    const [polygonError, setPolygonError] = useState(false);
+    const commitOnEnter = (e: KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === 'Enter') e.currentTarget.blur();
+    };
+
+    return (
+        <div className="bg-white border border-gray-200 shadow-md p-2 rounded-md text-sm w-64 space-y-2">
+            <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                    type="checkbox"
+                    checked={!!footprint}
+                    onChange={(e) => onChange(e.target.checked ? DEFAULT_FOOTPRINT : undefined)}
+                    className="w-3.5 h-3.5 rounded border-gray-300 text-black focus:ring-1 focus:ring-black"
+                />
+                <span className="text-xs font-bold text-gray-500 uppercase">Robot Footprint</span>
+            </label>
+
+            {footprint && (
+                <>
+                    <div className="flex gap-1">
+                        {(['circle', 'polygon'] as const).map(kind => (
+                            <button
+                                key={kind}
+                                onClick={() => {
+                                    if (kind === footprint.kind) return;
+                                    onChange(kind === 'circle' ? DEFAULT_FOOTPRINT : { kind, points: DEFAULT_POLYGON });
+                                }}
+                                className={clsx(
+                                    "flex-1 px-2 py-0.5 rounded border text-xs capitalize",
+                                    footprint.kind === kind ? "border-black bg-black text-white" : "border-gray-300 bg-gray-50 hover:bg-gray-100"
+                                )}
+                            >
+                                {kind}
+                            </button>
+                        ))}
+                    </div>
+
+                    {footprint.kind === 'circle' ? (
+                        <div className="flex items-center gap-2 text-xs">
+                            <span className="text-gray-500 font-bold">Radius (m):</span>
+                            <input
+                                key={footprint.radius}
+                                type="number"
+                                min={0}
+                                step={0.05}
+                                defaultValue={footprint.radius}
+                                onBlur={(e) => {
+                                    const radius = parseFloat(e.target.value);
+                                    if (radius > 0 && radius !== footprint.radius) onChange({ kind: 'circle', radius });
+                                    else e.target.value = String(footprint.radius);
+                                }}
+                                onKeyDown={commitOnEnter}
+                                className="w-16 border border-gray-300 rounded px-1 py-0.5 text-center"
+                            />
+                            <span className="text-gray-500 tabular-nums">{(footprint.radius / resolution).toFixed(1)} cells</span>
+                        </div>
+                    ) : (
+                        <div className="space-y-1 text-xs">
+                            <span className="text-gray-500 font-bold">Vertices (m, x forward, y left):</span>
+                            <input
+                                key={formatPolygonText(footprint.points)}
+                                type="text"
+                                defaultValue={formatPolygonText(footprint.points)}
+                                onBlur={(e) => {
+                                    const points = parsePolygonText(e.target.value);
+                                    setPolygonError(!points);
+                                    if (points) onChange({ kind: 'polygon', points });
+                                }}
+                                onKeyDown={commitOnEnter}
+                                className={clsx("w-full border rounded px-1 py-0.5 font-mono", polygonError ? "border-red-500" : "border-gray-300")}
+                                title="x,y; x,y; ... with at least three points"
+                            />
+                        </div>
+                    )}
+
+                    <div className={clsx("text-xs", collisions.length > 0 ? "text-red-600 font-medium" : "text-gray-500")}>
+                        {collisions.length > 0
+                            ? `Collision at the ${collisions.join(' and ')}`
+                            : 'No collisions at start or goal'}
+                    </div>
+                </>
+            )}
+        </div>
+    );
+}
@@ -1,42 +1,40 @@
-import { useState } from 'react';
 import { Play } from 'lucide-react';
-import type { GeneratorOptions, ShapeType } from '../utils/generatorUtils';
+import type { GeneratorOptions, GeneratorSettings, ShapeType } from '../utils/generatorUtils';
 import clsx from 'clsx';
 
 interface GeneratorPanelProps {
+    settings: GeneratorSettings;
+    onSettingsChange: (settings: GeneratorSettings) => void;
     onGenerate: (options: GeneratorOptions) => void;
 }
 
-export function GeneratorPanel({ onGenerate }: GeneratorPanelProps) {
-    const [mode, setMode] = useState<'shapes' | 'maze' | 'bugtrap'>('shapes');
+export function GeneratorPanel({ settings, onSettingsChange, onGenerate }: GeneratorPanelProps) {
+    const set = (patch: Partial<GeneratorSettings>) => onSettingsChange({ ...settings, ...patch });
+    const setBugtrap = (patch: Partial<GeneratorSettings['bugtrap']>) => set({ bugtrap: { ...settings.bugtrap, ...patch } });
+
+    const { mode, selectedShapes, count: counts, minSize, maxSize, spacing, allowOverlap, clearFirst } = settings;
+    const setMode = (value: GeneratorSettings['mode']) => set({ mode: value });
 
     // Shapes State
-    const [selectedShapes, setSelectedShapes] = useState<Record<ShapeType, boolean>>({
-        rect: true,
-        square: true,
-        circle: true,
-        triangle: true,
-        cross: true,
-        room: true
-    });
-    const [counts, setCounts] = useState(10);
-    const [minSize, setMinSize] = useState(3);
-    const [maxSize, setMaxSize] = useState(10);
-    const [spacing, setSpacing] = useState(1);
-    const [allowOverlap, setAllowOverlap] = useState(false);
-    const [clearFirst, setClearFirst] = useState(false);
+    const setCounts = (value: number) => set({ count: value });
+    const setMinSize = (value: number) => set({ minSize: value });
+    const setMaxSize = (value: number) => set({ maxSize: value });
+    const setSpacing = (value: number) => set({ spacing: value });
+    const setAllowOverlap = (value: boolean) => set({ allowOverlap: value });
+    const setClearFirst = (value: boolean) => set({ clearFirst: value });
 
     // Maze State
     // (None yet, maybe corridor width later)
 
     // Bugtrap State
-    const [btWidth, setBtWidth] = useState(20);
-    const [btLength, setBtLength] = useState(30);
-    const [btThickness, setBtThickness] = useState(2);
-    const [btAperture, setBtAperture] = useState(0);
+    const { width: btWidth, length: btLength, thickness: btThickness, aperture: btAperture } = settings.bugtrap;
+    const setBtWidth = (value: number) => setBugtrap({ width: value });
+    const setBtLength = (value: number) => setBugtrap({ length: value });
+    const setBtThickness = (value: number) => setBugtrap({ thickness: value });
+    const setBtAperture = (value: number) => setBugtrap({ aperture: value });
 
     const toggleShape = (s: ShapeType) => {
-        setSelectedShapes(prev => ({ ...prev, [s]: !prev[s] }));
+        set({ selectedShapes: { ...selectedShapes, [s]: !selectedShapes[s] } });
     };
 
     const handleGenerate = () => {
@@ -1,5 +1,9 @@
-import React, { useRef, useEffect, useState, useCallback } from 'react';
-import { CELL_OCCUPIED, CELL_FREE } from '../types';
+import React, { useRef, useEffect, useState, useCallback, useMemo } from 'react';
+import { CELL_OCCUPIED, CELL_FREE, CELL_UNKNOWN, type Connectivity, type Pose, type RobotFootprint, type ViewTransform, type Waypoint } from '../types';
+import { floodFill, brushFootprint, stampBrush, bresenham, lineCells, polygonCells, rectCells, ellipseCells, shapeMask, DEFAULT_BRUSH, DEFAULT_SHAPE_STYLE, type Brush, type Cell, type CellRect, type ShapeStyle } from '../utils/drawingUtils';
+import { occupancyColor, occupancyGray } from '../utils/exportUtils';
+import { footprintCells, footprintCollides, footprintPolygon } from '../utils/footprintUtils';
+import type { SelectionController } from '../hooks/useSelection';
 
 // Actually standard resize cursors + arrows in CSS/SVG is better.
 
@@ -10,24 +14,56 @@ interface GridCanvasProps {
     metadata?: any;
     tool: string;
     onUpdate: (data: Int8Array) => void;
-    onSetStart?: (x: number, y: number) => void;
-    onSetGoal?: (x: number, y: number) => void;
+    onSetStart?: (x: number, y: number, theta?: number) => void;
+    onSetGoal?: (x: number, y: number, theta?: number) => void;
     onClearStart?: () => void;
     onClearGoal?: () => void;
+    onSetWaypoints?: (waypoints: Waypoint[]) => void;
     onResize?: (w: number, h: number, ox: number, oy: number) => void;
     useRelativeCoords?: boolean;
+    fillConnectivity?: Connectivity;
+    paintValue?: number; // Cell value written by pencil, rect and bucket
+    brush?: Brush; // Pencil and eraser
+    shapeStyle?: ShapeStyle; // Rect, ellipse, line and polygon
+    selection?: SelectionController; // Select tool
+    paths?: PathOverlay[]; // Planned paths drawn under the start and goal
 }
+
+// A polyline through cell centers (internal coordinates)
+export interface PathOverlay {
+    points: Cell[];
+    color: string;
+}
+
+// A start, goal or waypoint (by index, -1 for a new one) being placed or aimed with its tool
+interface PoseDrag {
+    target: 'start' | 'goal' | number;
+    pose: Pose;
+    existing: boolean; // Pressed on a point that was already there; releasing without aiming removes it
+    aimed: boolean; // Dragged away from the cell, so pose.theta is the new heading
+}
+
+// First unused default name: WP1, WP2, ...
+const nextWaypointName = (waypoints: Waypoint[]) => {
+    let n = waypoints.length + 1;
+    while (waypoints.some(w => w.name === `WP${n}`)) n++;
+    return `WP${n}`;
+};
+
 // Define handle for imperative methods
 export interface GridCanvasHandle {
     resetView: () => void;
+    zoom: (factor: number) => void; // Around the viewport center
+    getView: () => ViewTransform;
+    setView: (view: ViewTransform) => void;
 }
 
-export const GridCanvas = React.forwardRef<GridCanvasHandle, GridCanvasProps>(({ width, height, data, metadata, tool, onUpdate, onSetStart, onSetGoal, onClearStart, onClearGoal, onResize, useRelativeCoords = false }, ref) => {
+export const GridCanvas = React.forwardRef<GridCanvasHandle, GridCanvasProps>(({ width, height, data, metadata, tool, onUpdate, onSetStart, onSetGoal, onClearStart, onClearGoal, onSetWaypoints, onResize, useRelativeCoords = false, fillConnectivity = 4, paintValue = CELL_OCCUPIED, brush = DEFAULT_BRUSH, shapeStyle = DEFAULT_SHAPE_STYLE, selection, paths }, ref) => {
     const canvasRef = useRef<HTMLCanvasElement>(null);
     const containerRef = useRef<HTMLDivElement>(null);
 
     // Transform state: scale (k), translation (x, y)
-    const [transform, setTransform] = useState({ k: 20, x: 50, y: 50 }); // Start with reasonable zoom
+    const [transform, setTransform] = useState<ViewTransform>({ k: 20, x: 50, y: 50 }); // Start with reasonable zoom
     const [initialized, setInitialized] = useState(false);
     const [isPanning, setIsPanning] = useState(false);
 
@@ -35,6 +71,8 @@ export const GridCanvas = React.forwardRef<GridCanvasHandle, GridCanvasProps>(({
     const [isDrawing, setIsDrawing] = useState(false);
     const startPosRef = useRef<{ x: number, y: number } | null>(null);
     const lastPosRef = useRef<{ x: number, y: number } | null>(null);
+    const moveOffsetRef = useRef<Cell | null>(null); // Grab point inside a selection being dragged
+    const [poseDrag, setPoseDrag] = useState<PoseDrag | null>(null);
 
     // Resizing State
     const activeDragNodeRef = useRef<'top' | 'bottom' | 'left' | 'right' | null>(null);
@@ -43,9 +81,19 @@ export const GridCanvas = React.forwardRef<GridCanvasHandle, GridCanvasProps>(({
     // Transient resizing state for "online" visualization
     const [ghostDims, setGhostDims] = useState<{ w: number, h: number, ox: number, oy: number } | null>(null);
 
-    const [previewRect, setPreviewRect] = useState<{ x: number, y: number, w: number, h: number } | null>(null);
+    const [previewRect, setPreviewRect] = useState<CellRect | null>(null);
     const [hoverCoord, setHoverCoord] = useState<{ x: number, y: number } | null>(null);
 
+    // Shape previews (internal coordinates); polygon vertices placed so far
+    const [previewCells, setPreviewCells] = useState<Cell[] | null>(null);
+    const [polyVertices, setPolyVertices] = useState<Cell[]>([]);
+
+    // Switching tools abandons an unfinished polygon
+    useEffect(() => {
+        setPolyVertices([]);
+        setPreviewCells(null);
+    }, [tool]);
+
     // Effective Dimensions (Ghost if resizing, else Props)
     const activeW = ghostDims ? ghostDims.w : width;
     const activeH = ghostDims ? ghostDims.h : height;
@@ -94,9 +142,19 @@ export const GridCanvas = React.forwardRef<GridCanvasHandle, GridCanvasProps>(({
         };
     }, [activeW, activeH]);
 
-    // Expose resetView via ref
+    // Expose view controls via ref
     React.useImperativeHandle(ref, () => ({
-        resetView: fitView
+        resetView: fitView,
+        zoom: (factor: number) => {
+            if (!containerRef.current) return;
+            const { clientWidth, clientHeight } = containerRef.current;
+            zoomAt(factor, clientWidth / 2, clientHeight / 2);
+        },
+        getView: () => transform,
+        setView: (view: ViewTransform) => {
+            setTransform(view);
+            setInitialized(true);
+        }
     }));
 
     // Helper: Screen to Display coordinates (center-based)
@@ -161,6 +219,27 @@ export const GridCanvas = React.forwardRef<GridCanvasHandle, GridCanvasProps>(({
         window.addEventListener('mousemove', handleResizeMoveWindow);
     };
 
+    // Grid cells as a bitmap, rebuilt only when the cells change so hovering and overlays
+    // redraw without it. Cells lifted into a floating selection are shown as removed.
+    const visibleData = selection?.floating?.base ?? data;
+    const gridBitmap = useMemo(() => {
+        const bitmap = document.createElement('canvas');
+        bitmap.width = width;
+        bitmap.height = height;
+        const bitmapCtx = bitmap.getContext('2d');
+        if (!bitmapCtx) return bitmap;
+        const gridImage = bitmapCtx.createImageData(width, height);
+        const buf = new Uint32Array(gridImage.data.buffer);
+        for (let i = 0; i < visibleData.length; i++) {
+            buf[i] = occupancyColor(visibleData[i]);
+        }
+        bitmapCtx.putImageData(gridImage, 0, 0);
+        return bitmap;
+    }, [visibleData, width, height]);
+
+    // The brush footprint follows the cursor; other tools do not redraw on hover
+    const brushHover = (tool === 'pencil' || tool === 'eraser') && !isPanning ? hoverCoord : null;
+
     // --- Rendering Loop ---
     useEffect(() => {
         const canvas = canvasRef.current;
@@ -204,33 +283,11 @@ export const GridCanvas = React.forwardRef<GridCanvasHandle, GridCanvasProps>(({
             // If resizing, we need to respect offset (activeOX, activeOY)
             // We only render the intersection of old data and new active area.
 
-            // Prepare Grid Data Image (of original data)
-            // Optimization: Create ImageData once per `data` change usually, but here we render every frame.
-            // For 500x500 it's fast enough.
-            const gridImage = ctx.createImageData(width, height);
-            const buf = new Uint32Array(gridImage.data.buffer);
-
-            for (let i = 0; i < data.length; i++) {
-                const val = data[i];
-                if (val === CELL_OCCUPIED) {
-                    buf[i] = 0xFF000000; // Black
-                } else if (val === CELL_FREE) {
-                    buf[i] = 0xFFFFFFFF; // White
-                } else {
-                    buf[i] = 0xFFD1D5DB; // Gray 300
-                }
-            }
-
-            const tempCanvas = document.createElement('canvas');
-            tempCanvas.width = width;
-            tempCanvas.height = height;
-            tempCanvas.getContext('2d')?.putImageData(gridImage, 0, 0);
-
             ctx.imageSmoothingEnabled = false;
             // Draw original data
-            // The tempCanvas has data at positions 0 to width-1
+            // The gridBitmap has data at positions 0 to width-1
             // After translate(-centerX), we draw at position activeOX so internal coord 0 maps correctly
-            ctx.drawImage(tempCanvas, activeOX, activeOY);
+            ctx.drawImage(gridBitmap, activeOX, activeOY);
 
             // 3. Grid Lines (Black Mesh)
             ctx.lineWidth = 0.5 / transform.k;
@@ -281,37 +338,223 @@ export const GridCanvas = React.forwardRef<GridCanvasHandle, GridCanvasProps>(({
             ctx.lineTo(activeW, centerY);
             ctx.stroke();
 
-            // 5. Start / Goal (convert display coordinates to transformed space)
-            const drawPoint = (p: { x: number, y: number }, color: string) => {
-                // p is in display coordinates (center-based, where 0 is center)
-                // Convert to transformed space: add centerX/centerY
-                const px = p.x + centerX;
-                const py = p.y + centerY;
-
-                // Check if within bounds (in display coordinates)
-                if (p.x >= minX && p.x < maxX && p.y >= minY && p.y < maxY) {
-                    ctx.fillStyle = color;
-                    ctx.fillRect(px, py, 1, 1);
+            // 5. Planned paths, then Start / Goal / Waypoints (convert display coordinates to transformed space)
+            ctx.lineJoin = 'round';
+            ctx.lineWidth = 2 / transform.k;
+            for (const path of paths ?? []) {
+                if (path.points.length < 2) continue;
+                ctx.strokeStyle = path.color;
+                ctx.beginPath();
+                path.points.forEach((c, i) => {
+                    const d = internalToDisplay(c.x, c.y);
+                    ctx[i === 0 ? 'moveTo' : 'lineTo'](d.x + centerX + 0.5, d.y + centerY + 0.5);
+                });
+                ctx.stroke();
+            }
+            ctx.lineJoin = 'miter';
+
+            const drawPoint = (p: Pose, color: string, label?: string) => {
+                // Convert internal coords to display coords, then to transformed space
+                const d = internalToDisplay(p.x, p.y);
+                if (d.x < minX || d.x >= maxX || d.y < minY || d.y >= maxY) return;
+                const px = d.x + centerX;
+                const py = d.y + centerY;
+                ctx.fillStyle = color;
+                ctx.fillRect(px, py, 1, 1);
+
+                if (p.theta !== undefined) {
+                    // Heading arrow from the cell center; theta is counter-clockwise with y up
+                    const len = Math.max(1.5, 24 / transform.k);
+                    const angle = -p.theta;
+                    const tipX = px + 0.5 + Math.cos(angle) * len;
+                    const tipY = py + 0.5 + Math.sin(angle) * len;
+                    ctx.strokeStyle = color;
+                    ctx.lineWidth = 2 / transform.k;
+                    ctx.beginPath();
+                    ctx.moveTo(px + 0.5, py + 0.5);
+                    ctx.lineTo(tipX, tipY);
+                    for (const side of [-1, 1]) {
+                        ctx.moveTo(tipX, tipY);
+                        ctx.lineTo(tipX + Math.cos(angle + side * 5 * Math.PI / 6) * len * 0.35, tipY + Math.sin(angle + side * 5 * Math.PI / 6) * len * 0.35);
+                    }
+                    ctx.stroke();
+                }
+                if (label) {
+                    ctx.font = `${12 / transform.k}px sans-serif`;
+                    ctx.textAlign = 'left';
+                    ctx.textBaseline = 'middle';
+                    ctx.fillText(label, px + 1.2, py + 0.5);
+                }
+            };
+
+            // A point being placed or aimed is drawn in its new pose
+            const dragged = (target: PoseDrag['target'], pose: Pose | undefined) =>
+                poseDrag && poseDrag.target === target ? poseDrag.pose : pose;
+
+            const waypoints: Waypoint[] = (metadata?.waypoints ?? []).map((w: Waypoint, i: number) => ({ ...w, ...dragged(i, w) }));
+            if (poseDrag?.target === -1) waypoints.push({ ...poseDrag.pose, name: nextWaypointName(waypoints) });
+            if (waypoints.length > 1) {
+                // Tour order
+                ctx.strokeStyle = 'rgba(168, 85, 247, 0.6)';
+                ctx.lineWidth = 1 / transform.k;
+                ctx.setLineDash([4 / transform.k, 4 / transform.k]);
+                ctx.beginPath();
+                waypoints.forEach((w, i) => {
+                    const d = internalToDisplay(w.x, w.y);
+                    ctx[i === 0 ? 'moveTo' : 'lineTo'](d.x + centerX + 0.5, d.y + centerY + 0.5);
+                });
+                ctx.stroke();
+                ctx.setLineDash([]);
+            }
+            waypoints.forEach((w, i) => drawPoint(w, '#a855f7', `${i + 1}. ${w.name}`));
+
+            const start = dragged('start', metadata?.start);
+            const goal = dragged('goal', metadata?.goal);
+            if (start && goal && metadata?.activeScenario !== undefined) {
+                // The scenario picked in the scenario panel
+                const a = internalToDisplay(start.x, start.y);
+                const b = internalToDisplay(goal.x, goal.y);
+                ctx.strokeStyle = 'rgba(245, 158, 11, 0.8)';
+                ctx.lineWidth = 2 / transform.k;
+                ctx.setLineDash([6 / transform.k, 4 / transform.k]);
+                ctx.beginPath();
+                ctx.moveTo(a.x + centerX + 0.5, a.y + centerY + 0.5);
+                ctx.lineTo(b.x + centerX + 0.5, b.y + centerY + 0.5);
+                ctx.stroke();
+                ctx.setLineDash([]);
+            }
+
+            // Robot footprint around start and goal, red where it hits blocked cells
+            const drawFootprint = (p: Pose, color: string) => {
+                const footprint: RobotFootprint | undefined = metadata?.footprint;
+                if (!footprint) return;
+                const offset = internalToDisplay(0, 0);
+                const ox = offset.x + centerX;
+                const oy = offset.y + centerY;
+                const colliding = footprintCollides(data, width, height, footprint, p, metadata.resolution);
+
+                if (colliding) {
+                    ctx.fillStyle = 'rgba(239, 68, 68, 0.35)';
+                    for (const c of footprintCells(footprint, p, metadata.resolution)) {
+                        ctx.fillRect(c.x + ox, c.y + oy, 1, 1);
+                    }
+                }
+                ctx.strokeStyle = colliding ? '#dc2626' : color;
+                ctx.lineWidth = 1.5 / transform.k;
+                ctx.beginPath();
+                if (footprint.kind === 'circle') {
+                    ctx.arc(p.x + 0.5 + ox, p.y + 0.5 + oy, footprint.radius / metadata.resolution, 0, 2 * Math.PI);
+                } else {
+                    footprintPolygon(footprint.points, p, metadata.resolution).forEach((v, i) => {
+                        ctx[i === 0 ? 'moveTo' : 'lineTo'](v.x + ox, v.y + oy);
+                    });
+                    ctx.closePath();
+                }
+                ctx.stroke();
+            };
+
+            if (start) {
+                drawFootprint(start, '#22c55e');
+                drawPoint(start, '#22c55e');
+            }
+            if (goal) {
+                drawFootprint(goal, '#ef4444');
+                drawPoint(goal, '#ef4444');
+            }
+
+            // 6. Shape Preview (internal coordinates, offset like the grid image)
+            const previewOrigin = internalToDisplay(0, 0);
+            const px0 = previewOrigin.x + centerX;
+            const py0 = previewOrigin.y + centerY;
+            const previewGray = paintValue === CELL_UNKNOWN ? null : occupancyGray(paintValue);
+            // Draws a coverage mask over a box as one image, clipped to the grid
+            const drawPreviewMask = (mask: Uint8Array, box: CellRect) => {
+                const previewImage = ctx.createImageData(box.w, box.h);
+                const previewBuf = new Uint32Array(previewImage.data.buffer);
+                const color = previewGray === null
+                    ? 0xCCDBD5D1 // Gray 300 at 0.8 alpha
+                    : ((0x80 << 24) | (previewGray << 16) | (previewGray << 8) | previewGray) >>> 0;
+                for (let i = 0; i < mask.length; i++) {
+                    if (mask[i]) previewBuf[i] = color;
                 }
+                const previewCanvas = document.createElement('canvas');
+                previewCanvas.width = box.w;
+                previewCanvas.height = box.h;
+                previewCanvas.getContext('2d')?.putImageData(previewImage, 0, 0);
+                ctx.save();
+                ctx.beginPath();
+                ctx.rect(px0, py0, width, height);
+                ctx.clip();
+                ctx.drawImage(previewCanvas, box.x + px0, box.y + py0);
+                ctx.restore();
             };
 
-            if (metadata?.start) {
-                // Convert internal coords to display coords if needed
-                const startDisplay = internalToDisplay(metadata.start.x, metadata.start.y);
-                drawPoint(startDisplay, '#22c55e');
+            if (previewRect && (tool === 'rect' || tool === 'ellipse')) {
+                if (tool === 'rect' && shapeStyle.filled) {
+                    const x0 = Math.max(0, previewRect.x);
+                    const y0 = Math.max(0, previewRect.y);
+                    ctx.fillStyle = previewGray === null ? 'rgba(209, 213, 219, 0.8)' : `rgba(${previewGray}, ${previewGray}, ${previewGray}, 0.5)`;
+                    ctx.fillRect(x0 + px0, y0 + py0, Math.min(width, previewRect.x + previewRect.w) - x0, Math.min(height, previewRect.y + previewRect.h) - y0);
+                } else {
+                    drawPreviewMask(shapeMask(previewRect, shapeStyle, tool === 'ellipse'), previewRect);
+                }
+            } else if (previewCells && previewCells.length > 0) {
+                // Lines and polygons: mask over the bounding box of their cells
+                let [x0, y0, x1, y1] = [width, height, 0, 0];
+                for (const c of previewCells) {
+                    x0 = Math.min(x0, c.x);
+                    y0 = Math.min(y0, c.y);
+                    x1 = Math.max(x1, c.x);
+                    y1 = Math.max(y1, c.y);
+                }
+                const box = { x: x0, y: y0, w: x1 - x0 + 1, h: y1 - y0 + 1 };
+                const mask = new Uint8Array(box.w * box.h);
+                for (const c of previewCells) mask[(c.y - box.y) * box.w + (c.x - box.x)] = 1;
+                drawPreviewMask(mask, box);
             }
-            if (metadata?.goal) {
-                const goalDisplay = internalToDisplay(metadata.goal.x, metadata.goal.y);
-                drawPoint(goalDisplay, '#ef4444');
+            // Selection: floating cells and the marquee
+            if (selection?.rect) {
+                const r = selection.rect;
+                const d = internalToDisplay(r.x, r.y);
+                if (selection.floating) {
+                    const { region } = selection.floating;
+                    const regionImage = ctx.createImageData(region.width, region.height);
+                    const regionBuf = new Uint32Array(regionImage.data.buffer);
+                    for (let i = 0; i < region.data.length; i++) {
+                        regionBuf[i] = occupancyColor(region.data[i]);
+                    }
+                    const regionCanvas = document.createElement('canvas');
+                    regionCanvas.width = region.width;
+                    regionCanvas.height = region.height;
+                    regionCanvas.getContext('2d')?.putImageData(regionImage, 0, 0);
+                    ctx.globalAlpha = 0.85;
+                    ctx.drawImage(regionCanvas, d.x + centerX, d.y + centerY);
+                    ctx.globalAlpha = 1;
+                }
+                ctx.lineWidth = 2 / transform.k;
+                ctx.strokeStyle = '#3b82f6';
+                ctx.setLineDash([4 / transform.k, 4 / transform.k]);
+                ctx.strokeRect(d.x + centerX, d.y + centerY, r.w, r.h);
+                ctx.setLineDash([]);
             }
 
-            // 6. Preview Rect (convert to display coordinates, then to transformed space)
-            if (previewRect) {
-                ctx.fillStyle = tool === 'eraser' ? 'rgba(251, 252, 254, 0.8)' : 'rgba(0,0,0,0.5)';
-                // previewRect is in internal coordinates, convert to display
-                const rectDisplay = internalToDisplay(previewRect.x, previewRect.y);
-                // Convert to transformed space
-                ctx.fillRect(rectDisplay.x + centerX, rectDisplay.y + centerY, previewRect.w, previewRect.h);
+            // Placed polygon vertices
+            ctx.fillStyle = '#3b82f6';
+            for (const v of polyVertices) {
+                const d = internalToDisplay(v.x, v.y);
+                ctx.fillRect(d.x + centerX + 0.25, d.y + centerY + 0.25, 0.5, 0.5);
+            }
+
+            // 6.5. Brush footprint under the cursor
+            if (brushHover) {
+                ctx.fillStyle = 'rgba(59, 130, 246, 0.35)'; // Blue, visible on black and white
+                for (const o of brushFootprint(brush)) {
+                    const bx = brushHover.x + o.x;
+                    const by = brushHover.y + o.y;
+                    if (bx >= minX && bx < maxX && by >= minY && by < maxY) {
+                        ctx.fillRect(bx + centerX, by + centerY, 1, 1);
+                    }
+                }
             }
 
             ctx.restore();
@@ -390,22 +633,14 @@ export const GridCanvas = React.forwardRef<GridCanvasHandle, GridCanvasProps>(({
 
         const id = requestAnimationFrame(render);
         return () => cancelAnimationFrame(id);
-    }, [width, height, data, metadata, transform, previewRect, tool, ghostDims, activeW, activeH, activeOX, activeOY, useRelativeCoords]);
+    }, [width, height, data, gridBitmap, metadata, transform, tool, ghostDims, activeW, activeH, activeOX, activeOY, useRelativeCoords, paintValue, brush, shapeStyle, brushHover, previewRect, previewCells, polyVertices, selection?.rect, selection?.floating, poseDrag, paths]);
 
 
     // --- Event Handling ---
-    const handleWheel = (e: React.WheelEvent) => {
-        e.stopPropagation();
-        const zoomSensitivity = 0.001;
-        const delta = -e.deltaY * zoomSensitivity;
-        const scaleFactor = 1 + delta;
+    // Zoom by a factor, keeping the grid point under (mx, my) (container pixels) in place
+    const zoomAt = (scaleFactor: number, mx: number, my: number) => {
         const newK = Math.min(Math.max(transform.k * scaleFactor, 2), 100); // Max zoom 100, min 2
 
-        if (!containerRef.current) return;
-        const rect = containerRef.current.getBoundingClientRect();
-        const mx = e.clientX - rect.left;
-        const my = e.clientY - rect.top;
-
         const wx = (mx - transform.x) / transform.k;
         const wy = (my - transform.y) / transform.k;
         const newTx = mx - wx * newK;
@@ -414,6 +649,16 @@ export const GridCanvas = React.forwardRef<GridCanvasHandle, GridCanvasProps>(({
         setTransform({ k: newK, x: newTx, y: newTy });
     };
 
+    const handleWheel = (e: React.WheelEvent) => {
+        e.stopPropagation();
+        const zoomSensitivity = 0.001;
+        const delta = -e.deltaY * zoomSensitivity;
+
+        if (!containerRef.current) return;
+        const rect = containerRef.current.getBoundingClientRect();
+        zoomAt(1 + delta, e.clientX - rect.left, e.clientY - rect.top);
+    };
+
     const handleMouseDown = (e: React.MouseEvent) => {
         if (e.button === 2 || e.button === 1 || (e.button === 0 && e.altKey)) {
             setIsPanning(true);
@@ -437,6 +682,8 @@ export const GridCanvas = React.forwardRef<GridCanvasHandle, GridCanvasProps>(({
             // Check if clicking on existing start/goal to clear them
             const isOnStart = metadata?.start && internal.x === metadata.start.x && internal.y === metadata.start.y;
             const isOnGoal = metadata?.goal && internal.x === metadata.goal.x && internal.y === metadata.goal.y;
+            const waypoints: Waypoint[] = metadata?.waypoints ?? [];
+            const waypointIndex = waypoints.findIndex(w => w.x === internal.x && w.y === internal.y);
 
             if (tool === 'pencil' || tool === 'eraser') {
                 // If eraser and clicking on start/goal, clear them
@@ -449,28 +696,58 @@ export const GridCanvas = React.forwardRef<GridCanvasHandle, GridCanvasProps>(({
                         onClearGoal();
                         return;
                     }
+                    if (waypointIndex >= 0 && onSetWaypoints) {
+                        onSetWaypoints(waypoints.filter((_, i) => i !== waypointIndex));
+                        return;
+                    }
                 }
                 setIsDrawing(true);
                 lastPosRef.current = internal; // Store internal for drawing
-                modifyGrid([{ x: internal.x, y: internal.y }], tool === 'pencil' ? CELL_OCCUPIED : CELL_FREE);
-            } else if (tool === 'rect') {
+                modifyGrid(stampBrush([internal], brush, width, height), tool === 'pencil' ? paintValue : CELL_FREE);
+            } else if (tool === 'rect' || tool === 'ellipse') {
                 setIsDrawing(true);
                 startPosRef.current = internal; // Store internal for rect
-                setPreviewRect({ x: internal.x, y: internal.y, w: 1, h: 1 });
-            } else if (tool === 'start') {
-                // If clicking on existing start, clear it; otherwise set it
-                if (isOnStart && onClearStart) {
-                    onClearStart();
+                updateDragShape(internal, internal, false);
+            } else if (tool === 'line') {
+                setIsDrawing(true);
+                startPosRef.current = internal;
+                setPreviewCells(lineCells(internal, internal, shapeStyle.strokeWidth, width, height));
+            } else if (tool === 'polygon') {
+                // The second press of a double-click finishes the shape instead of adding a vertex
+                if (e.detail >= 2 && polyVertices.length > 0) {
+                    finishPolygon();
                 } else {
-                    onSetStart?.(internal.x, internal.y);
+                    setPolyVertices(prev => [...prev, internal]);
                 }
-            } else if (tool === 'goal') {
-                // If clicking on existing goal, clear it; otherwise set it
-                if (isOnGoal && onClearGoal) {
-                    onClearGoal();
+            } else if (tool === 'select' && selection) {
+                setIsDrawing(true);
+                const r = selection.rect;
+                if (r && internal.x >= r.x && internal.x < r.x + r.w && internal.y >= r.y && internal.y < r.y + r.h) {
+                    // Grab the selection to move it
+                    selection.lift();
+                    moveOffsetRef.current = { x: internal.x - r.x, y: internal.y - r.y };
                 } else {
-                    onSetGoal?.(internal.x, internal.y);
+                    // Start a new marquee; anything floating is placed first
+                    selection.commit();
+                    startPosRef.current = internal;
+                    selection.select({ x: internal.x, y: internal.y, w: 1, h: 1 });
                 }
+            } else if (tool === 'bucket') {
+                // One fill = one update = one undo step. Shift fills with free space.
+                const filled = floodFill(data, width, height, internal.x, internal.y, e.shiftKey ? CELL_FREE : paintValue, fillConnectivity);
+                if (filled) onUpdate(filled);
+            } else if (tool === 'start' || tool === 'goal' || tool === 'waypoint') {
+                // Press places the point or grabs the one under the cursor, dragging aims it,
+                // release commits (see commitPose)
+                const existing = tool === 'start' ? isOnStart : tool === 'goal' ? isOnGoal : waypointIndex >= 0;
+                const current: Pose | undefined = tool === 'start' ? metadata?.start : tool === 'goal' ? metadata?.goal : waypoints[waypointIndex];
+                setIsDrawing(true);
+                setPoseDrag({
+                    target: tool === 'waypoint' ? waypointIndex : tool,
+                    pose: existing && current ? { ...current } : { x: internal.x, y: internal.y },
+                    existing: !!existing,
+                    aimed: false
+                });
             }
         }
     };
@@ -501,24 +778,40 @@ export const GridCanvas = React.forwardRef<GridCanvasHandle, GridCanvasProps>(({
             return;
         }
 
+        // Polygon preview follows the cursor until the shape is finished
+        if (tool === 'polygon' && polyVertices.length > 0) {
+            setPreviewCells(polygonCells([...polyVertices, internal], false, shapeStyle, width, height));
+        }
+
         // Draw
         if (isDrawing) {
             const display = screenToDisplay(mouseX, mouseY);
             const internal = displayToInternal(display.x, display.y);
             
-            if (tool === 'rect' && startPosRef.current) {
-                const sx = startPosRef.current.x;
-                const sy = startPosRef.current.y;
-                setPreviewRect({
-                    x: Math.min(sx, internal.x),
-                    y: Math.min(sy, internal.y),
-                    w: Math.abs(internal.x - sx) + 1,
-                    h: Math.abs(internal.y - sy) + 1
-                });
+            if ((tool === 'rect' || tool === 'ellipse') && startPosRef.current) {
+                updateDragShape(startPosRef.current, internal, e.shiftKey);
+            } else if (tool === 'select' && selection) {
+                if (moveOffsetRef.current) {
+                    selection.moveTo(internal.x - moveOffsetRef.current.x, internal.y - moveOffsetRef.current.y);
+                } else if (startPosRef.current) {
+                    selection.select(dragBox(startPosRef.current, internal, false));
+                }
+            } else if (tool === 'line' && startPosRef.current) {
+                setPreviewCells(lineCells(startPosRef.current, internal, shapeStyle.strokeWidth, width, height));
             } else if ((tool === 'pencil' || tool === 'eraser') && lastPosRef.current) {
                 const points = bresenham(lastPosRef.current.x, lastPosRef.current.y, internal.x, internal.y);
-                modifyGrid(points, tool === 'pencil' ? CELL_OCCUPIED : CELL_FREE);
+                modifyGrid(stampBrush(points, brush, width, height), tool === 'pencil' ? paintValue : CELL_FREE);
                 lastPosRef.current = { x: internal.x, y: internal.y };
+            } else if (poseDrag) {
+                // Heading from the cell center to the cursor, once it has left the cell. Shift snaps to 45°.
+                const d = internalToDisplay(poseDrag.pose.x, poseDrag.pose.y);
+                const dx = (mouseX - transform.x) / transform.k - (d.x + 0.5);
+                const dy = (mouseY - transform.y) / transform.k - (d.y + 0.5);
+                if (poseDrag.aimed || Math.hypot(dx, dy) > 0.75) {
+                    const step = Math.PI / 4;
+                    const theta = e.shiftKey ? Math.round(Math.atan2(-dy, dx) / step) * step : Math.atan2(-dy, dx);
+                    setPoseDrag({ ...poseDrag, pose: { ...poseDrag.pose, theta }, aimed: true });
+                }
             }
         }
     };
@@ -527,25 +820,48 @@ export const GridCanvas = React.forwardRef<GridCanvasHandle, GridCanvasProps>(({
         setIsPanning(false);
         setIsDrawing(false);
 
-        if (tool === 'rect' && previewRect) {
-            const points = [];
-            for (let py = previewRect.y; py < previewRect.y + previewRect.h; py++) {
-                for (let px = previewRect.x; px < previewRect.x + previewRect.w; px++) {
-                    points.push({ x: px, y: py });
-                }
-            }
-            modifyGrid(points, CELL_OCCUPIED);
-            setPreviewRect(null);
+        setPreviewRect(null);
+
+        // Shapes are rasterized to cells only once, on release
+        if ((tool === 'rect' || tool === 'ellipse') && previewRect) {
+            modifyGrid(tool === 'ellipse' ? ellipseCells(previewRect, shapeStyle, width, height) : rectCells(previewRect, shapeStyle, width, height), paintValue);
+        }
+        if (tool === 'line' && previewCells) {
+            modifyGrid(previewCells, paintValue);
+            setPreviewCells(null);
+        }
+
+        if (poseDrag) {
+            commitPose(poseDrag);
+            setPoseDrag(null);
         }
 
         startPosRef.current = null;
         lastPosRef.current = null;
+        moveOffsetRef.current = null;
+    };
+
+    // A click on an existing point removes it; anything else places it, as one history entry
+    const commitPose = ({ target, pose, existing, aimed }: PoseDrag) => {
+        const remove = existing && !aimed;
+        if (target === 'start') {
+            if (remove) onClearStart?.();
+            else onSetStart?.(pose.x, pose.y, pose.theta);
+        } else if (target === 'goal') {
+            if (remove) onClearGoal?.();
+            else onSetGoal?.(pose.x, pose.y, pose.theta);
+        } else {
+            const waypoints: Waypoint[] = metadata?.waypoints ?? [];
+            if (remove) onSetWaypoints?.(waypoints.filter((_, i) => i !== target));
+            else if (target >= 0) onSetWaypoints?.(waypoints.map((w, i) => i === target ? { ...w, theta: pose.theta } : w));
+            else onSetWaypoints?.([...waypoints, { ...pose, name: nextWaypointName(waypoints) }]);
+        }
     };
 
     const modifyGrid = (points: { x: number, y: number }[], explicitValue?: number) => {
         const newData = new Int8Array(data);
         let changed = false;
-        const targetVal = explicitValue ?? (tool === 'eraser' ? CELL_FREE : CELL_OCCUPIED);
+        const targetVal = explicitValue ?? (tool === 'eraser' ? CELL_FREE : paintValue);
 
         points.forEach(p => {
             if (p.x >= 0 && p.x < width && p.y >= 0 && p.y < height) {
@@ -562,23 +878,34 @@ export const GridCanvas = React.forwardRef<GridCanvasHandle, GridCanvasProps>(({
         }
     };
 
-    // Bresenham
-    const bresenham = (x0: number, y0: number, x1: number, y1: number) => {
-        const points = [];
-        let dx = Math.abs(x1 - x0);
-        let dy = Math.abs(y1 - y0);
-        let sx = (x0 < x1) ? 1 : -1;
-        let sy = (y0 < y1) ? 1 : -1;
-        let err = dx - dy;
-
-        while (true) {
-            points.push({ x: x0, y: y0 });
-            if ((x0 === x1) && (y0 === y1)) break;
-            let e2 = 2 * err;
-            if (e2 > -dy) { err -= dy; x0 += sx; }
-            if (e2 < dx) { err += dx; y0 += sy; }
-        }
-        return points;
+    // Box from the drag start to the cursor, optionally forced to a square
+    const dragBox = (from: Cell, to: Cell, square: boolean): CellRect => {
+        let w = Math.abs(to.x - from.x) + 1;
+        let h = Math.abs(to.y - from.y) + 1;
+        if (square) w = h = Math.max(w, h);
+        return {
+            x: to.x < from.x ? from.x - w + 1 : from.x,
+            y: to.y < from.y ? from.y - h + 1 : from.y,
+            w,
+            h
+        };
+    };
+
+    // Shift makes the box a square (circle for the ellipse tool)
+    const updateDragShape = (from: Cell, to: Cell, square: boolean) => {
+        setPreviewRect(dragBox(from, to, square));
+    };
+
+    // Commits the polygon as one update. In outline mode the ring is only closed when the
+    // last vertex was placed on the first one, otherwise it stays an open polyline.
+    const finishPolygon = () => {
+        const vertices = polyVertices.filter((v, i) => i === 0 || v.x !== polyVertices[i - 1].x || v.y !== polyVertices[i - 1].y);
+        const last = vertices[vertices.length - 1];
+        const closed = vertices.length > 2 && last.x === vertices[0].x && last.y === vertices[0].y;
+        if (closed) vertices.pop();
+        modifyGrid(polygonCells(vertices, closed, shapeStyle, width, height), paintValue);
+        setPolyVertices([]);
+        setPreviewCells(null);
     };
 
 
@@ -690,6 +1017,7 @@ export const GridCanvas = React.forwardRef<GridCanvasHandle, GridCanvasProps>(({
             onMouseDown={handleMouseDown}
             onMouseMove={handleMouseMove}
             onMouseUp={handleMouseUp}
+            onMouseLeave={() => setHoverCoord(null)}
             onWheel={handleWheel}
             onContextMenu={(e) => e.preventDefault()}
         >
@@ -705,6 +1033,7 @@ export const GridCanvas = React.forwardRef<GridCanvasHandle, GridCanvasProps>(({
                     }}
                 >
                     {hoverCoord.x}, {hoverCoord.y}
+                    {previewRect && ` (${previewRect.w} x ${previewRect.h})`}
                 </div>
             )}
 
@@ -0,0 +1,161 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { X } from 'lucide-react';
+import { CELL_OCCUPIED, CELL_FREE, type GridState } from '../types';
+import { PNG_PALETTE } from '../utils/exportUtils';
+import { rasterToGrid, rasterGridSize, DEFAULT_IMAGE_IMPORT_OPTIONS, type ImageImportOptions, type RasterImage } from '../utils/imageImporter';
+import { MAX_GRID_SIZE } from '../utils/validators';
+
+interface ImageImportDialogProps {
+    image: RasterImage;
+    fileName: string;
+    resolution: number;
+    onConfirm: (grid: GridState) => void;
+    onCancel: () => void;
+}
+
+export function ImageImportDialog({ image, fileName, resolution, onConfirm, onCancel }: ImageImportDialogProps) {
+    const [options, setOptions] = useState<ImageImportOptions>({
+        ...DEFAULT_IMAGE_IMPORT_OPTIONS,
+        pixelSize: resolution,
+        resolution
+    });
+    const previewRef = useRef<HTMLCanvasElement>(null);
+
+    const set = (patch: Partial<ImageImportOptions>) => setOptions(prev => ({ ...prev, ...patch }));
+
+    const valid = options.pixelSize > 0 && options.resolution > 0 && options.occupiedThreshold < options.freeThreshold;
+    const size = valid ? rasterGridSize(image, options) : null;
+    const tooLarge = !!size && (size.width > MAX_GRID_SIZE || size.height > MAX_GRID_SIZE);
+    const grid = useMemo(() => valid && !tooLarge ? rasterToGrid(image, options) : null, [image, options, valid, tooLarge]);
+
+    // Draw the thresholded result with the same colors as the PNG export
+    useEffect(() => {
+        const canvas = previewRef.current;
+        if (!canvas || !grid) return;
+        canvas.width = grid.width;
+        canvas.height = grid.height;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) return;
+
+        const preview = ctx.createImageData(grid.width, grid.height);
+        const buf = new Uint32Array(preview.data.buffer);
+        for (let i = 0; i < grid.data.length; i++) {
+            const val = grid.data[i];
+            buf[i] = val === CELL_OCCUPIED ? PNG_PALETTE.occupied : val === CELL_FREE ? PNG_PALETTE.free : PNG_PALETTE.unknown;
+        }
+        ctx.putImageData(preview, 0, 0);
+    }, [grid]);
+
+    const handleConfirm = () => {
+        if (!grid) return;
+        onConfirm({
+            ...grid,
+            metadata: {
+                resolution: options.resolution,
+                origin: { x: 0, y: 0, theta: 0 }
+            }
+        });
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/40 flex items-center justify-center z-50">
+            <div className="bg-white rounded-md shadow-xl w-[720px] max-w-[95vw] max-h-[90vh] flex flex-col">
+                <div className="p-4 border-b border-gray-200 bg-gray-50 flex items-center justify-between">
+                    <h2 className="font-bold text-lg">Import Image <span className="font-normal text-gray-500 text-sm">{fileName}</span></h2>
+                    <button onClick={onCancel} className="text-gray-500 hover:text-black" title="Cancel">
+                        <X size={18} />
+                    </button>
+                </div>
+
+                <div className="flex-1 flex gap-4 p-4 overflow-hidden">
+                    <div className="flex-1 flex items-center justify-center bg-gray-100 border border-gray-200 rounded min-h-[300px]">
+                        <canvas
+                            ref={previewRef}
+                            className="max-w-full max-h-[60vh] object-contain"
+                            style={{ imageRendering: 'pixelated', width: '100%' }}
+                        />
+                    </div>
+
+                    <div className="w-56 space-y-4 text-sm">
+                        <div>
+                            <div className="flex justify-between mb-1">
+                                <span>Occupied ≤ {options.occupiedThreshold}</span>
+                            </div>
+                            <input
+                                type="range" min="0" max="255" value={options.occupiedThreshold}
+                                onChange={(e) => set({ occupiedThreshold: parseInt(e.target.value) })}
+                                className="w-full accent-black"
+                            />
+                        </div>
+                        <div>
+                            <div className="flex justify-between mb-1">
+                                <span>Free ≥ {options.freeThreshold}</span>
+                            </div>
+                            <input
+                                type="range" min="0" max="255" value={options.freeThreshold}
+                                onChange={(e) => set({ freeThreshold: parseInt(e.target.value) })}
+                                className="w-full accent-black"
+                            />
+                            <p className="text-xs text-gray-500 mt-1">Luminance in between becomes unknown.</p>
+                        </div>
+
+                        <label className="flex items-center gap-2 cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={options.invert}
+                                onChange={(e) => set({ invert: e.target.checked })}
+                                className="rounded text-black focus:ring-black"
+                            />
+                            <span>Invert</span>
+                        </label>
+
+                        <div className="space-y-2 pt-2 border-t border-gray-100">
+                            <div>
+                                <label className="text-xs text-gray-500">Image Pixel Size (m/px)</label>
+                                <input
+                                    type="number" step="0.01" min="0" value={options.pixelSize}
+                                    onChange={(e) => set({ pixelSize: parseFloat(e.target.value) })}
+                                    className="w-full border border-gray-300 rounded px-2 py-1 text-sm"
+                                />
+                            </div>
+                            <div>
+                                <label className="text-xs text-gray-500">Grid Resolution (m/cell)</label>
+                                <input
+                                    type="number" step="0.01" min="0" value={options.resolution}
+                                    onChange={(e) => set({ resolution: parseFloat(e.target.value) })}
+                                    className="w-full border border-gray-300 rounded px-2 py-1 text-sm"
+                                />
+                            </div>
+                        </div>
+
+                        <div className="text-xs font-mono text-gray-600">
+                            {image.width} x {image.height} px → {size ? `${size.width} x ${size.height}` : '—'} cells
+                        </div>
+                        {tooLarge && (
+                            <p className="text-xs text-red-500">The grid may be at most {MAX_GRID_SIZE} cells per side. Increase the grid resolution or decrease the pixel size.</p>
+                        )}
+                        {!valid && (
+                            <p className="text-xs text-red-500">Occupied threshold must be below the free threshold and sizes must be positive.</p>
+                        )}
+                    </div>
+                </div>
+
+                <div className="p-4 border-t border-gray-200 bg-gray-50 flex justify-end gap-2">
+                    <button
+                        onClick={onCancel}
+                        className="px-4 py-2 bg-gray-50 hover:bg-gray-100 border border-gray-200 rounded-md text-sm font-medium text-gray-700"
+                    >
+                        Cancel
+                    </button>
+                    <button
+                        onClick={handleConfirm}
+                        disabled={!grid}
+                        className="px-4 py-2 bg-black hover:bg-gray-800 text-white rounded-md text-sm font-medium transition-colors disabled:opacity-30"
+                    >
+                        Import
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
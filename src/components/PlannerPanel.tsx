@@ -0,0 +1,106 @@
+import clsx from 'clsx';
+import { PREVIEW_PATH_COLOR, type PlanResult, type PlannerAlgorithm, type PlannerOptions } from '../utils/planner';
+
+interface PlannerPanelProps {
+    options: PlannerOptions;
+    onChange: (options: PlannerOptions) => void;
+    result: PlanResult | null;
+    resolution: number;
+    robotRadius?: number; // Meters, from the footprint
+    hasEndpoints: boolean;
+}
+
+const ALGORITHMS: { id: PlannerAlgorithm, label: string }[] = [
+    { id: 'astar', label: 'A*' },
+    { id: 'dijkstra', label: 'Dijkstra' }
+];
+
+// Two-way toggle in the panel's button style
+function Toggle<T>({ value, options, onChange }: { value: T, options: { id: T, label: string }[], onChange: (value: T) => void }) {
+    return (
+        <div className="flex gap-1">
+            {options.map(o => (
+                <button
+                    key={o.label}
+                    onClick={() => onChange(o.id)}
+                    className={clsx(
+                        "flex-1 px-2 py-0.5 rounded border text-xs",
+                        value === o.id ? "border-black bg-black text-white" : "border-gray-300 bg-gray-50 hover:bg-gray-100"
+                    )}
+                >
+                    {o.label}
+                </button>
+            ))}
+        </div>
+    );
+}
+
+/**
+ * Settings and result of the path preview between start and goal. The path is replanned
+ * after every edit while the panel is open.
+ */
+export function PlannerPanel({ options, onChange, result, resolution, robotRadius, hasEndpoints }: PlannerPanelProps) {
+    const set = <K extends keyof PlannerOptions>(key: K, value: PlannerOptions[K]) => onChange({ ...options, [key]: value });
+    const inflate = options.inflationRadius > 0;
+
+    return (
+        <div className="bg-white border border-gray-200 shadow-md p-2 rounded-md text-sm w-64 space-y-2">
+            <label className="flex items-center gap-1.5 text-xs font-bold text-gray-500 uppercase">
+                <span className="w-3 h-1 rounded-full" style={{ backgroundColor: PREVIEW_PATH_COLOR }} />
+                Path Preview
+            </label>
+            <Toggle value={options.algorithm} options={ALGORITHMS} onChange={(v) => set('algorithm', v)} />
+            <Toggle
+                value={options.connectivity}
+                options={[{ id: 4 as const, label: '4-connected' }, { id: 8 as const, label: '8-connected' }]}
+                onChange={(v) => set('connectivity', v)}
+            />
+            <Toggle
+                value={options.unknownIsFree}
+                options={[{ id: false, label: 'Unknown blocked' }, { id: true, label: 'Unknown free' }]}
+                onChange={(v) => set('unknownIsFree', v)}
+            />
+            <div className="flex items-center gap-2 text-xs">
+                <label className="flex items-center gap-1.5 cursor-pointer">
+                    <input
+                        type="checkbox"
+                        checked={inflate}
+                        onChange={(e) => set('inflationRadius', e.target.checked ? (robotRadius ?? 0.2) : 0)}
+                        className="w-3.5 h-3.5 rounded border-gray-300 text-black focus:ring-1 focus:ring-black"
+                    />
+                    <span className="text-gray-700">Inflate (m):</span>
+                </label>
+                <input
+                    key={options.inflationRadius}
+                    type="number"
+                    min={0}
+                    step={0.05}
+                    disabled={!inflate}
+                    defaultValue={options.inflationRadius}
+                    onBlur={(e) => {
+                        const radius = parseFloat(e.target.value);
+                        if (radius >= 0) set('inflationRadius', radius);
+                        else e.target.value = String(options.inflationRadius);
+                    }}
+                    onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                    className="w-16 border border-gray-300 rounded px-1 py-0.5 text-center disabled:opacity-40"
+                    title={robotRadius !== undefined ? `Robot footprint radius: ${robotRadius.toFixed(2)} m` : 'Robot radius'}
+                />
+            </div>
+
+            <div className="text-xs border-t border-gray-100 pt-2 tabular-nums">
+                {!hasEndpoints ? (
+                    <span className="text-gray-500">Set a start and goal to plan a path.</span>
+                ) : !result ? (
+                    <span className="text-gray-500">Planning…</span>
+                ) : result.path ? (
+                    <span className="text-gray-700">
+                        Length <b>{result.length.toFixed(1)}</b> cells ({(result.length * resolution).toFixed(2)} m), {result.expanded} expanded
+                    </span>
+                ) : (
+                    <span className="text-red-600 font-medium">{result.error ?? 'No path'}</span>
+                )}
+            </div>
+        </div>
+    );
+}
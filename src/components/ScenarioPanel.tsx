@@ -0,0 +1,97 @@
+import { ChevronUp, ChevronDown, X, Plus, Upload, Download } from 'lucide-react';
+import clsx from 'clsx';
+import type { Scenario } from '../types';
+
+interface ScenarioPanelProps {
+    scenarios: Scenario[];
+    active?: number;
+    canAdd: boolean; // Both start and goal are set
+    onAdd: () => void;
+    onActivate: (index: number) => void;
+    onRemove: (index: number) => void;
+    onMove: (from: number, to: number) => void;
+    onLabel: (index: number, label: string) => void;
+    onImport: (file: File) => void;
+    onExport: (format: 'json' | 'csv') => void;
+}
+
+/**
+ * Start/goal pairs for benchmarking a map. Clicking a pair makes it the start and goal
+ * shown on the canvas; moving those points then edits the pair.
+ */
+export function ScenarioPanel({ scenarios, active, canAdd, onAdd, onActivate, onRemove, onMove, onLabel, onImport, onExport }: ScenarioPanelProps) {
+    return (
+        <div className="bg-white border border-gray-200 shadow-md p-2 rounded-md text-sm w-64">
+            <div className="flex items-center justify-between mb-1">
+                <label className="text-xs font-bold text-gray-500 uppercase">Scenarios ({scenarios.length})</label>
+                <div className="flex items-center gap-1.5">
+                    <button
+                        onClick={onAdd}
+                        disabled={!canAdd}
+                        className="text-gray-500 hover:text-black disabled:opacity-30"
+                        title={canAdd ? 'Add the current start/goal as a scenario' : 'Set a start and goal first'}
+                    >
+                        <Plus size={14} />
+                    </button>
+                    <label className="text-gray-500 hover:text-black cursor-pointer" title="Import scenarios (JSON, CSV or MovingAI .scen)">
+                        <Upload size={14} />
+                        <input
+                            type="file"
+                            accept=".json,.csv,.scen"
+                            className="hidden"
+                            onChange={(e) => {
+                                const file = e.target.files?.[0];
+                                if (file) onImport(file);
+                                e.target.value = '';
+                            }}
+                        />
+                    </label>
+                    <button onClick={() => onExport('json')} disabled={scenarios.length === 0} className="flex items-center text-gray-500 hover:text-black disabled:opacity-30" title="Export as JSON">
+                        <Download size={14} /><span className="text-[10px] font-bold">JSON</span>
+                    </button>
+                    <button onClick={() => onExport('csv')} disabled={scenarios.length === 0} className="flex items-center text-gray-500 hover:text-black disabled:opacity-30" title="Export as CSV">
+                        <Download size={14} /><span className="text-[10px] font-bold">CSV</span>
+                    </button>
+                </div>
+            </div>
+            {scenarios.length === 0 && (
+                <p className="text-xs text-gray-500">Place a start and goal, then add them as the first scenario.</p>
+            )}
+            <div className="space-y-0.5 max-h-72 overflow-y-auto">
+                {scenarios.map((s, i) => (
+                    <div
+                        key={`${i}-${s.label ?? ''}`}
+                        onClick={() => onActivate(i)}
+                        className={clsx(
+                            "flex items-center gap-1 px-1 py-0.5 rounded cursor-pointer",
+                            i === active ? "bg-amber-100 ring-1 ring-amber-400" : "hover:bg-gray-50"
+                        )}
+                    >
+                        <span className="w-6 text-right font-mono text-xs text-gray-500 tabular-nums">{i + 1}</span>
+                        <input
+                            type="text"
+                            defaultValue={s.label ?? ''}
+                            placeholder="Label"
+                            onClick={(e) => e.stopPropagation()}
+                            onBlur={(e) => { if (e.target.value.trim() !== (s.label ?? '')) onLabel(i, e.target.value); }}
+                            onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                            className="w-16 min-w-0 border border-gray-300 rounded px-1 py-0.5 text-xs bg-white"
+                        />
+                        <span className="flex-1 font-mono text-[10px] text-gray-600 tabular-nums truncate" title="Start → goal (cells from the top-left)">
+                            {s.start.x},{s.start.y} → {s.goal.x},{s.goal.y}
+                        </span>
+                        <button onClick={(e) => { e.stopPropagation(); onMove(i, i - 1); }} disabled={i === 0} className="text-gray-400 hover:text-black disabled:opacity-30" title="Move up">
+                            <ChevronUp size={12} />
+                        </button>
+                        <button onClick={(e) => { e.stopPropagation(); onMove(i, i + 1); }} disabled={i === scenarios.length - 1} className="text-gray-400 hover:text-black disabled:opacity-30" title="Move down">
+                            <ChevronDown size={12} />
+                        </button>
+                        <button onClick={(e) => { e.stopPropagation(); onRemove(i); }} className="text-gray-400 hover:text-black" title="Delete">
+                            <X size={12} />
+                        </button>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,102 @@
+import { useEffect, useState } from 'react';
+import { X } from 'lucide-react';
+import clsx from 'clsx';
+import { ACTIONS, eventToCombo, type ActionId, type Keybindings } from '../utils/keybindings';
+
+interface ShortcutHelpProps {
+    bindings: Keybindings;
+    onRebind: (action: ActionId, combo: string) => void;
+    onReset: () => void;
+    onClose: () => void;
+}
+
+const GROUPS = ['Tools', 'Edit', 'Selection', 'View', 'File'] as const;
+
+/**
+ * Lists every shortcut and lets the user remap them. While waiting for a new combination,
+ * key presses are captured here instead of triggering their actions.
+ */
+export function ShortcutHelp({ bindings, onRebind, onReset, onClose }: ShortcutHelpProps) {
+    const [capturing, setCapturing] = useState<ActionId | null>(null);
+
+    useEffect(() => {
+        const onKeyDown = (e: KeyboardEvent) => {
+            if (!capturing && e.key !== 'Escape') return;
+            // Capture phase on window: runs before (and stops) the global shortcut listener
+            e.preventDefault();
+            e.stopPropagation();
+            if (!capturing) {
+                onClose();
+                return;
+            }
+            if (e.key === 'Escape') {
+                setCapturing(null);
+                return;
+            }
+            const combo = eventToCombo(e);
+            if (!combo) return;
+            onRebind(capturing, combo);
+            setCapturing(null);
+        };
+        window.addEventListener('keydown', onKeyDown, true);
+        return () => window.removeEventListener('keydown', onKeyDown, true);
+    }, [capturing, onRebind, onClose]);
+
+    return (
+        <div className="fixed inset-0 bg-black/40 flex items-center justify-center z-50" onClick={onClose}>
+            <div className="bg-white rounded-md shadow-xl w-[560px] max-w-[95vw] max-h-[90vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+                <div className="p-4 border-b border-gray-200 bg-gray-50 flex items-center justify-between">
+                    <h2 className="font-bold text-lg">Keyboard Shortcuts</h2>
+                    <button onClick={onClose} className="text-gray-500 hover:text-black" title="Close (Escape)">
+                        <X size={18} />
+                    </button>
+                </div>
+
+                <div className="flex-1 overflow-y-auto p-4 grid grid-cols-2 gap-x-6 gap-y-4 text-sm">
+                    {GROUPS.map(group => (
+                        <div key={group}>
+                            <label className="text-xs font-bold text-gray-500 uppercase">{group}</label>
+                            <div className="mt-1 space-y-1">
+                                {ACTIONS.filter(a => a.group === group).map(a => (
+                                    <div key={a.id} className="flex items-center justify-between gap-2">
+                                        <span className="text-gray-700">{a.label}</span>
+                                        <div className="flex items-center gap-1">
+                                            <button
+                                                onClick={() => setCapturing(capturing === a.id ? null : a.id)}
+                                                className={clsx(
+                                                    "min-w-[4rem] px-2 py-0.5 rounded border font-mono text-xs",
+                                                    capturing === a.id ? "border-blue-500 text-blue-600" : "border-gray-300 bg-gray-50 hover:bg-gray-100"
+                                                )}
+                                                title="Click, then press the new shortcut"
+                                            >
+                                                {capturing === a.id ? 'Press keys…' : bindings[a.id] || '—'}
+                                            </button>
+                                            <button
+                                                onClick={() => onRebind(a.id, '')}
+                                                disabled={!bindings[a.id]}
+                                                className="text-gray-400 hover:text-black disabled:opacity-0"
+                                                title="Remove shortcut"
+                                            >
+                                                <X size={12} />
+                                            </button>
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+
+                <div className="p-4 border-t border-gray-200 bg-gray-50 flex justify-between items-center">
+                    <span className="text-xs text-gray-500">Shortcuts are ignored while typing in a field.</span>
+                    <button
+                        onClick={onReset}
+                        className="px-4 py-2 bg-gray-50 hover:bg-gray-100 border border-gray-200 rounded-md text-sm font-medium text-gray-700"
+                    >
+                        Reset to Defaults
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
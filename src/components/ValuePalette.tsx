@@ -0,0 +1,58 @@
+import clsx from 'clsx';
+import { CELL_FREE, CELL_OCCUPIED, CELL_UNKNOWN } from '../types';
+import { occupancyGray } from '../utils/exportUtils';
+
+interface ValuePaletteProps {
+    value: number;
+    onChange: (value: number) => void;
+}
+
+const SWATCHES = [
+    { label: 'Free', value: CELL_FREE, color: '#ffffff' },
+    { label: 'Occupied', value: CELL_OCCUPIED, color: '#000000' },
+    { label: 'Unknown', value: CELL_UNKNOWN, color: '#d1d5db' }
+];
+
+/**
+ * Picks the cell value written by the drawing tools: one of the three standard
+ * values or any occupancy probability between 0 and 100.
+ */
+export function ValuePalette({ value, onChange }: ValuePaletteProps) {
+    const isUnknown = value === CELL_UNKNOWN;
+    const gray = isUnknown ? null : occupancyGray(value);
+
+    return (
+        <div className="bg-white border border-gray-200 shadow-md p-2 rounded-md text-sm space-y-2 w-44">
+            <div className="flex gap-1">
+                {SWATCHES.map(s => (
+                    <button
+                        key={s.label}
+                        onClick={() => onChange(s.value)}
+                        title={`${s.label} (${s.value})`}
+                        className={clsx(
+                            "flex-1 h-7 rounded border",
+                            value === s.value ? "ring-2 ring-blue-500 border-transparent" : "border-gray-300"
+                        )}
+                        style={{ backgroundColor: s.color }}
+                    />
+                ))}
+            </div>
+            <div className="flex items-center gap-2">
+                <input
+                    type="range" min="0" max="100" step="1"
+                    value={isUnknown ? 50 : value}
+                    onChange={(e) => onChange(parseInt(e.target.value))}
+                    className={clsx("flex-1 accent-black", isUnknown && "opacity-40")}
+                    title="Occupancy probability"
+                />
+                <span
+                    className="w-4 h-4 rounded border border-gray-300 shrink-0"
+                    style={{ backgroundColor: gray === null ? '#d1d5db' : `rgb(${gray}, ${gray}, ${gray})` }}
+                />
+                <span className="w-8 text-right font-mono text-xs text-gray-600 tabular-nums">
+                    {isUnknown ? '?' : `${value}%`}
+                </span>
+            </div>
+        </div>
+    );
+}
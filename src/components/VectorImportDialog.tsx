@@ -0,0 +1,154 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { X } from 'lucide-react';
+import { CELL_OCCUPIED, type GridState } from '../types';
+import { PNG_PALETTE } from '../utils/exportUtils';
+import { rasterizeDrawing, DEFAULT_VECTOR_IMPORT_OPTIONS, type Drawing, type VectorImportOptions } from '../utils/vectorImporter';
+
+interface VectorImportDialogProps {
+    drawing: Drawing;
+    fileName: string;
+    resolution: number;
+    onConfirm: (grid: GridState) => void;
+    onCancel: () => void;
+}
+
+const UNIT_PRESETS = [
+    { label: 'Millimeters', scale: 0.001 },
+    { label: 'Centimeters', scale: 0.01 },
+    { label: 'Meters', scale: 1 },
+    { label: 'Inches', scale: 0.0254 },
+    { label: 'Feet', scale: 0.3048 }
+];
+
+export function VectorImportDialog({ drawing, fileName, resolution, onConfirm, onCancel }: VectorImportDialogProps) {
+    const [options, setOptions] = useState<VectorImportOptions>({
+        ...DEFAULT_VECTOR_IMPORT_OPTIONS,
+        scale: drawing.unitScale ?? DEFAULT_VECTOR_IMPORT_OPTIONS.scale,
+        resolution
+    });
+    const previewRef = useRef<HTMLCanvasElement>(null);
+
+    const set = (patch: Partial<VectorImportOptions>) => setOptions(prev => ({ ...prev, ...patch }));
+
+    const valid = options.scale > 0 && options.wallThickness >= 0 && options.resolution > 0;
+    const result = useMemo(() => {
+        if (!valid) return { grid: null, error: 'Scale and resolution must be positive.' };
+        try {
+            return { grid: rasterizeDrawing(drawing, options), error: null };
+        } catch (err) {
+            return { grid: null, error: err instanceof Error ? err.message : 'Rasterization failed' };
+        }
+    }, [drawing, options, valid]);
+    const grid = result.grid;
+
+    // Draw the rasterized result with the same colors as the PNG export
+    useEffect(() => {
+        const canvas = previewRef.current;
+        if (!canvas || !grid) return;
+        canvas.width = grid.width;
+        canvas.height = grid.height;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) return;
+
+        const preview = ctx.createImageData(grid.width, grid.height);
+        const buf = new Uint32Array(preview.data.buffer);
+        for (let i = 0; i < grid.data.length; i++) {
+            buf[i] = grid.data[i] === CELL_OCCUPIED ? PNG_PALETTE.occupied : PNG_PALETTE.free;
+        }
+        ctx.putImageData(preview, 0, 0);
+    }, [grid]);
+
+    return (
+        <div className="fixed inset-0 bg-black/40 flex items-center justify-center z-50">
+            <div className="bg-white rounded-md shadow-xl w-[720px] max-w-[95vw] max-h-[90vh] flex flex-col">
+                <div className="p-4 border-b border-gray-200 bg-gray-50 flex items-center justify-between">
+                    <h2 className="font-bold text-lg">Import Floor Plan <span className="font-normal text-gray-500 text-sm">{fileName}</span></h2>
+                    <button onClick={onCancel} className="text-gray-500 hover:text-black" title="Cancel">
+                        <X size={18} />
+                    </button>
+                </div>
+
+                <div className="flex-1 flex gap-4 p-4 overflow-hidden">
+                    <div className="flex-1 flex items-center justify-center bg-gray-100 border border-gray-200 rounded min-h-[300px]">
+                        <canvas
+                            ref={previewRef}
+                            className="max-w-full max-h-[60vh] object-contain"
+                            style={{ imageRendering: 'pixelated', width: '100%' }}
+                        />
+                    </div>
+
+                    <div className="w-56 space-y-4 text-sm">
+                        <div>
+                            <label className="text-xs text-gray-500">Drawing Units</label>
+                            <select
+                                value={UNIT_PRESETS.find(u => u.scale === options.scale)?.scale ?? ''}
+                                onChange={(e) => e.target.value && set({ scale: parseFloat(e.target.value) })}
+                                className="w-full border border-gray-300 rounded px-2 py-1 text-sm"
+                            >
+                                {UNIT_PRESETS.map(u => (
+                                    <option key={u.label} value={u.scale}>{u.label}</option>
+                                ))}
+                                <option value="">Custom</option>
+                            </select>
+                        </div>
+                        <div>
+                            <label className="text-xs text-gray-500">Scale (m/unit)</label>
+                            <input
+                                type="number" step="0.001" min="0" value={options.scale}
+                                onChange={(e) => set({ scale: parseFloat(e.target.value) })}
+                                className="w-full border border-gray-300 rounded px-2 py-1 text-sm"
+                            />
+                        </div>
+
+                        <div className="space-y-2 pt-2 border-t border-gray-100">
+                            <div>
+                                <label className="text-xs text-gray-500">Wall Thickness (m)</label>
+                                <input
+                                    type="number" step="0.01" min="0" value={options.wallThickness}
+                                    onChange={(e) => set({ wallThickness: parseFloat(e.target.value) })}
+                                    className="w-full border border-gray-300 rounded px-2 py-1 text-sm"
+                                />
+                            </div>
+                            <div>
+                                <label className="text-xs text-gray-500">Grid Resolution (m/cell)</label>
+                                <input
+                                    type="number" step="0.01" min="0" value={options.resolution}
+                                    onChange={(e) => set({ resolution: parseFloat(e.target.value) })}
+                                    className="w-full border border-gray-300 rounded px-2 py-1 text-sm"
+                                />
+                            </div>
+                        </div>
+
+                        <div className="text-xs font-mono text-gray-600">
+                            {drawing.segments.length} segments → {grid ? `${grid.width} x ${grid.height}` : '—'} cells
+                        </div>
+                        {grid && (
+                            <div className="text-xs font-mono text-gray-600">
+                                Origin: ({grid.metadata.origin.x.toFixed(2)}, {grid.metadata.origin.y.toFixed(2)}) m
+                            </div>
+                        )}
+                        {result.error && (
+                            <p className="text-xs text-red-500">{result.error}</p>
+                        )}
+                    </div>
+                </div>
+
+                <div className="p-4 border-t border-gray-200 bg-gray-50 flex justify-end gap-2">
+                    <button
+                        onClick={onCancel}
+                        className="px-4 py-2 bg-gray-50 hover:bg-gray-100 border border-gray-200 rounded-md text-sm font-medium text-gray-700"
+                    >
+                        Cancel
+                    </button>
+                    <button
+                        onClick={() => grid && onConfirm(grid)}
+                        disabled={!grid}
+                        className="px-4 py-2 bg-black hover:bg-gray-800 text-white rounded-md text-sm font-medium transition-colors disabled:opacity-30"
+                    >
+                        Import
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,76 @@
+import { ChevronUp, ChevronDown, X, Trash2 } from 'lucide-react';
+import type { Waypoint } from '../types';
+
+interface WaypointListProps {
+    waypoints: Waypoint[];
+    onChange: (waypoints: Waypoint[]) => void;
+}
+
+const degrees = (theta: number) => `${Math.round(theta * 180 / Math.PI)}°`;
+
+/**
+ * The ordered waypoint tour: rename, reorder and remove stops. Points are placed and aimed
+ * on the canvas with the waypoint tool.
+ */
+export function WaypointList({ waypoints, onChange }: WaypointListProps) {
+    const move = (from: number, to: number) => {
+        if (to < 0 || to >= waypoints.length) return;
+        const next = waypoints.slice();
+        const [moved] = next.splice(from, 1);
+        next.splice(to, 0, moved);
+        onChange(next);
+    };
+
+    // Names are committed on blur or Enter so typing is a single undo step
+    const rename = (index: number, name: string) => {
+        const trimmed = name.trim();
+        if (!trimmed || trimmed === waypoints[index].name) return;
+        onChange(waypoints.map((w, i) => i === index ? { ...w, name: trimmed } : w));
+    };
+
+    return (
+        <div className="bg-white border border-gray-200 shadow-md p-2 rounded-md text-sm w-44">
+            <div className="flex items-center justify-between mb-1">
+                <label className="text-xs font-bold text-gray-500 uppercase">Waypoints</label>
+                <button
+                    onClick={() => onChange([])}
+                    disabled={waypoints.length === 0}
+                    className="text-gray-400 hover:text-black disabled:opacity-30"
+                    title="Remove all waypoints"
+                >
+                    <Trash2 size={12} />
+                </button>
+            </div>
+            {waypoints.length === 0 && (
+                <p className="text-xs text-gray-500">Click the map to add a waypoint, drag to set its heading.</p>
+            )}
+            <div className="space-y-1 max-h-64 overflow-y-auto">
+                {waypoints.map((w, i) => (
+                    <div key={`${i}-${w.name}`} className="flex items-center gap-1">
+                        <span className="w-4 text-right font-mono text-xs text-gray-500 tabular-nums">{i + 1}</span>
+                        <input
+                            type="text"
+                            defaultValue={w.name}
+                            onBlur={(e) => rename(i, e.target.value)}
+                            onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                            className="flex-1 min-w-0 border border-gray-300 rounded px-1 py-0.5 text-xs"
+                            title={`Cell (${w.x}, ${w.y})`}
+                        />
+                        <span className="w-8 text-right font-mono text-xs text-gray-500 tabular-nums" title="Heading">
+                            {w.theta !== undefined ? degrees(w.theta) : '—'}
+                        </span>
+                        <button onClick={() => move(i, i - 1)} disabled={i === 0} className="text-gray-400 hover:text-black disabled:opacity-30" title="Move up">
+                            <ChevronUp size={12} />
+                        </button>
+                        <button onClick={() => move(i, i + 1)} disabled={i === waypoints.length - 1} className="text-gray-400 hover:text-black disabled:opacity-30" title="Move down">
+                            <ChevronDown size={12} />
+                        </button>
+                        <button onClick={() => onChange(waypoints.filter((_, j) => j !== i))} className="text-gray-400 hover:text-black" title="Remove">
+                            <X size={12} />
+                        </button>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+}
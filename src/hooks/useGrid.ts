@@ -3,8 +3,10 @@ import {
     CELL_FREE,
     type GridData,
     type GridMetadata,
-    type GridState
+    type GridState,
+    type Waypoint
 } from '../types';
+import { syncActiveScenario } from '../utils/scenarioUtils';
 
 const MAX_HISTORY = 20;
 
@@ -94,14 +96,14 @@ export function useGrid({ initialWidth, initialHeight, initialResolution }: UseG
         updateGrid(newData, width, height);
     }, [width, height, updateGrid]);
 
-    const setStart = useCallback((x: number, y: number) => {
-        const newMeta = { ...metadata, start: { x, y } };
+    const setStart = useCallback((x: number, y: number, theta?: number) => {
+        const newMeta = syncActiveScenario({ ...metadata, start: { x, y, theta } });
         setMetadata(newMeta);
         saveToHistory({ width, height, data: gridData, metadata: newMeta });
     }, [width, height, gridData, metadata, saveToHistory]);
 
-    const setGoal = useCallback((x: number, y: number) => {
-        const newMeta = { ...metadata, goal: { x, y } };
+    const setGoal = useCallback((x: number, y: number, theta?: number) => {
+        const newMeta = syncActiveScenario({ ...metadata, goal: { x, y, theta } });
         setMetadata(newMeta);
         saveToHistory({ width, height, data: gridData, metadata: newMeta });
     }, [width, height, gridData, metadata, saveToHistory]);
@@ -109,6 +111,7 @@ export function useGrid({ initialWidth, initialHeight, initialResolution }: UseG
     const clearStart = useCallback(() => {
         const newMeta = { ...metadata };
         delete newMeta.start;
+        delete newMeta.activeScenario; // Half a pair no longer shows a scenario
         setMetadata(newMeta);
         saveToHistory({ width, height, data: gridData, metadata: newMeta });
     }, [width, height, gridData, metadata, saveToHistory]);
@@ -116,6 +119,15 @@ export function useGrid({ initialWidth, initialHeight, initialResolution }: UseG
     const clearGoal = useCallback(() => {
         const newMeta = { ...metadata };
         delete newMeta.goal;
+        delete newMeta.activeScenario;
+        setMetadata(newMeta);
+        saveToHistory({ width, height, data: gridData, metadata: newMeta });
+    }, [width, height, gridData, metadata, saveToHistory]);
+
+    // An empty list removes the waypoints from the metadata
+    const setWaypoints = useCallback((waypoints: Waypoint[]) => {
+        const newMeta: GridMetadata = { ...metadata, waypoints };
+        if (waypoints.length === 0) delete newMeta.waypoints;
         setMetadata(newMeta);
         saveToHistory({ width, height, data: gridData, metadata: newMeta });
     }, [width, height, gridData, metadata, saveToHistory]);
@@ -145,6 +157,34 @@ export function useGrid({ initialWidth, initialHeight, initialResolution }: UseG
         saveToHistory({ width, height, data: gridData, metadata: newMetadata });
     }, [width, height, gridData, saveToHistory]);
 
+    // Replace grid and metadata together (e.g. on import) as a single history entry
+    const loadGrid = useCallback((state: GridState) => {
+        setGridData(state.data);
+        setWidth(state.width);
+        setHeight(state.height);
+        setMetadata(state.metadata);
+        saveToHistory(state);
+    }, [saveToHistory]);
+
+    // Snapshot of the undo stack, e.g. for saving a project
+    const getHistory = useCallback(() => ({
+        entries: historyRef.current.slice(),
+        index: historyIndexRef.current
+    }), []);
+
+    // Restore a saved session: the current state is history[index], undo/redo continue from there
+    const restoreSession = useCallback((entries: GridState[], index: number) => {
+        const state = entries[index];
+        const first = Math.max(0, Math.min(index, entries.length - MAX_HISTORY));
+        historyRef.current = entries.slice(first, first + MAX_HISTORY);
+        historyIndexRef.current = index - first;
+        setGridData(state.data);
+        setWidth(state.width);
+        setHeight(state.height);
+        setMetadata(state.metadata);
+        setVersion(v => v + 1);
+    }, []);
+
     return {
         width,
         height,
@@ -152,6 +192,9 @@ export function useGrid({ initialWidth, initialHeight, initialResolution }: UseG
         metadata,
         updateGrid,
         updateMetadata,
+        loadGrid,
+        getHistory,
+        restoreSession,
         undo,
         redo,
         resize: resizeGrid,
@@ -160,6 +203,7 @@ export function useGrid({ initialWidth, initialHeight, initialResolution }: UseG
         setGoal,
         clearStart,
         clearGoal,
+        setWaypoints,
         canUndo: historyIndexRef.current > 0,
         canRedo: historyIndexRef.current < historyRef.current.length - 1
     };
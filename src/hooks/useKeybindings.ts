@@ -0,0 +1,59 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import {
+    DEFAULT_KEYBINDINGS,
+    eventToCombo,
+    findAction,
+    isTypingTarget,
+    loadKeybindings,
+    rebind,
+    saveKeybindings,
+    type ActionId,
+    type Keybindings
+} from '../utils/keybindings';
+
+export type ActionHandlers = Partial<Record<ActionId, () => void>>;
+
+/**
+ * Central keyboard shortcut handling. Runs the handler bound to the pressed combination,
+ * except while typing in a form field. Actions without a handler let the key through.
+ * Bindings can be remapped and are persisted in localStorage.
+ */
+export function useKeybindings(handlers: ActionHandlers) {
+    const [bindings, setBindings] = useState<Keybindings>(() => loadKeybindings());
+
+    // Handlers change every render; the listener always reads the latest ones
+    const handlersRef = useRef(handlers);
+    handlersRef.current = handlers;
+    const bindingsRef = useRef(bindings);
+    bindingsRef.current = bindings;
+
+    useEffect(() => {
+        const onKeyDown = (e: KeyboardEvent) => {
+            if (isTypingTarget(e.target)) return;
+            const combo = eventToCombo(e);
+            if (!combo) return;
+            const action = findAction(bindingsRef.current, combo);
+            const handler = action && handlersRef.current[action];
+            if (!handler) return;
+            e.preventDefault();
+            handler();
+        };
+        window.addEventListener('keydown', onKeyDown);
+        return () => window.removeEventListener('keydown', onKeyDown);
+    }, []);
+
+    const setBinding = useCallback((action: ActionId, combo: string) => {
+        setBindings(prev => {
+            const next = rebind(prev, action, combo);
+            saveKeybindings(next);
+            return next;
+        });
+    }, []);
+
+    const resetBindings = useCallback(() => {
+        saveKeybindings(DEFAULT_KEYBINDINGS);
+        setBindings(DEFAULT_KEYBINDINGS);
+    }, []);
+
+    return { bindings, setBinding, resetBindings };
+}
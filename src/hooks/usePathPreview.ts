@@ -0,0 +1,38 @@
+import { useEffect, useState } from 'react';
+import type { GridData, Pose } from '../types';
+import { planPath, type PlanResult, type PlannerOptions } from '../utils/planner';
+
+// Replanning waits this long after the last change, so a pencil stroke does not plan per cell
+const PLAN_DELAY_MS = 150;
+
+interface UsePathPreviewOptions {
+    enabled: boolean;
+    data: GridData;
+    width: number;
+    height: number;
+    start?: Pose;
+    goal?: Pose;
+    resolution: number;
+    options: PlannerOptions;
+}
+
+/**
+ * Path between start and goal, replanned whenever the grid, the points or the options change.
+ * Null while disabled or without both points.
+ */
+export function usePathPreview({ enabled, data, width, height, start, goal, resolution, options }: UsePathPreviewOptions): PlanResult | null {
+    const [result, setResult] = useState<PlanResult | null>(null);
+
+    useEffect(() => {
+        if (!enabled || !start || !goal) {
+            setResult(null);
+            return;
+        }
+        const timer = setTimeout(() => {
+            setResult(planPath(data, width, height, start, goal, options, resolution));
+        }, PLAN_DELAY_MS);
+        return () => clearTimeout(timer);
+    }, [enabled, data, width, height, start, goal, resolution, options]);
+
+    return result;
+}
@@ -0,0 +1,183 @@
+import { useState, useCallback, useEffect } from 'react';
+import { CELL_FREE, type GridData } from '../types';
+import type { CellRect } from '../utils/drawingUtils';
+import {
+    extractRegion,
+    fillRegion,
+    flipRegion,
+    rotateRegion,
+    stampRegion,
+    type FlipAxis,
+    type GridRegion
+} from '../utils/selectionUtils';
+
+// Cells picked up from the grid (move, rotate, flip) or pasted, shown on top of the grid until committed
+export interface FloatingRegion {
+    region: GridRegion;
+    base: GridData | null; // Grid with the lifted cells cleared; null for pastes
+    origin: CellRect | null; // Where lifted cells came from, restored on cancel
+    source: GridData; // Grid the region floats over
+}
+
+// True if a lifted region sits at its origin with the cells it was lifted with
+const isUnchanged = ({ region, origin }: FloatingRegion, rect: CellRect, data: GridData, width: number) => {
+    if (!origin || rect.x !== origin.x || rect.y !== origin.y || region.width !== origin.w || region.height !== origin.h) return false;
+    for (let y = 0; y < region.height; y++) {
+        for (let x = 0; x < region.width; x++) {
+            if (region.data[y * region.width + x] !== data[(origin.y + y) * width + origin.x + x]) return false;
+        }
+    }
+    return true;
+};
+
+interface UseSelectionOptions {
+    data: GridData;
+    width: number;
+    height: number;
+    onUpdate: (data: Int8Array) => void;
+}
+
+/**
+ * Marquee selection state and the operations on it. Grid changes go through `onUpdate`,
+ * so every committed operation is a single history entry.
+ */
+export function useSelection({ data, width, height, onUpdate }: UseSelectionOptions) {
+    const [rect, setRect] = useState<CellRect | null>(null);
+    const [floatingState, setFloating] = useState<FloatingRegion | null>(null);
+
+    // A floating region belongs to the grid it was lifted from; undo, import or resize drop it
+    const floating = floatingState && floatingState.source === data ? floatingState : null;
+
+    useEffect(() => {
+        setRect(null);
+    }, [width, height]);
+
+    // Sets the marquee, clipped to the grid
+    const select = useCallback((next: CellRect | null) => {
+        if (!next) {
+            setRect(null);
+            return;
+        }
+        const x = Math.max(0, next.x);
+        const y = Math.max(0, next.y);
+        const w = Math.min(width, next.x + next.w) - x;
+        const h = Math.min(height, next.y + next.h) - y;
+        setRect(w > 0 && h > 0 ? { x, y, w, h } : null);
+    }, [width, height]);
+
+    // Picks the selected cells up so they can be moved or transformed
+    const lift = useCallback((): FloatingRegion | null => {
+        if (floating) return floating;
+        if (!rect) return null;
+        const lifted = {
+            region: extractRegion(data, width, height, rect),
+            base: fillRegion(data, width, height, rect, CELL_FREE),
+            origin: rect,
+            source: data
+        };
+        setFloating(lifted);
+        return lifted;
+    }, [floating, rect, data, width, height]);
+
+    const moveTo = useCallback((x: number, y: number) => {
+        setRect(prev => prev && { ...prev, x, y });
+    }, []);
+
+    // Writes the floating region into the grid at the marquee position and returns the new grid.
+    // Cells put back where they were lifted from, unchanged, leave the grid and history alone.
+    const commit = useCallback((): GridData => {
+        if (!floating || !rect) return data;
+        if (isUnchanged(floating, rect, data, width)) {
+            setFloating(null);
+            return data;
+        }
+        const committed = stampRegion(floating.base ?? data, width, height, floating.region, rect.x, rect.y);
+        onUpdate(committed);
+        setFloating(null);
+        return committed;
+    }, [floating, rect, data, width, height, onUpdate]);
+
+    const cancel = useCallback(() => {
+        if (floating) {
+            setRect(floating.origin);
+            setFloating(null);
+        } else {
+            setRect(null);
+        }
+    }, [floating]);
+
+    const copy = useCallback((): GridRegion | null => {
+        if (floating) return floating.region;
+        return rect ? extractRegion(data, width, height, rect) : null;
+    }, [floating, rect, data, width, height]);
+
+    const cut = useCallback((): GridRegion | null => {
+        const region = copy();
+        if (!region || !rect) return null;
+        if (floating) {
+            if (floating.base) onUpdate(floating.base);
+            setFloating(null);
+        } else {
+            onUpdate(fillRegion(data, width, height, rect, CELL_FREE));
+        }
+        setRect(null);
+        return region;
+    }, [copy, floating, rect, data, width, height, onUpdate]);
+
+    // Floats a region over the grid at the current marquee, or centered without one
+    const paste = useCallback((region: GridRegion) => {
+        const source = commit();
+        const x = rect ? rect.x : Math.floor((width - region.width) / 2);
+        const y = rect ? rect.y : Math.floor((height - region.height) / 2);
+        setFloating({ region, base: null, origin: null, source });
+        setRect({ x, y, w: region.width, h: region.height });
+    }, [commit, rect, width, height]);
+
+    const transform = useCallback((fn: (region: GridRegion) => GridRegion) => {
+        const current = lift();
+        if (!current) return;
+        const region = fn(current.region);
+        setFloating({ ...current, region });
+        setRect(prev => prev && { ...prev, w: region.width, h: region.height });
+    }, [lift]);
+
+    const rotate = useCallback((clockwise: boolean = true) => transform(r => rotateRegion(r, clockwise)), [transform]);
+    const flip = useCallback((axis: FlipAxis) => transform(r => flipRegion(r, axis)), [transform]);
+
+    const fill = useCallback((value: number) => {
+        if (floating) {
+            const { region } = floating;
+            setFloating({ ...floating, region: { ...region, data: new Int8Array(region.data.length).fill(value) } });
+        } else if (rect) {
+            onUpdate(fillRegion(data, width, height, rect, value));
+        }
+    }, [floating, rect, data, width, height, onUpdate]);
+
+    const clear = useCallback(() => fill(CELL_FREE), [fill]);
+
+    // Commit anything floating and drop the marquee, e.g. when leaving the select tool
+    const release = useCallback(() => {
+        commit();
+        setRect(null);
+    }, [commit]);
+
+    return {
+        rect,
+        floating,
+        select,
+        lift,
+        moveTo,
+        commit,
+        cancel,
+        copy,
+        cut,
+        paste,
+        rotate,
+        flip,
+        fill,
+        clear,
+        release
+    };
+}
+
+export type SelectionController = ReturnType<typeof useSelection>;
@@ -12,8 +12,54 @@ export interface GridMetadata {
         theta: number;
     };
     // Optional Start/Goal for the editor
-    start?: { x: number, y: number };
-    goal?: { x: number, y: number };
+    start?: Pose;
+    goal?: Pose;
+    // Named stops for tour planning, visited in list order
+    waypoints?: Waypoint[];
+    // Additional start/goal queries, e.g. from a MovingAI .scen file
+    scenarios?: Scenario[];
+    // Index of the scenario that start/goal currently show; edits to start/goal update it
+    activeScenario?: number;
+    // Robot outline checked for collisions at the start and goal
+    footprint?: RobotFootprint;
+}
+
+// A grid cell with an optional heading in radians, counter-clockwise from the grid's +x axis (y up, as in ROS)
+export interface Pose {
+    x: number;
+    y: number;
+    theta?: number;
+}
+
+export interface Waypoint extends Pose {
+    name: string;
+}
+
+// Robot outline in meters, in the robot frame: x forward (along the heading), y to the left
+export type RobotFootprint =
+    | { kind: 'circle', radius: number }
+    | { kind: 'polygon', points: { x: number, y: number }[] };
+
+export interface Scenario {
+    start: Pose;
+    goal: Pose;
+    label?: string;
+    bucket?: number;
+    optimalLength?: number;
+}
+
+// Editor tools, in toolbar order
+export const TOOLS = ['select', 'pencil', 'rect', 'ellipse', 'line', 'polygon', 'eraser', 'bucket', 'start', 'goal', 'waypoint'] as const;
+export type Tool = typeof TOOLS[number];
+
+// Neighbourhood for region operations (flood fill, planning): edges only, or edges and corners
+export type Connectivity = 4 | 8;
+
+// Canvas zoom (k, pixels per cell) and the screen position (x, y) of the grid center
+export interface ViewTransform {
+    k: number;
+    x: number;
+    y: number;
 }
 
 export type GridData = Int8Array; // Flattened 1D array
@@ -25,6 +71,12 @@ export interface GridState {
     metadata: GridMetadata;
 }
 
+// A file (or pasted clipboard content) to import, already read into memory
+export interface ImportSource {
+    name: string;
+    bytes: Uint8Array;
+}
+
 export interface GridHistoryEntry {
     data: GridData; // Snapshot of the grid data
     width: number;
@@ -0,0 +1,194 @@
+import { type GridData, CELL_OCCUPIED } from '../types';
+
+// A closed ring of points in grid coordinates (cell corners, x right, y down). The first point is not repeated.
+export type Ring = [number, number][];
+
+export interface ObstaclePolygon {
+    outer: Ring;
+    holes: Ring[];
+}
+
+/**
+ * Signed area in grid coordinates. Outer rings from traceObstacles are negative, holes positive.
+ */
+export function ringArea(ring: Ring): number {
+    let area = 0;
+    for (let i = 0; i < ring.length; i++) {
+        const [x0, y0] = ring[i];
+        const [x1, y1] = ring[(i + 1) % ring.length];
+        area += x0 * y1 - x1 * y0;
+    }
+    return area / 2;
+}
+
+function pointInRing(px: number, py: number, ring: Ring): boolean {
+    let inside = false;
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+        const [xi, yi] = ring[i];
+        const [xj, yj] = ring[j];
+        if ((yi > py) !== (yj > py) && px < ((xj - xi) * (py - yi)) / (yj - yi) + xi) {
+            inside = !inside;
+        }
+    }
+    return inside;
+}
+
+const perpendicularDistance = ([px, py]: [number, number], [ax, ay]: [number, number], [bx, by]: [number, number]) => {
+    const dx = bx - ax;
+    const dy = by - ay;
+    const len = Math.hypot(dx, dy);
+    if (len === 0) return Math.hypot(px - ax, py - ay);
+    return Math.abs(dy * px - dx * py + bx * ay - by * ax) / len;
+};
+
+// Douglas-Peucker on an open polyline, keeping both endpoints
+function simplifyLine(points: Ring, tolerance: number): Ring {
+    if (points.length <= 2) return points;
+    let maxDist = 0;
+    let index = 0;
+    for (let i = 1; i < points.length - 1; i++) {
+        const d = perpendicularDistance(points[i], points[0], points[points.length - 1]);
+        if (d > maxDist) {
+            maxDist = d;
+            index = i;
+        }
+    }
+    if (maxDist <= tolerance) return [points[0], points[points.length - 1]];
+    const left = simplifyLine(points.slice(0, index + 1), tolerance);
+    const right = simplifyLine(points.slice(index), tolerance);
+    return [...left.slice(0, -1), ...right];
+}
+
+/**
+ * Simplifies a closed ring with Douglas-Peucker. The ring is split at its first point and
+ * the point farthest from it so both halves have fixed endpoints.
+ * Rings that would collapse below a triangle are returned unchanged.
+ */
+export function simplifyRing(ring: Ring, tolerance: number): Ring {
+    if (tolerance <= 0 || ring.length <= 4) return ring;
+
+    let far = 0;
+    let farDist = 0;
+    for (let i = 1; i < ring.length; i++) {
+        const d = Math.hypot(ring[i][0] - ring[0][0], ring[i][1] - ring[0][1]);
+        if (d > farDist) {
+            farDist = d;
+            far = i;
+        }
+    }
+
+    const first = simplifyLine(ring.slice(0, far + 1), tolerance);
+    const second = simplifyLine([...ring.slice(far), ring[0]], tolerance);
+    const simplified = [...first.slice(0, -1), ...second.slice(0, -1)];
+    return simplified.length >= 3 ? simplified : ring;
+}
+
+/**
+ * Traces the boundaries of occupied regions into polygons (outer ring plus holes per
+ * 4-connected obstacle). Boundary edges run along cell borders with the obstacle on their
+ * right; at vertices where two obstacles touch diagonally the trace turns towards the
+ * obstacle, so diagonal neighbours stay separate polygons. Collinear points are removed and
+ * rings are optionally simplified with the given tolerance (in cells).
+ */
+export function traceObstacles(data: GridData, width: number, height: number, tolerance: number = 0): ObstaclePolygon[] {
+    const vw = width + 1;
+    const vertexCount = vw * (height + 1);
+    const solid = (x: number, y: number) =>
+        x >= 0 && x < width && y >= 0 && y < height && data[y * width + x] === CELL_OCCUPIED;
+
+    // Each lattice vertex has at most two outgoing boundary edges; store their end vertex + 1
+    const out = new Int32Array(vertexCount * 2);
+    const used = new Uint8Array(vertexCount * 2);
+    const addEdge = (ax: number, ay: number, bx: number, by: number) => {
+        const a = ay * vw + ax;
+        out[2 * a + (out[2 * a] ? 1 : 0)] = by * vw + bx + 1;
+    };
+
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            if (!solid(x, y)) continue;
+            if (!solid(x, y - 1)) addEdge(x + 1, y, x, y);
+            if (!solid(x, y + 1)) addEdge(x, y + 1, x + 1, y + 1);
+            if (!solid(x - 1, y)) addEdge(x, y, x, y + 1);
+            if (!solid(x + 1, y)) addEdge(x + 1, y + 1, x + 1, y);
+        }
+    }
+
+    // Direction of the edge in the given slot of vertex v
+    const edgeDir = (v: number, slot: number): [number, number] => {
+        const n = out[2 * v + slot] - 1;
+        return [(n % vw) - (v % vw), Math.floor(n / vw) - Math.floor(v / vw)];
+    };
+
+    // With two outgoing edges, take the sharper right turn (turn < 0 is clockwise)
+    const chooseSlot = (v: number, dx: number, dy: number): number => {
+        if (!out[2 * v + 1]) return 0;
+        const turn = (slot: number) => {
+            const [ndx, ndy] = edgeDir(v, slot);
+            return dx * ndy - dy * ndx;
+        };
+        return turn(0) <= turn(1) ? 0 : 1;
+    };
+
+    const rings: Ring[] = [];
+
+    for (let v = 0; v < vertexCount; v++) {
+        for (let slot = 0; slot < 2; slot++) {
+            if (!out[2 * v + slot] || used[2 * v + slot]) continue;
+
+            const ring: Ring = [];
+            let cur = v;
+            let pick = slot;
+            let dx = 0;
+            let dy = 0;
+
+            // Walk until we are about to reuse an edge, which closes the ring
+            while (!used[2 * cur + pick]) {
+                used[2 * cur + pick] = 1;
+                const [ndx, ndy] = edgeDir(cur, pick);
+                // Only keep corners
+                if (ndx !== dx || ndy !== dy) ring.push([cur % vw, Math.floor(cur / vw)]);
+                dx = ndx;
+                dy = ndy;
+                cur = out[2 * cur + pick] - 1;
+                pick = chooseSlot(cur, dx, dy);
+            }
+
+            // The start point may lie in the middle of a straight run
+            const [sdx, sdy] = edgeDir(v, slot);
+            if (ring.length > 3 && sdx === dx && sdy === dy) ring.shift();
+
+            rings.push(simplifyRing(ring, tolerance));
+        }
+    }
+
+    // Outer rings are negative in grid coordinates, holes positive
+    const polygons: (ObstaclePolygon & { area: number })[] = [];
+    const holes: Ring[] = [];
+    for (const ring of rings) {
+        const area = ringArea(ring);
+        if (area < 0) polygons.push({ outer: ring, holes: [], area: -area });
+        else holes.push(ring);
+    }
+
+    for (const hole of holes) {
+        // Center of a free cell inside the hole: half a cell along the first edge, then
+        // half a cell to its left (the obstacle is on the right)
+        const [ax, ay] = hole[0];
+        const [bx, by] = hole[1];
+        const len = Math.hypot(bx - ax, by - ay);
+        const ux = (bx - ax) / len;
+        const uy = (by - ay) / len;
+        const px = ax + 0.5 * ux - 0.5 * uy;
+        const py = ay + 0.5 * uy + 0.5 * ux;
+
+        // The innermost outer ring containing it owns the hole
+        let owner: (typeof polygons)[number] | undefined;
+        for (const poly of polygons) {
+            if ((!owner || poly.area < owner.area) && pointInRing(px, py, poly.outer)) owner = poly;
+        }
+        owner?.holes.push(hole);
+    }
+
+    return polygons.map(({ outer, holes }) => ({ outer, holes }));
+}
@@ -1,4 +1,4 @@
-import type { GridData, GridMetadata } from '../types';
+import type { GridData, GridMetadata, Pose, Waypoint } from '../types';
 
 export interface ParsedCSV {
     width: number;
@@ -10,8 +10,9 @@ export interface ParsedCSV {
 /**
  * Parses a CSV file containing occupancy grid data
  * Format:
- *   # start,x,y (optional)
- *   # goal,x,y (optional)
+ *   # start,x,y[,theta] (optional)
+ *   # goal,x,y[,theta] (optional)
+ *   # waypoint,x,y,theta,name (optional, repeated; theta may be empty)
  *   val,val,val,...
  *   val,val,val,...
  *   ...
@@ -19,8 +20,9 @@ export interface ParsedCSV {
 export function parseCSV(csvText: string, defaultResolution: number = 0.05): ParsedCSV {
     const lines = csvText.trim().split('\n');
     const dataRows: string[] = [];
-    let start: { x: number; y: number } | undefined;
-    let goal: { x: number; y: number } | undefined;
+    let start: Pose | undefined;
+    let goal: Pose | undefined;
+    const waypoints: Waypoint[] = [];
 
     // Parse comment lines and collect data rows
     for (const line of lines) {
@@ -34,12 +36,17 @@ export function parseCSV(csvText: string, defaultResolution: number = 0.05): Par
                 const type = parts[0].trim();
                 const x = parseInt(parts[1].trim(), 10);
                 const y = parseInt(parts[2].trim(), 10);
+                const theta = parts.length >= 4 ? parseFloat(parts[3].trim()) : NaN;
+                const pose: Pose = isNaN(theta) ? { x, y } : { x, y, theta };
                 
                 if (!isNaN(x) && !isNaN(y)) {
                     if (type === 'start') {
-                        start = { x, y };
+                        start = pose;
                     } else if (type === 'goal') {
-                        goal = { x, y };
+                        goal = pose;
+                    } else if (type === 'waypoint') {
+                        const name = parts.slice(4).join(',').trim();
+                        waypoints.push({ ...pose, name: name || `WP${waypoints.length + 1}` });
                     }
                 }
             }
@@ -84,7 +91,8 @@ export function parseCSV(csvText: string, defaultResolution: number = 0.05): Par
         resolution: defaultResolution,
         origin: { x: 0, y: 0, theta: 0 },
         start,
-        goal
+        goal,
+        ...(waypoints.length > 0 && { waypoints })
     };
 
     return {
@@ -0,0 +1,265 @@
+import type { Connectivity, GridData } from '../types';
+
+// A cell position in internal grid coordinates
+export interface Cell {
+    x: number;
+    y: number;
+}
+
+const NEIGHBORS_4 = [[1, 0], [-1, 0], [0, 1], [0, -1]];
+const NEIGHBORS_8 = [...NEIGHBORS_4, [1, 1], [1, -1], [-1, 1], [-1, -1]];
+
+/**
+ * Fills the region of equal values connected to (x, y) with `value`.
+ * Iterative with an explicit stack (cells are written when pushed, so each is pushed at most
+ * once and the stack never exceeds the grid size). Returns null if nothing would change.
+ */
+export function floodFill(
+    data: GridData,
+    width: number,
+    height: number,
+    x: number,
+    y: number,
+    value: number,
+    connectivity: Connectivity = 4
+): Int8Array | null {
+    if (x < 0 || x >= width || y < 0 || y >= height) return null;
+
+    const target = data[y * width + x];
+    if (target === value) return null;
+
+    const result = new Int8Array(data);
+    const stack = new Int32Array(width * height);
+    const neighbors = connectivity === 8 ? NEIGHBORS_8 : NEIGHBORS_4;
+    let top = 0;
+
+    result[y * width + x] = value;
+    stack[top++] = y * width + x;
+
+    while (top > 0) {
+        const idx = stack[--top];
+        const cx = idx % width;
+        const cy = (idx - cx) / width;
+
+        for (const [dx, dy] of neighbors) {
+            const nx = cx + dx;
+            const ny = cy + dy;
+            if (nx < 0 || nx >= width || ny < 0 || ny >= height) continue;
+            const n = ny * width + nx;
+            if (result[n] !== target) continue;
+            result[n] = value;
+            stack[top++] = n;
+        }
+    }
+
+    return result;
+}
+
+export type BrushShape = 'square' | 'round';
+
+export interface Brush {
+    radius: number; // In cells, 0 paints a single cell
+    shape: BrushShape;
+}
+
+export const DEFAULT_BRUSH: Brush = {
+    radius: 0,
+    shape: 'square'
+};
+
+/**
+ * Cell offsets covered by the brush around its center. Round brushes keep the cells whose
+ * center lies within the radius, so radius 1 is a plus sign.
+ */
+export function brushFootprint(brush: Brush): Cell[] {
+    const r = Math.max(0, Math.floor(brush.radius));
+    const offsets: Cell[] = [];
+    for (let dy = -r; dy <= r; dy++) {
+        for (let dx = -r; dx <= r; dx++) {
+            if (brush.shape === 'round' && dx * dx + dy * dy > r * r) continue;
+            offsets.push({ x: dx, y: dy });
+        }
+    }
+    return offsets;
+}
+
+// Drops cells outside the grid and repeated cells, keeping the first occurrence
+function uniqueInBounds(cells: Cell[], width: number, height: number): Cell[] {
+    const seen = new Set<number>();
+    return cells.filter(({ x, y }) => {
+        if (x < 0 || x >= width || y < 0 || y >= height) return false;
+        const idx = y * width + x;
+        if (seen.has(idx)) return false;
+        seen.add(idx);
+        return true;
+    });
+}
+
+/**
+ * Stamps the brush at every point of a stroke and returns the covered cells, each once.
+ * Cells outside the grid are dropped.
+ */
+export function stampBrush(points: Cell[], brush: Brush, width: number, height: number): Cell[] {
+    const footprint = brushFootprint(brush);
+    const cells: Cell[] = [];
+    for (const p of points) {
+        for (const o of footprint) cells.push({ x: p.x + o.x, y: p.y + o.y });
+    }
+    return uniqueInBounds(cells, width, height);
+}
+
+/**
+ * Cells on the straight line between two cells (Bresenham), both ends included.
+ */
+export function bresenham(x0: number, y0: number, x1: number, y1: number): Cell[] {
+    const points: Cell[] = [];
+    const dx = Math.abs(x1 - x0);
+    const dy = Math.abs(y1 - y0);
+    const sx = x0 < x1 ? 1 : -1;
+    const sy = y0 < y1 ? 1 : -1;
+    let err = dx - dy;
+
+    while (true) {
+        points.push({ x: x0, y: y0 });
+        if (x0 === x1 && y0 === y1) break;
+        const e2 = 2 * err;
+        if (e2 > -dy) { err -= dy; x0 += sx; }
+        if (e2 < dx) { err += dx; y0 += sy; }
+    }
+    return points;
+}
+
+// Outline settings shared by the shape tools
+export interface ShapeStyle {
+    filled: boolean;
+    strokeWidth: number; // In cells
+}
+
+export const DEFAULT_SHAPE_STYLE: ShapeStyle = {
+    filled: true,
+    strokeWidth: 1
+};
+
+/**
+ * Cells covered by a line of the given thickness: the Bresenham line plus every cell whose
+ * center is within (thickness - 1) / 2 of the segment. Cells outside the grid are dropped.
+ */
+export function lineCells(a: Cell, b: Cell, thickness: number, width: number, height: number): Cell[] {
+    const half = (Math.max(1, thickness) - 1) / 2;
+    const cells = bresenham(a.x, a.y, b.x, b.y);
+    if (half > 0) {
+        const dx = b.x - a.x;
+        const dy = b.y - a.y;
+        const lenSq = dx * dx + dy * dy;
+        const r = Math.ceil(half);
+        for (let y = Math.min(a.y, b.y) - r; y <= Math.max(a.y, b.y) + r; y++) {
+            for (let x = Math.min(a.x, b.x) - r; x <= Math.max(a.x, b.x) + r; x++) {
+                // Distance from the cell center to the closest point of the segment
+                const t = lenSq === 0 ? 0 : Math.max(0, Math.min(1, ((x - a.x) * dx + (y - a.y) * dy) / lenSq));
+                if (Math.hypot(x - a.x - t * dx, y - a.y - t * dy) <= half) cells.push({ x, y });
+            }
+        }
+    }
+    return uniqueInBounds(cells, width, height);
+}
+
+/**
+ * Cells covered by a polyline or polygon through the given vertices. Filled polygons cover
+ * every cell whose center is inside (even-odd rule) plus their border; otherwise only the
+ * edges are drawn with the style's stroke width, closing the ring if `closed` is set.
+ */
+export function polygonCells(vertices: Cell[], closed: boolean, style: ShapeStyle, width: number, height: number): Cell[] {
+    if (vertices.length === 0) return [];
+
+    const cells: Cell[] = [];
+    const ring = closed || style.filled;
+    const edgeCount = ring && vertices.length > 2 ? vertices.length : vertices.length - 1;
+    const thickness = style.filled ? 1 : style.strokeWidth;
+    for (let i = 0; i < Math.max(1, edgeCount); i++) {
+        const a = vertices[i];
+        const b = vertices[(i + 1) % vertices.length] ?? a;
+        cells.push(...lineCells(a, b, thickness, width, height));
+    }
+
+    if (style.filled && vertices.length > 2) {
+        const minY = Math.max(0, Math.min(...vertices.map(v => v.y)));
+        const maxY = Math.min(height - 1, Math.max(...vertices.map(v => v.y)));
+        for (let y = minY; y <= maxY; y++) {
+            // Scanline through the cell centers of this row
+            const crossings: number[] = [];
+            for (let i = 0, j = vertices.length - 1; i < vertices.length; j = i++) {
+                const vi = vertices[i];
+                const vj = vertices[j];
+                if ((vi.y > y) !== (vj.y > y)) {
+                    crossings.push(vi.x + ((y - vi.y) * (vj.x - vi.x)) / (vj.y - vi.y));
+                }
+            }
+            crossings.sort((p, q) => p - q);
+            for (let k = 0; k + 1 < crossings.length; k += 2) {
+                for (let x = Math.max(0, Math.ceil(crossings[k])); x <= Math.min(width - 1, Math.floor(crossings[k + 1])); x++) {
+                    cells.push({ x, y });
+                }
+            }
+        }
+    }
+
+    return uniqueInBounds(cells, width, height);
+}
+
+// A dragged box in internal grid coordinates, in cells
+export interface CellRect {
+    x: number;
+    y: number;
+    w: number;
+    h: number;
+}
+
+/**
+ * Coverage of a rectangle or of the ellipse inscribed in its box (a circle for square boxes),
+ * row-major over the box with 1 for covered cells. Outlines are `strokeWidth` cells wide
+ * inside the box; the ellipse outline keeps the cells not inside the ellipse shrunk by it.
+ */
+export function shapeMask(r: CellRect, style: ShapeStyle, ellipse: boolean): Uint8Array {
+    const mask = new Uint8Array(r.w * r.h);
+    const sw = Math.max(1, style.strokeWidth);
+    // Box-local center and radii
+    const cx = (r.w - 1) / 2;
+    const cy = (r.h - 1) / 2;
+    const inside = (x: number, y: number, ax: number, ay: number) =>
+        ax > 0 && ay > 0 && ((x - cx) / ax) ** 2 + ((y - cy) / ay) ** 2 <= 1;
+
+    for (let y = 0; y < r.h; y++) {
+        for (let x = 0; x < r.w; x++) {
+            const covered = ellipse
+                ? inside(x, y, r.w / 2, r.h / 2) && (style.filled || !inside(x, y, r.w / 2 - sw, r.h / 2 - sw))
+                : style.filled || x < sw || r.w - 1 - x < sw || y < sw || r.h - 1 - y < sw;
+            if (covered) mask[y * r.w + x] = 1;
+        }
+    }
+    return mask;
+}
+
+// Grid cells set in a shape mask over the box, dropping those outside the grid
+function maskCells(mask: Uint8Array, r: CellRect, width: number, height: number): Cell[] {
+    const cells: Cell[] = [];
+    for (let y = Math.max(0, r.y); y < Math.min(height, r.y + r.h); y++) {
+        for (let x = Math.max(0, r.x); x < Math.min(width, r.x + r.w); x++) {
+            if (mask[(y - r.y) * r.w + (x - r.x)]) cells.push({ x, y });
+        }
+    }
+    return cells;
+}
+
+/**
+ * Cells of a rectangle, filled or as an outline `strokeWidth` cells wide drawn inside the box.
+ */
+export function rectCells(r: CellRect, style: ShapeStyle, width: number, height: number): Cell[] {
+    return maskCells(shapeMask(r, style, false), r, width, height);
+}
+
+/**
+ * Cells of the ellipse inscribed in the box, see shapeMask.
+ */
+export function ellipseCells(r: CellRect, style: ShapeStyle, width: number, height: number): Cell[] {
+    return maskCells(shapeMask(r, style, true), r, width, height);
+}
@@ -0,0 +1,24 @@
+import { DEFAULT_ROS_EXPORT_OPTIONS, type RosExportOptions } from './rosExporter';
+import { DEFAULT_WORLD_EXPORT_OPTIONS, type WorldExportOptions } from './sdfExporter';
+import { DEFAULT_MESH_EXPORT_OPTIONS, type MeshExportOptions } from './meshExporter';
+import { DEFAULT_VECTOR_EXPORT_OPTIONS, type VectorExportOptions } from './vectorExporter';
+import { DEFAULT_JSON_EXPORT_OPTIONS, type JsonExportOptions } from './exportUtils';
+
+/**
+ * Settings of every exporter, edited in the export options panel.
+ */
+export interface ExportOptions {
+    ros: RosExportOptions;
+    world: WorldExportOptions;
+    mesh: MeshExportOptions;
+    vector: VectorExportOptions;
+    json: JsonExportOptions;
+}
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+    ros: DEFAULT_ROS_EXPORT_OPTIONS,
+    world: DEFAULT_WORLD_EXPORT_OPTIONS,
+    mesh: DEFAULT_MESH_EXPORT_OPTIONS,
+    vector: DEFAULT_VECTOR_EXPORT_OPTIONS,
+    json: DEFAULT_JSON_EXPORT_OPTIONS
+};
@@ -1,4 +1,15 @@
-import type { GridData, GridState, GridMetadata } from '../types';
+import { type GridData, type GridState, type GridMetadata, type Pose, CELL_FREE, CELL_OCCUPIED } from '../types';
+import { encodeGridData } from './gridEncoding';
+import type { GridEncoding } from './validators';
+import { addPNGText } from './pngText';
+
+export interface JsonExportOptions {
+    encoding: GridEncoding;
+}
+
+export const DEFAULT_JSON_EXPORT_OPTIONS: JsonExportOptions = {
+    encoding: 'raw'
+};
 
 /**
  * Adjusts the metadata origin so that the start point's world coordinate becomes (0, 0)
@@ -40,8 +51,8 @@ export const shiftGridToStartOrigin = (
         // In the exported local grid coordinates, 
         // the start and goal pixels remain at their original indices.
         // We do NOT change start.x to 0, because the data hasn't moved.
-        start: { x: sx, y: sy },
-        goal: metadata.goal ? { x: metadata.goal.x, y: metadata.goal.y } : undefined
+        start: { ...metadata.start },
+        goal: metadata.goal ? { ...metadata.goal } : undefined
     };
 
     // Return the original data buffer unchanged
@@ -74,18 +85,19 @@ export const generateCSV = (data: GridData, width: number, height: number, metad
     } else {
         // Convert start from internal to display coordinates
         const startDisplay = internalToDisplay(finalMetadata.start.x, finalMetadata.start.y);
-        finalMetadata.start = { x: startDisplay.x, y: startDisplay.y };
+        finalMetadata.start = { ...finalMetadata.start, x: startDisplay.x, y: startDisplay.y };
     }
     
-    // Convert goal from internal to display coordinates, then relative to start
+    // Goal and waypoints: internal to display coordinates, then relative to start
+    const startDisplay = finalMetadata.start;
+    const relativeToStart = <P extends Pose>(p: P): P => {
+        const display = internalToDisplay(p.x, p.y);
+        return { ...p, x: display.x - startDisplay.x, y: display.y - startDisplay.y };
+    };
     if (finalMetadata.goal) {
-        const goalDisplay = internalToDisplay(finalMetadata.goal.x, finalMetadata.goal.y);
-        // Goal is relative to start (which is at display 0,0)
-        finalMetadata.goal = {
-            x: goalDisplay.x - finalMetadata.start.x,
-            y: goalDisplay.y - finalMetadata.start.y
-        };
+        finalMetadata.goal = relativeToStart(finalMetadata.goal);
     }
+    finalMetadata.waypoints = finalMetadata.waypoints?.map(relativeToStart);
     
     // Shift grid if requested (only affects origin, not start/goal display coords)
     if (shiftToStart && finalMetadata?.start) {
@@ -100,13 +112,18 @@ export const generateCSV = (data: GridData, width: number, height: number, metad
         finalMetadata.origin = shifted.metadata.origin;
     }
     
-    // Add metadata as comments at the top
+    // Add metadata as comments at the top; headings are only written when set
+    const heading = (p: Pose) => p.theta !== undefined ? `,${p.theta}` : '';
     if (finalMetadata) {
         if (finalMetadata.start) {
-            csv += `# start,${finalMetadata.start.x},${finalMetadata.start.y}\n`;
+            csv += `# start,${finalMetadata.start.x},${finalMetadata.start.y}${heading(finalMetadata.start)}\n`;
         }
         if (finalMetadata.goal) {
-            csv += `# goal,${finalMetadata.goal.x},${finalMetadata.goal.y}\n`;
+            csv += `# goal,${finalMetadata.goal.x},${finalMetadata.goal.y}${heading(finalMetadata.goal)}\n`;
+        }
+        for (const wp of finalMetadata.waypoints ?? []) {
+            // The name goes last so it may contain commas; an empty heading field means none
+            csv += `# waypoint,${wp.x},${wp.y},${wp.theta ?? ''},${wp.name}\n`;
         }
     }
     
@@ -121,7 +138,11 @@ export const generateCSV = (data: GridData, width: number, height: number, metad
     return csv;
 };
 
-export const generateJSON = (state: GridState, shiftToStart: boolean = false): string => {
+export const generateJSON = async (
+    state: GridState,
+    shiftToStart: boolean = false,
+    options: JsonExportOptions = DEFAULT_JSON_EXPORT_OPTIONS
+): Promise<string> => {
     let finalState = { ...state };
     
     // If no start is set, set it to (0,0)
@@ -134,6 +155,8 @@ export const generateJSON = (state: GridState, shiftToStart: boolean = false): s
     
     // Shift grid if requested
     if (shiftToStart && finalState.metadata.start) {
+        const start = finalState.metadata.start;
+        const relativeToStart = <P extends Pose>(p: P): P => ({ ...p, x: p.x - start.x, y: p.y - start.y });
         const shifted = shiftGridToStartOrigin(finalState.data, finalState.width, finalState.height, finalState.metadata);
         finalState = {
             width: shifted.width,
@@ -141,23 +164,71 @@ export const generateJSON = (state: GridState, shiftToStart: boolean = false): s
             data: shifted.data,
             metadata: {
                 ...shifted.metadata,
-                // For JSON export, show start as (0,0) and goal relative to start
+                // For JSON export, show start as (0,0) and goal and waypoints relative to start
                 // even though grid data positions remain unchanged
-                start: { x: 0, y: 0 },
-                goal: (state.metadata.goal && state.metadata.start) ? {
-                    x: state.metadata.goal.x - state.metadata.start.x,
-                    y: state.metadata.goal.y - state.metadata.start.y
-                } : undefined
+                start: { ...start, x: 0, y: 0 },
+                goal: state.metadata.goal && relativeToStart(state.metadata.goal),
+                waypoints: state.metadata.waypoints?.map(relativeToStart)
             }
         };
     }
     
-    // Convert Int8Array to regular array for JSON serialization
-    const serializable = {
-        ...finalState,
-        data: Array.from(finalState.data)
-    };
-    return JSON.stringify(serializable, null, 2);
+    // Raw keeps the original pretty-printed number array; the compact encodings are written on one line
+    if (options.encoding === 'raw') {
+        const serializable = {
+            ...finalState,
+            data: Array.from(finalState.data)
+        };
+        return JSON.stringify(serializable, null, 2);
+    }
+
+    return JSON.stringify({
+        width: finalState.width,
+        height: finalState.height,
+        encoding: options.encoding,
+        data: await encodeGridData(finalState.data, options.encoding),
+        metadata: finalState.metadata
+    });
+};
+
+/**
+ * Pixel colors used by generatePNG, as little-endian RGBA words (0xAABBGGRR).
+ * Probabilities 1-99 are opaque grays in between (occupancyColor).
+ */
+export const PNG_PALETTE = {
+    occupied: 0xFF000000, // Black
+    free: 0xFFFFFFFF, // White
+    unknown: 0xFFD1D5DB, // Gray
+    start: 0xFF22C55E,
+    goal: 0xFFEF4444
+};
+
+/**
+ * tEXt keyword that marks our PNG exports; the text is JSON with the map resolution.
+ * Only marked images skip the threshold dialog on import.
+ */
+export const PNG_MARKER_KEYWORD = 'occupancy-editor';
+
+/**
+ * Gray level (0-255) of an occupancy probability: 0 is white, 100 is black.
+ */
+export const occupancyGray = (value: number): number => Math.round(255 * (1 - value / 100));
+
+/**
+ * Occupancy probability of a gray level, the inverse of occupancyGray.
+ */
+export const grayOccupancy = (gray: number): number => Math.round(100 * (1 - gray / 255));
+
+/**
+ * Pixel color of a cell value, shared by generatePNG and the canvas.
+ * Free, occupied and unknown use PNG_PALETTE, probabilities 1-99 are shades of gray.
+ */
+export const occupancyColor = (value: number): number => {
+    if (value === CELL_OCCUPIED) return PNG_PALETTE.occupied;
+    if (value === CELL_FREE) return PNG_PALETTE.free;
+    if (value < 0 || value > 100) return PNG_PALETTE.unknown;
+    const g = occupancyGray(value);
+    return (0xFF000000 | (g << 16) | (g << 8) | g) >>> 0;
 };
 
 /**
@@ -193,14 +264,7 @@ export const generatePNG = async (
     
     // Fill with grid data
     for (let i = 0; i < finalData.length; i++) {
-        const val = finalData[i];
-        if (val === 100) { // CELL_OCCUPIED
-            buf[i] = 0xFF000000; // Black
-        } else if (val === 0) { // CELL_FREE
-            buf[i] = 0xFFFFFFFF; // White
-        } else { // CELL_UNKNOWN
-            buf[i] = 0xFFD1D5DB; // Gray
-        }
+        buf[i] = occupancyColor(finalData[i]);
     }
     
     // Draw start and goal if present
@@ -208,13 +272,13 @@ export const generatePNG = async (
         if (finalMetadata.start) {
             const idx = finalMetadata.start.y * width + finalMetadata.start.x;
             if (idx >= 0 && idx < buf.length) {
-                buf[idx] = 0xFF22C55E; // Green
+                buf[idx] = PNG_PALETTE.start;
             }
         }
         if (finalMetadata.goal) {
             const idx = finalMetadata.goal.y * width + finalMetadata.goal.x;
             if (idx >= 0 && idx < buf.length) {
-                buf[idx] = 0xFFEF4444; // Red
+                buf[idx] = PNG_PALETTE.goal;
             }
         }
     }
@@ -222,7 +286,7 @@ export const generatePNG = async (
     ctx.putImageData(imageData, 0, 0);
     
     // Convert to blob
-    return new Promise((resolve, reject) => {
+    const blob = await new Promise<Blob>((resolve, reject) => {
         canvas.toBlob((blob) => {
             if (blob) {
                 resolve(blob);
@@ -231,4 +295,9 @@ export const generatePNG = async (
             }
         }, 'image/png');
     });
+
+    // Mark the file as ours so it imports cell-for-cell at its resolution
+    const marker = JSON.stringify({ resolution: finalMetadata?.resolution ?? 0.05 });
+    const png = addPNGText(new Uint8Array(await blob.arrayBuffer()), PNG_MARKER_KEYWORD, marker);
+    return new Blob([png], { type: 'image/png' });
 };
@@ -0,0 +1,111 @@
+import { CELL_UNKNOWN, type GridData, type GridMetadata, type Pose, type RobotFootprint } from '../types';
+import type { Cell } from './drawingUtils';
+
+// Occupancy from which a cell blocks the robot; map_server's default occupied_thresh is 0.65
+export const OCCUPIED_THRESHOLD = 65;
+
+export const DEFAULT_FOOTPRINT: RobotFootprint = { kind: 'circle', radius: 0.2 };
+
+/**
+ * Cells the robot may not overlap: unknown or likely occupied.
+ */
+export const isBlocked = (value: number) => value === CELL_UNKNOWN || value >= OCCUPIED_THRESHOLD;
+
+/**
+ * Polygon footprint vertices in grid coordinates (cells, y down) for a robot centered on the
+ * pose cell and turned by its heading.
+ */
+export function footprintPolygon(points: { x: number, y: number }[], pose: Pose, resolution: number): { x: number, y: number }[] {
+    const cos = Math.cos(pose.theta ?? 0);
+    const sin = Math.sin(pose.theta ?? 0);
+    return points.map(p => ({
+        x: pose.x + 0.5 + (p.x * cos - p.y * sin) / resolution,
+        y: pose.y + 0.5 - (p.x * sin + p.y * cos) / resolution
+    }));
+}
+
+// Even-odd point in polygon test
+const insidePolygon = (x: number, y: number, polygon: { x: number, y: number }[]) => {
+    let inside = false;
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+        const a = polygon[i];
+        const b = polygon[j];
+        if ((a.y > y) !== (b.y > y) && x < a.x + (y - a.y) * (b.x - a.x) / (b.y - a.y)) inside = !inside;
+    }
+    return inside;
+};
+
+/**
+ * Cells under the footprint of a robot at `pose`: those whose centers lie inside it, and
+ * always the pose cell itself. Cells outside the grid are included.
+ */
+export function footprintCells(footprint: RobotFootprint, pose: Pose, resolution: number): Cell[] {
+    const cells: Cell[] = [];
+
+    if (footprint.kind === 'circle') {
+        const r = footprint.radius / resolution;
+        const reach = Math.floor(r);
+        for (let dy = -reach; dy <= reach; dy++) {
+            for (let dx = -reach; dx <= reach; dx++) {
+                if (dx * dx + dy * dy <= r * r) cells.push({ x: pose.x + dx, y: pose.y + dy });
+            }
+        }
+        return cells;
+    }
+
+    const polygon = footprintPolygon(footprint.points, pose, resolution);
+    const minX = Math.floor(Math.min(...polygon.map(p => p.x)));
+    const maxX = Math.ceil(Math.max(...polygon.map(p => p.x)));
+    const minY = Math.floor(Math.min(...polygon.map(p => p.y)));
+    const maxY = Math.ceil(Math.max(...polygon.map(p => p.y)));
+    for (let y = Math.min(minY, pose.y); y <= Math.max(maxY, pose.y); y++) {
+        for (let x = Math.min(minX, pose.x); x <= Math.max(maxX, pose.x); x++) {
+            if ((x === pose.x && y === pose.y) || insidePolygon(x + 0.5, y + 0.5, polygon)) cells.push({ x, y });
+        }
+    }
+    return cells;
+}
+
+/**
+ * Whether a robot at `pose` overlaps a blocked cell or sticks out of the grid.
+ */
+export function footprintCollides(data: GridData, width: number, height: number, footprint: RobotFootprint, pose: Pose, resolution: number): boolean {
+    return footprintCells(footprint, pose, resolution).some(c =>
+        c.x < 0 || c.x >= width || c.y < 0 || c.y >= height || isBlocked(data[c.y * width + c.x])
+    );
+}
+
+/**
+ * The start and goal poses at which the metadata footprint collides.
+ */
+export function collidingPoses(data: GridData, width: number, height: number, metadata: GridMetadata): ('start' | 'goal')[] {
+    const { footprint } = metadata;
+    if (!footprint) return [];
+    return (['start', 'goal'] as const).filter(role => {
+        const pose = metadata[role];
+        return pose && footprintCollides(data, width, height, footprint, pose, metadata.resolution);
+    });
+}
+
+/**
+ * Reads polygon vertices written as "x,y; x,y; ..." in meters. Null unless there are at least
+ * three valid points.
+ */
+export function parsePolygonText(text: string): { x: number, y: number }[] | null {
+    const points = text.split(';').filter(p => p.trim()).map(p => p.split(',').map(v => parseFloat(v)));
+    if (points.length < 3 || points.some(p => p.length !== 2 || p.some(isNaN))) return null;
+    return points.map(([x, y]) => ({ x, y }));
+}
+
+export function formatPolygonText(points: { x: number, y: number }[]): string {
+    return points.map(p => `${p.x},${p.y}`).join('; ');
+}
+
+/**
+ * Radius of the smallest circle around the robot center that contains the footprint, in meters.
+ */
+export function footprintRadius(footprint: RobotFootprint): number {
+    return footprint.kind === 'circle'
+        ? footprint.radius
+        : Math.max(...footprint.points.map(p => Math.hypot(p.x, p.y)));
+}
@@ -21,6 +21,50 @@ export interface GeneratorOptions {
     }
 }
 
+/**
+ * Generator panel state, kept outside the panel so project files can save and restore it.
+ */
+export interface GeneratorSettings {
+    mode: GeneratorOptions['mode'];
+    selectedShapes: Record<ShapeType, boolean>;
+    count: number;
+    minSize: number;
+    maxSize: number;
+    spacing: number;
+    allowOverlap: boolean;
+    clearFirst: boolean;
+    bugtrap: {
+        width: number;
+        length: number;
+        thickness: number;
+        aperture: number;
+    };
+}
+
+export const DEFAULT_GENERATOR_SETTINGS: GeneratorSettings = {
+    mode: 'shapes',
+    selectedShapes: {
+        rect: true,
+        square: true,
+        circle: true,
+        triangle: true,
+        cross: true,
+        room: true
+    },
+    count: 10,
+    minSize: 3,
+    maxSize: 10,
+    spacing: 1,
+    allowOverlap: false,
+    clearFirst: false,
+    bugtrap: {
+        width: 20,
+        length: 30,
+        thickness: 2,
+        aperture: 0
+    }
+};
+
 export interface Point { x: number, y: number }
 
 export function generateRandomMap(
@@ -0,0 +1,567 @@
+import { describe, it, expect } from 'vitest';
+import { mergeOccupiedRects, gridToWorld } from './geometryUtils';
+import { generateSDF } from './sdfExporter';
+import { buildGridMesh, generateSTL, generateOBJ, type Mesh } from './meshExporter';
+import { traceObstacles, ringArea } from './contourUtils';
+import { generateGeoJSON, generateSVG } from './vectorExporter';
+import { extractRegion, rotateRegion, flipRegion, stampRegion, serializeRegion, parseRegion } from './selectionUtils';
+import { floodFill, brushFootprint, stampBrush, bresenham, lineCells, polygonCells, rectCells, ellipseCells } from './drawingUtils';
+import { footprintCells, footprintCollides, collidingPoses, parsePolygonText } from './footprintUtils';
+import { blockedMask, planPath, DEFAULT_PLANNER_OPTIONS, PREVIEW_PATH_COLOR } from './planner';
+import { jumpPointSearch, thetaStar, rrtStar, seededRandom, segmentFree, pathLength, distanceField, pathClearance, runBenchmark, benchmarkToCSV, BENCHMARK_PLANNERS, DEFAULT_BENCHMARK_OPTIONS } from './plannerBenchmark';
+import { CELL_OCCUPIED as O, CELL_FREE as F, CELL_UNKNOWN as U } from '../types';
+
+describe('Rectangle Merging', () => {
+    it('covers every occupied cell exactly once', () => {
+        const data = new Int8Array([
+            O, O, F, O,
+            O, O, F, O,
+            F, O, O, O,
+        ]);
+        const rects = mergeOccupiedRects(data, 4, 3);
+
+        const covered = new Int8Array(12);
+        for (const r of rects) {
+            for (let y = r.y; y < r.y + r.h; y++) {
+                for (let x = r.x; x < r.x + r.w; x++) covered[y * 4 + x]++;
+            }
+        }
+        expect(Array.from(covered)).toEqual(Array.from(data).map(v => v === O ? 1 : 0));
+        expect(rects.length).toBeLessThanOrEqual(4);
+    });
+
+    it('merges a solid block into one rectangle', () => {
+        const data = new Int8Array(500 * 500).fill(O);
+        expect(mergeOccupiedRects(data, 500, 500)).toEqual([{ x: 0, y: 0, w: 500, h: 500 }]);
+    });
+});
+
+describe('Grid to World', () => {
+    const metadata = { resolution: 0.5, origin: { x: 1, y: 2, theta: 0 } };
+
+    it('places the bottom-left corner at the origin', () => {
+        expect(gridToWorld(0, 4, 4, metadata)).toEqual({ x: 1, y: 2 });
+        expect(gridToWorld(2, 0, 4, metadata)).toEqual({ x: 2, y: 4 });
+    });
+
+    it('rotates around the origin', () => {
+        const p = gridToWorld(2, 4, 4, { ...metadata, origin: { x: 0, y: 0, theta: Math.PI / 2 } });
+        expect(p.x).toBeCloseTo(0);
+        expect(p.y).toBeCloseTo(1);
+    });
+});
+
+describe('SDF Exporter', () => {
+    it('writes one merged box per wall segment', () => {
+        const data = new Int8Array([
+            O, O, O,
+            F, F, F,
+        ]);
+        const sdf = generateSDF(data, 3, 2, { resolution: 0.1, origin: { x: 0, y: 0, theta: 0 } }, false, {
+            include: true,
+            wallHeight: 2,
+            worldName: 'test'
+        });
+
+        expect(sdf).toContain('<world name="test">');
+        expect(sdf.match(/<collision name="wall_/g)).toHaveLength(1);
+        // 3 x 1 cells at 0.1 m, centered at (0.15, 0.15), raised by half the height
+        expect(sdf).toContain('<size>0.3 0.1 2</size>');
+        expect(sdf).toContain('<pose>0.15 0.15 1 0 0 0</pose>');
+    });
+});
+
+describe('Mesh Exporter', () => {
+    const metadata = { resolution: 0.5, origin: { x: 0, y: 0, theta: 0 } };
+
+    // Signed volume via the divergence theorem; positive when all faces point outward
+    const volume = (mesh: Mesh) => {
+        const v = mesh.vertices;
+        let vol = 0;
+        for (let i = 0; i < mesh.triangles.length; i += 3) {
+            const [a, b, c] = [mesh.triangles[i] * 3, mesh.triangles[i + 1] * 3, mesh.triangles[i + 2] * 3];
+            vol += v[a] * (v[b + 1] * v[c + 2] - v[b + 2] * v[c + 1])
+                - v[a + 1] * (v[b] * v[c + 2] - v[b + 2] * v[c])
+                + v[a + 2] * (v[b] * v[c + 1] - v[b + 1] * v[c]);
+        }
+        return vol / 6;
+    };
+
+    it('extrudes a single cell into a closed box', () => {
+        const mesh = buildGridMesh(new Int8Array([O]), 1, 1, metadata, false, { height: 2 });
+        expect(mesh.vertices.length / 3).toBe(8);
+        expect(mesh.triangles.length / 3).toBe(12);
+        expect(volume(mesh)).toBeCloseTo(0.5 * 0.5 * 2);
+    });
+
+    it('drops shared faces between neighbouring cells', () => {
+        const data = new Int8Array([
+            O, O, O,
+            F, F, O,
+        ]);
+        const mesh = buildGridMesh(data, 3, 2, metadata, false, { height: 1 });
+        // 2 merged rects (top + bottom = 8 triangles) and 6 merged side runs (12 triangles)
+        expect(mesh.triangles.length / 3).toBe(20);
+        expect(volume(mesh)).toBeCloseTo(4 * 0.25);
+    });
+
+    it('writes binary STL and OBJ', () => {
+        const mesh = buildGridMesh(new Int8Array([O]), 1, 1, metadata);
+        const stl = generateSTL(mesh);
+        expect(stl.length).toBe(84 + 12 * 50);
+        expect(new DataView(stl.buffer).getUint32(80, true)).toBe(12);
+
+        const obj = generateOBJ(mesh);
+        expect(obj.match(/^v /gm)).toHaveLength(8);
+        expect(obj.match(/^f /gm)).toHaveLength(12);
+    });
+});
+
+describe('Contour Tracing', () => {
+    it('traces a single cell as a square', () => {
+        const polys = traceObstacles(new Int8Array([O]), 1, 1);
+        expect(polys).toHaveLength(1);
+        expect(polys[0].outer).toHaveLength(4);
+        expect(ringArea(polys[0].outer)).toBe(-1);
+        expect(polys[0].holes).toEqual([]);
+    });
+
+    it('keeps diagonal neighbours as separate obstacles', () => {
+        const data = new Int8Array([
+            O, F,
+            F, O,
+        ]);
+        const polys = traceObstacles(data, 2, 2);
+        expect(polys).toHaveLength(2);
+        for (const p of polys) expect(p.outer).toHaveLength(4);
+    });
+
+    it('assigns holes to the surrounding obstacle', () => {
+        const data = new Int8Array([
+            O, O, O, O, O,
+            O, F, O, F, O,
+            O, O, O, O, O,
+        ]);
+        const polys = traceObstacles(data, 5, 3);
+        expect(polys).toHaveLength(1);
+        expect(polys[0].outer).toHaveLength(4);
+        expect(polys[0].holes).toHaveLength(2);
+        expect(polys[0].holes.map(ringArea)).toEqual([1, 1]);
+    });
+
+    it('puts obstacles inside a hole in their own polygon', () => {
+        const data = new Int8Array(25).fill(O);
+        for (const i of [6, 7, 8, 11, 13, 16, 17, 18]) data[i] = F;
+        const polys = traceObstacles(data, 5, 5);
+        expect(polys).toHaveLength(2);
+        const [ring, island] = [...polys].sort((a, b) => ringArea(a.outer) - ringArea(b.outer));
+        expect(ring.holes).toHaveLength(1);
+        expect(island.holes).toHaveLength(0);
+        expect(ringArea(island.outer)).toBe(-1);
+    });
+
+    it('simplifies staircases within the tolerance', () => {
+        // Lower-left triangle of a 6x6 grid
+        const data = new Int8Array(36);
+        for (let y = 0; y < 6; y++) for (let x = 0; x <= y; x++) data[y * 6 + x] = O;
+
+        const exact = traceObstacles(data, 6, 6)[0].outer;
+        const simplified = traceObstacles(data, 6, 6, 1)[0].outer;
+        expect(exact.length).toBe(14);
+        expect(simplified.length).toBeLessThan(exact.length);
+        expect(simplified.length).toBeGreaterThanOrEqual(3);
+    });
+});
+
+describe('Vector Exporter', () => {
+    const metadata = {
+        resolution: 0.5,
+        origin: { x: 1, y: 2, theta: 0 },
+        start: { x: 0, y: 1 },
+        goal: { x: 1, y: 1 }
+    };
+    const data = new Int8Array([
+        O, O,
+        F, F,
+    ]);
+
+    it('writes obstacles as closed counter-clockwise rings in world meters', () => {
+        type Feature = { properties: { kind: string, area?: number }, geometry: { coordinates: number[][][] | number[] } };
+        const geo: { type: string, features: Feature[] } = JSON.parse(generateGeoJSON(data, 2, 2, metadata));
+        expect(geo.type).toBe('FeatureCollection');
+
+        const obstacle = geo.features.find(f => f.properties.kind === 'obstacle')!;
+        const ring = (obstacle.geometry.coordinates as number[][][])[0] as [number, number][];
+        expect(ring).toHaveLength(5);
+        expect(ring[0]).toEqual(ring[4]);
+        expect(obstacle.properties.area).toBeCloseTo(0.5);
+
+        const xs = ring.map(p => p[0]);
+        const ys = ring.map(p => p[1]);
+        expect([Math.min(...xs), Math.max(...xs)]).toEqual([1, 2]);
+        expect([Math.min(...ys), Math.max(...ys)]).toEqual([2.5, 3]);
+
+        // Positive shoelace area means counter-clockwise in world coordinates
+        expect(ringArea(ring.slice(0, 4))).toBeGreaterThan(0);
+
+        const start = geo.features.find(f => f.properties.kind === 'start')!;
+        expect(start.geometry.coordinates).toEqual([1.25, 2.25]);
+    });
+
+    it('writes an SVG path with start and goal markers', () => {
+        const svg = generateSVG(data, 2, 2, metadata);
+        expect(svg).toContain('viewBox="0 0 2 2"');
+        expect(svg.match(/<path /g)).toHaveLength(1);
+        expect(svg).toContain('<circle cx="0.5" cy="1.5"');
+        expect(svg).toContain('fill="#ef4444"');
+    });
+});
+
+describe('Flood Fill', () => {
+    // Two free pockets touching only at a corner
+    const grid = new Int8Array([
+        F, O, O,
+        O, F, O,
+        O, O, F
+    ]);
+
+    it('does not cross diagonal gaps with 4-connectivity', () => {
+        const filled = floodFill(grid, 3, 3, 0, 0, O, 4)!;
+        expect(Array.from(filled.filter(v => v === F))).toHaveLength(2);
+        expect(filled[0]).toBe(O);
+        expect(grid[0]).toBe(F); // input untouched
+    });
+
+    it('crosses diagonal gaps with 8-connectivity', () => {
+        const filled = floodFill(grid, 3, 3, 0, 0, O, 8)!;
+        expect(filled.every(v => v === O)).toBe(true);
+    });
+
+    it('returns null when nothing changes', () => {
+        expect(floodFill(grid, 3, 3, 1, 0, O)).toBeNull();
+        expect(floodFill(grid, 3, 3, 5, 0, O)).toBeNull();
+    });
+
+    it('fills large grids without recursion limits', () => {
+        const big = new Int8Array(2000 * 2000);
+        const filled = floodFill(big, 2000, 2000, 1000, 1000, O)!;
+        expect(filled.every(v => v === O)).toBe(true);
+    });
+});
+
+describe('Brush', () => {
+    it('builds square and round footprints', () => {
+        expect(brushFootprint({ radius: 0, shape: 'round' })).toHaveLength(1);
+        expect(brushFootprint({ radius: 1, shape: 'square' })).toHaveLength(9);
+        expect(brushFootprint({ radius: 1, shape: 'round' })).toHaveLength(5);
+        expect(brushFootprint({ radius: 2, shape: 'round' })).toHaveLength(13);
+    });
+
+    it('stamps along a stroke without duplicates and clips to the grid', () => {
+        const cells = stampBrush([{ x: 0, y: 0 }, { x: 1, y: 0 }], { radius: 1, shape: 'square' }, 5, 5);
+        // Columns 0-2, rows 0-1
+        expect(cells).toHaveLength(6);
+        expect(new Set(cells.map(c => `${c.x},${c.y}`)).size).toBe(6);
+    });
+});
+
+describe('Shape Rasterization', () => {
+    const key = (cells: { x: number, y: number }[]) => cells.map(c => `${c.x},${c.y}`).sort();
+
+    it('draws thin lines with bresenham and widens thick ones', () => {
+        expect(bresenham(0, 0, 3, 1)).toHaveLength(4);
+        expect(key(lineCells({ x: 0, y: 0 }, { x: 3, y: 1 }, 1, 10, 10))).toEqual(key(bresenham(0, 0, 3, 1)));
+        // Thickness 3 on a horizontal line covers three rows plus one round cap cell per end
+        expect(lineCells({ x: 1, y: 2 }, { x: 5, y: 2 }, 3, 10, 10)).toHaveLength(17);
+    });
+
+    it('fills polygons and draws open polylines', () => {
+        const square = [{ x: 1, y: 1 }, { x: 4, y: 1 }, { x: 4, y: 4 }, { x: 1, y: 4 }];
+        expect(polygonCells(square, true, { filled: true, strokeWidth: 1 }, 10, 10)).toHaveLength(16);
+        expect(polygonCells(square, true, { filled: false, strokeWidth: 1 }, 10, 10)).toHaveLength(12);
+        // Open polyline leaves out the closing edge (x = 1, y = 2..3)
+        expect(polygonCells(square, false, { filled: false, strokeWidth: 1 }, 10, 10)).toHaveLength(10);
+    });
+
+    it('draws rectangles and ellipses filled or as outlines', () => {
+        const box = { x: 0, y: 0, w: 5, h: 5 };
+        expect(rectCells(box, { filled: true, strokeWidth: 1 }, 10, 10)).toHaveLength(25);
+        expect(rectCells(box, { filled: false, strokeWidth: 1 }, 10, 10)).toHaveLength(16);
+        expect(rectCells(box, { filled: false, strokeWidth: 2 }, 10, 10)).toHaveLength(24);
+        // Only the part inside the grid
+        expect(rectCells({ x: -2, y: 8, w: 4, h: 4 }, { filled: true, strokeWidth: 1 }, 10, 10)).toEqual([
+            { x: 0, y: 8 }, { x: 1, y: 8 }, { x: 0, y: 9 }, { x: 1, y: 9 }
+        ]);
+
+        const disc = key(ellipseCells(box, { filled: true, strokeWidth: 1 }, 10, 10));
+        const ring = key(ellipseCells(box, { filled: false, strokeWidth: 1 }, 10, 10));
+        expect(disc).toContain('2,0');
+        expect(disc).not.toContain('0,0');
+        expect(disc).toContain('2,2');
+        expect(ring).not.toContain('2,2');
+        expect(ring.every(c => disc.includes(c))).toBe(true);
+    });
+});
+
+describe('Selection Regions', () => {
+    // 3x2 grid:
+    // 1 2 3
+    // 4 5 6
+    const grid = new Int8Array([1, 2, 3, 4, 5, 6]);
+
+    it('extracts, rotates and flips regions', () => {
+        const region = extractRegion(grid, 3, 2, { x: 1, y: 0, w: 5, h: 2 });
+        expect(region).toMatchObject({ width: 2, height: 2 });
+        expect(Array.from(region.data)).toEqual([2, 3, 5, 6]);
+
+        const full = { width: 3, height: 2, data: grid };
+        const cw = rotateRegion(full);
+        expect(cw).toMatchObject({ width: 2, height: 3 });
+        expect(Array.from(cw.data)).toEqual([4, 1, 5, 2, 6, 3]);
+        expect(Array.from(rotateRegion(cw, false).data)).toEqual(Array.from(grid));
+
+        expect(Array.from(flipRegion(full, 'horizontal').data)).toEqual([3, 2, 1, 6, 5, 4]);
+        expect(Array.from(flipRegion(full, 'vertical').data)).toEqual([4, 5, 6, 1, 2, 3]);
+    });
+
+    it('stamps regions clipped to the grid', () => {
+        const region = { width: 2, height: 2, data: new Int8Array([O, O, O, O]) };
+        const result = stampRegion(new Int8Array(6), 3, 2, region, 2, 1);
+        expect(Array.from(result)).toEqual([F, F, F, F, F, O]);
+    });
+
+    it('round-trips regions through the clipboard text', () => {
+        const region = { width: 3, height: 2, data: new Int8Array([O, F, -1, 50, O, F]) };
+        expect(parseRegion(serializeRegion(region))).toEqual(region);
+        expect(parseRegion('1,2,3')).toBeNull();
+        expect(parseRegion('{"format":"occupancy-editor-selection","width":2,"height":2,"data":[0]}')).toBeNull();
+    });
+});
+
+describe('Robot Footprint', () => {
+    it('covers the cells whose centers lie inside a circle', () => {
+        // 0.1 m radius at 0.05 m/cell: a radius-2 disc
+        expect(footprintCells({ kind: 'circle', radius: 0.1 }, { x: 5, y: 5 }, 0.05)).toHaveLength(13);
+        // Smaller than a cell still covers the pose cell
+        expect(footprintCells({ kind: 'circle', radius: 0.01 }, { x: 5, y: 5 }, 0.05)).toEqual([{ x: 5, y: 5 }]);
+    });
+
+    it('turns polygons with the heading', () => {
+        // 3 cells long (x forward), 1 cell wide, at 1 m/cell
+        const points = [{ x: 1.5, y: 0.5 }, { x: 1.5, y: -0.5 }, { x: -1.5, y: -0.5 }, { x: -1.5, y: 0.5 }];
+        const along = footprintCells({ kind: 'polygon', points }, { x: 2, y: 2, theta: 0 }, 1);
+        expect(along.map(c => `${c.x},${c.y}`).sort()).toEqual(['1,2', '2,2', '3,2']);
+        const up = footprintCells({ kind: 'polygon', points }, { x: 2, y: 2, theta: Math.PI / 2 }, 1);
+        expect(up.map(c => `${c.x},${c.y}`).sort()).toEqual(['2,1', '2,2', '2,3']);
+    });
+
+    it('collides with occupied and unknown cells and the map edge', () => {
+        const data = new Int8Array([
+            F, F, F, F,
+            F, F, F, U,
+            F, F, F, F,
+            O, F, F, F,
+        ]);
+        const circle = { kind: 'circle' as const, radius: 1 };
+        expect(footprintCollides(data, 4, 4, circle, { x: 1, y: 1 }, 1)).toBe(false);
+        expect(footprintCollides(data, 4, 4, circle, { x: 2, y: 1 }, 1)).toBe(true); // Unknown to the right
+        expect(footprintCollides(data, 4, 4, circle, { x: 1, y: 2 }, 1)).toBe(false);
+        expect(footprintCollides(data, 4, 4, circle, { x: 0, y: 1 }, 1)).toBe(true); // Off the left edge
+
+        const metadata = { resolution: 1, origin: { x: 0, y: 0, theta: 0 }, footprint: circle, start: { x: 1, y: 1 }, goal: { x: 0, y: 2 } };
+        expect(collidingPoses(data, 4, 4, metadata)).toEqual(['goal']);
+    });
+
+    it('parses polygon vertices', () => {
+        expect(parsePolygonText('0.3,0.2; 0.3,-0.2; -0.3,0')).toEqual([{ x: 0.3, y: 0.2 }, { x: 0.3, y: -0.2 }, { x: -0.3, y: 0 }]);
+        expect(parsePolygonText('0,0; 1,1')).toBeNull();
+        expect(parsePolygonText('0,0; 1,x; 2,2')).toBeNull();
+    });
+});
+
+describe('Path Planning', () => {
+    // Wall across the middle with a one-cell gap at x = 3
+    const wall = new Int8Array([
+        F, F, F, F, F,
+        F, F, F, F, F,
+        O, O, O, F, O,
+        F, F, F, F, F,
+        F, F, F, F, F,
+    ]);
+    const start = { x: 0, y: 0 };
+    const goal = { x: 0, y: 4 };
+    const plan = (data: Int8Array, options = {}) => planPath(data, 5, 5, start, goal, { ...DEFAULT_PLANNER_OPTIONS, ...options }, 1);
+
+    it('finds the same shortest length with A* and Dijkstra', () => {
+        const astar = plan(wall);
+        const dijkstra = plan(wall, { algorithm: 'dijkstra' });
+        expect(astar.path?.[0]).toEqual(start);
+        expect(astar.path?.at(-1)).toEqual(goal);
+        // Straight through the gap, since diagonals may not clip the wall
+        expect(astar.length).toBeCloseTo(6 + 2 * Math.SQRT2);
+        expect(dijkstra.length).toBeCloseTo(astar.length);
+        expect(astar.expanded).toBeLessThanOrEqual(dijkstra.expanded);
+    });
+
+    it('uses only orthogonal steps with 4-connectivity', () => {
+        const result = plan(wall, { connectivity: 4 });
+        expect(result.length).toBe(10);
+        result.path!.slice(1).forEach((c, i) => {
+            const prev = result.path![i];
+            expect(Math.abs(c.x - prev.x) + Math.abs(c.y - prev.y)).toBe(1);
+        });
+    });
+
+    it('does not cut the corners of blocked cells', () => {
+        const data = new Int8Array([
+            F, O,
+            O, F,
+        ]);
+        const result = planPath(data, 2, 2, { x: 0, y: 0 }, { x: 1, y: 1 }, DEFAULT_PLANNER_OPTIONS, 1);
+        expect(result.path).toBeNull();
+        expect(result.error).toBe('No path between start and goal');
+    });
+
+    it('treats unknown cells as blocked or free', () => {
+        const data = wall.slice();
+        data[13] = U;
+        expect(plan(data).path).toBeNull();
+        expect(plan(data, { unknownIsFree: true }).length).toBeCloseTo(6 + 2 * Math.SQRT2);
+    });
+
+    it('inflates obstacles by the robot radius', () => {
+        const mask = blockedMask(wall, 5, 5, false, 1);
+        expect(mask[13]).toBe(1); // The gap closes
+        expect(mask[7]).toBe(1); // Cells next to the wall
+        expect(mask[8]).toBe(0); // Diagonal neighbours are further than one cell
+        expect(mask[0]).toBe(0);
+        expect(plan(wall, { inflationRadius: 1 }).path).toBeNull();
+        expect(planPath(wall, 5, 5, start, goal, { ...DEFAULT_PLANNER_OPTIONS, inflationRadius: 0.5 }, 0.5).path).toBeNull();
+    });
+
+    it('reports unusable endpoints', () => {
+        expect(planPath(wall, 5, 5, { x: 0, y: 2 }, goal, DEFAULT_PLANNER_OPTIONS, 1).error).toBe('Start is blocked');
+        expect(planPath(wall, 5, 5, start, { x: 5, y: 0 }, DEFAULT_PLANNER_OPTIONS, 1).error).toBe('Goal is outside the map');
+    });
+});
+
+describe('Planner Comparison', () => {
+    // 20x20 room with a wall from the top down to y = 14 at x = 10
+    const size = 20;
+    const room = new Int8Array(size * size);
+    for (let y = 0; y < 15; y++) room[y * size + 10] = O;
+    const mask = blockedMask(room, size, size, false);
+    const start = { x: 2, y: 2 };
+    const goal = { x: 17, y: 2 };
+
+    it('checks line of sight, including through corners', () => {
+        expect(segmentFree(mask, size, size, { x: 2, y: 16 }, { x: 17, y: 16 })).toBe(true);
+        expect(segmentFree(mask, size, size, start, goal)).toBe(false);
+        const corner = new Uint8Array([0, 1, 1, 0]);
+        expect(segmentFree(corner, 2, 2, { x: 0, y: 0 }, { x: 1, y: 1 })).toBe(false);
+        expect(segmentFree(new Uint8Array(4), 2, 2, { x: 0, y: 0 }, { x: 1, y: 1 })).toBe(true);
+    });
+
+    it('finds optimal paths with Jump Point Search while expanding fewer nodes', () => {
+        const astar = planPath(room, size, size, start, goal, DEFAULT_PLANNER_OPTIONS, 1);
+        const jps = jumpPointSearch(mask, size, size, start, goal);
+        expect(jps.path?.[0]).toEqual(start);
+        expect(jps.path?.at(-1)).toEqual(goal);
+        expect(pathLength(jps.path!)).toBeCloseTo(astar.length);
+        expect(jps.expanded).toBeLessThan(astar.expanded);
+        // Consecutive cells are neighbours and free
+        jps.path!.slice(1).forEach((c, i) => {
+            expect(Math.max(Math.abs(c.x - jps.path![i].x), Math.abs(c.y - jps.path![i].y))).toBe(1);
+            expect(mask[c.y * size + c.x]).toBe(0);
+        });
+    });
+
+    it('prunes Jump Point Search to a few jump points on an open map', () => {
+        const open = new Uint8Array(30 * 30);
+        const from = { x: 2, y: 3 };
+        const to = { x: 27, y: 20 };
+        const astar = planPath(new Int8Array(30 * 30), 30, 30, from, to, DEFAULT_PLANNER_OPTIONS, 1);
+        const jps = jumpPointSearch(open, 30, 30, from, to);
+        expect(pathLength(jps.path!)).toBeCloseTo(astar.length);
+        expect(jps.expanded).toBeLessThanOrEqual(3);
+        expect(jps.expanded).toBeLessThan(astar.expanded);
+    });
+
+    it('expands under half the nodes of A* with Jump Point Search on sparse maps', () => {
+        for (const seed of [1, 2, 3, 4]) {
+            const random = seededRandom(seed);
+            const data = new Int8Array(40 * 40).map(() => random() < 0.1 ? O : F);
+            const from = { x: 1, y: 1 };
+            const to = { x: 38, y: 30 };
+            data[from.y * 40 + from.x] = F;
+            data[to.y * 40 + to.x] = F;
+            const astar = planPath(data, 40, 40, from, to, DEFAULT_PLANNER_OPTIONS, 1);
+            const jps = jumpPointSearch(blockedMask(data, 40, 40, false), 40, 40, from, to);
+            expect(jps.expanded).toBeLessThan(astar.expanded / 2);
+        }
+    });
+
+    it('matches A* path lengths with Jump Point Search on cluttered maps', () => {
+        const random = seededRandom(3);
+        for (let trial = 0; trial < 20; trial++) {
+            const data = new Int8Array(size * size).map(() => random() < 0.3 ? O : F);
+            const cells = () => ({ x: Math.floor(random() * size), y: Math.floor(random() * size) });
+            const from = cells();
+            const to = cells();
+            data[from.y * size + from.x] = F;
+            data[to.y * size + to.x] = F;
+            const astar = planPath(data, size, size, from, to, DEFAULT_PLANNER_OPTIONS, 1);
+            const jps = jumpPointSearch(blockedMask(data, size, size, false), size, size, from, to);
+            expect(jps.path === null).toBe(astar.path === null);
+            if (jps.path) expect(pathLength(jps.path)).toBeCloseTo(astar.length);
+        }
+    });
+
+    it('shortens paths with Theta* line of sight', () => {
+        const astar = planPath(room, size, size, start, goal, DEFAULT_PLANNER_OPTIONS, 1);
+        const theta = thetaStar(mask, size, size, start, goal);
+        expect(pathLength(theta.path!)).toBeLessThan(astar.length);
+        theta.path!.slice(1).forEach((c, i) => expect(segmentFree(mask, size, size, theta.path![i], c)).toBe(true));
+        expect(thetaStar(new Uint8Array(25), 5, 5, { x: 0, y: 0 }, { x: 4, y: 3 }).path).toEqual([{ x: 0, y: 0 }, { x: 4, y: 3 }]);
+    });
+
+    it('reproduces RRT* runs from the seed', () => {
+        const a = rrtStar(mask, size, size, start, goal, 7, 1500, 3);
+        const b = rrtStar(mask, size, size, start, goal, 7, 1500, 3);
+        expect(a.path).not.toBeNull();
+        expect(a.path).toEqual(b.path);
+        expect(a.path?.at(-1)).toEqual(goal);
+        a.path!.slice(1).forEach((c, i) => expect(segmentFree(mask, size, size, a.path![i], c)).toBe(true));
+        expect(rrtStar(mask, size, size, start, goal, 7, 10, 3).path).toBeNull();
+    });
+
+    it('measures clearance to the nearest blocked cell', () => {
+        const field = distanceField(mask, size, size);
+        expect(field[2 * size + 10]).toBe(0);
+        expect(field[2 * size + 7]).toBe(3);
+        expect(field[17 * size + 10]).toBeCloseTo(Math.hypot(0, 3));
+        expect(pathClearance(field, size, size, [{ x: 5, y: 5 }, { x: 5, y: 10 }])).toBe(4.5);
+        expect(distanceField(new Uint8Array(4), 2, 2)[0]).toBe(Infinity);
+    });
+
+    it('draws every planner and the preview path in its own color', () => {
+        const colors = [...BENCHMARK_PLANNERS.map(p => p.color), PREVIEW_PATH_COLOR];
+        expect(new Set(colors).size).toBe(colors.length);
+    });
+
+    it('runs the selected planners and exports the table', () => {
+        const runs = runBenchmark(room, size, size, start, goal, DEFAULT_BENCHMARK_OPTIONS, 0.5);
+        expect(runs.map(r => r.planner)).toEqual(['astar', 'dijkstra', 'jps', 'thetastar', 'rrtstar']);
+        runs.forEach(r => expect(r.path).not.toBeNull());
+        expect(runs[0].length).toBeCloseTo(runs[2].length);
+
+        const csv = benchmarkToCSV(runs, 0.5).trim().split('\n');
+        expect(csv[0]).toBe('planner,found,length_cells,length_m,expanded,runtime_ms,min_clearance_cells,min_clearance_m');
+        expect(csv).toHaveLength(6);
+        expect(csv[1].split(',').slice(0, 4)).toEqual(['A*', 'true', runs[0].length.toFixed(3), (runs[0].length / 2).toFixed(3)]);
+
+        const blocked = runBenchmark(room, size, size, { x: 10, y: 0 }, goal, { ...DEFAULT_BENCHMARK_OPTIONS, planners: ['jps'] }, 0.5);
+        expect(blocked[0].error).toBe('Start is blocked');
+        expect(benchmarkToCSV(blocked, 0.5).split('\n')[1]).toBe('Jump Point Search,false,,,0,' + blocked[0].runtime.toFixed(2) + ',,');
+    });
+});
@@ -0,0 +1,73 @@
+import { type GridData, type GridMetadata, CELL_OCCUPIED } from '../types';
+
+export interface CellRect {
+    x: number;
+    y: number;
+    w: number;
+    h: number;
+}
+
+/**
+ * Greedily merges occupied cells into non-overlapping rectangles.
+ * Each rectangle grows right as far as possible, then down while the whole row span is occupied.
+ * Far fewer primitives than one per cell, which matters for simulators and meshes.
+ */
+export function mergeOccupiedRects(data: GridData, width: number, height: number): CellRect[] {
+    const used = new Uint8Array(width * height);
+    const rects: CellRect[] = [];
+    const solid = (i: number) => data[i] === CELL_OCCUPIED && !used[i];
+
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            if (!solid(y * width + x)) continue;
+
+            let w = 1;
+            while (x + w < width && solid(y * width + x + w)) w++;
+
+            let h = 1;
+            grow: while (y + h < height) {
+                for (let dx = 0; dx < w; dx++) {
+                    if (!solid((y + h) * width + x + dx)) break grow;
+                }
+                h++;
+            }
+
+            for (let dy = 0; dy < h; dy++) {
+                used.fill(1, (y + dy) * width + x, (y + dy) * width + x + w);
+            }
+            rects.push({ x, y, w, h });
+        }
+    }
+
+    return rects;
+}
+
+/**
+ * Converts a point in grid coordinates (cells, x right, y down from the top-left corner)
+ * to world meters, the same way map_server places the image:
+ * the bottom-left corner of the grid sits at the origin, rotated by origin.theta.
+ */
+export function gridToWorld(gx: number, gy: number, height: number, metadata: GridMetadata): { x: number, y: number } {
+    const mx = gx * metadata.resolution;
+    const my = (height - gy) * metadata.resolution;
+    const cos = Math.cos(metadata.origin.theta);
+    const sin = Math.sin(metadata.origin.theta);
+    return {
+        x: metadata.origin.x + mx * cos - my * sin,
+        y: metadata.origin.y + mx * sin + my * cos
+    };
+}
+
+/**
+ * Inverse of gridToWorld: world meters to fractional grid coordinates.
+ */
+export function worldToGrid(wx: number, wy: number, height: number, metadata: GridMetadata): { x: number, y: number } {
+    const dx = wx - metadata.origin.x;
+    const dy = wy - metadata.origin.y;
+    const cos = Math.cos(metadata.origin.theta);
+    const sin = Math.sin(metadata.origin.theta);
+    return {
+        x: (dx * cos + dy * sin) / metadata.resolution,
+        y: height - (-dx * sin + dy * cos) / metadata.resolution
+    };
+}
@@ -0,0 +1,89 @@
+import type { GridData } from '../types';
+import { MAX_GRID_SIZE, type GridEncoding } from './validators';
+
+/**
+ * Base64 for binary payloads embedded in JSON. Works in chunks so large grids do not
+ * overflow the argument limit of String.fromCharCode.
+ */
+export function bytesToBase64(bytes: Uint8Array): string {
+    let binary = '';
+    const CHUNK = 0x8000;
+    for (let i = 0; i < bytes.length; i += CHUNK) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + CHUNK));
+    }
+    return btoa(binary);
+}
+
+export function base64ToBytes(base64: string): Uint8Array {
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return bytes;
+}
+
+export function encodeRLE(data: GridData): number[] {
+    const runs: number[] = [];
+    let i = 0;
+    while (i < data.length) {
+        const value = data[i];
+        let count = 1;
+        while (i + count < data.length && data[i + count] === value) count++;
+        runs.push(value, count);
+        i += count;
+    }
+    return runs;
+}
+
+export function decodeRLE(runs: number[], length: number): Int8Array {
+    if (runs.length % 2 !== 0) throw new Error('RLE data must contain [value, count] pairs');
+    const data = new Int8Array(length);
+    let offset = 0;
+    for (let i = 0; i < runs.length; i += 2) {
+        const count = runs[i + 1];
+        if (!Number.isInteger(count) || count < 0 || offset + count > length) {
+            throw new Error(`RLE data does not match the grid size (${length} cells)`);
+        }
+        data.fill(runs[i], offset, offset + count);
+        offset += count;
+    }
+    if (offset !== length) throw new Error(`RLE data covers ${offset} of ${length} cells`);
+    return data;
+}
+
+// zlib streams via the native Compression Streams API
+async function pipeBytes(bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+    const output = new Response(bytes).body!.pipeThrough(stream);
+    return new Uint8Array(await new Response(output).arrayBuffer());
+}
+
+export const deflateBytes = (bytes: Uint8Array) => pipeBytes(bytes, new CompressionStream('deflate'));
+export const inflateBytes = (bytes: Uint8Array) => pipeBytes(bytes, new DecompressionStream('deflate'));
+
+export async function encodeGridData(data: GridData, encoding: GridEncoding): Promise<number[] | string> {
+    if (encoding === 'rle') return encodeRLE(data);
+    if (encoding === 'base64+deflate') {
+        return bytesToBase64(await deflateBytes(new Uint8Array(data.buffer, data.byteOffset, data.length)));
+    }
+    return Array.from(data);
+}
+
+/**
+ * Decodes the `data` field of a JSON grid. A missing encoding means a plain array.
+ */
+export async function decodeGridData(data: number[] | string, encoding: GridEncoding | undefined, width: number, height: number): Promise<Int8Array> {
+    // Bound the header first so a forged size fails before anything is allocated
+    if (!Number.isInteger(width) || !Number.isInteger(height) || width <= 0 || height <= 0 || width > MAX_GRID_SIZE || height > MAX_GRID_SIZE) {
+        throw new Error(`Grid size ${width} x ${height} is invalid (max ${MAX_GRID_SIZE})`);
+    }
+    const length = width * height;
+    if (encoding === 'base64+deflate') {
+        if (typeof data !== 'string') throw new Error('base64+deflate data must be a string');
+        const bytes = await inflateBytes(base64ToBytes(data));
+        if (bytes.length !== length) throw new Error(`Compressed data has ${bytes.length} cells, expected ${length}`);
+        return new Int8Array(bytes.buffer, bytes.byteOffset, bytes.length);
+    }
+    if (typeof data === 'string') throw new Error(`${encoding ?? 'raw'} data must be an array`);
+    if (encoding === 'rle') return decodeRLE(data, length);
+    if (data.length !== length) throw new Error(`Data has ${data.length} cells, expected ${length}`);
+    return new Int8Array(data);
+}
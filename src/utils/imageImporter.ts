@@ -0,0 +1,180 @@
+import { type GridData, type GridMetadata, type GridState, CELL_OCCUPIED, CELL_FREE, CELL_UNKNOWN } from '../types';
+import { PNG_MARKER_KEYWORD, PNG_PALETTE, grayOccupancy } from './exportUtils';
+import { readPNGText } from './pngText';
+import { MAX_GRID_SIZE } from './validators';
+
+/**
+ * Decoded RGBA pixels. Structurally compatible with the DOM ImageData.
+ */
+export interface RasterImage {
+    width: number;
+    height: number;
+    data: Uint8ClampedArray;
+}
+
+export interface ImageImportOptions {
+    occupiedThreshold: number; // Luminance (0-255) at or below which a cell is occupied
+    freeThreshold: number; // Luminance at or above which a cell is free
+    invert: boolean; // Swap dark and light before thresholding
+    pixelSize: number; // Meters per image pixel
+    resolution: number; // Meters per grid cell
+}
+
+export const DEFAULT_IMAGE_IMPORT_OPTIONS: ImageImportOptions = {
+    occupiedThreshold: 90,
+    freeThreshold: 200,
+    invert: false,
+    pixelSize: 0.05,
+    resolution: 0.05
+};
+
+/**
+ * Decodes any image format the browser understands (PNG, JPG, BMP, ...) into RGBA pixels.
+ */
+export async function decodeImage(blob: Blob): Promise<RasterImage> {
+    const bitmap = await createImageBitmap(blob);
+    const canvas = document.createElement('canvas');
+    canvas.width = bitmap.width;
+    canvas.height = bitmap.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not get canvas context');
+
+    ctx.drawImage(bitmap, 0, 0);
+    bitmap.close();
+    return ctx.getImageData(0, 0, canvas.width, canvas.height);
+}
+
+// Gray level of an opaque pixel with R = G = B, or -1 for any other color
+const grayLevel = (px: number): number => {
+    const r = px & 0xFF;
+    return px >>> 24 === 0xFF && ((px >> 8) & 0xFF) === r && ((px >> 16) & 0xFF) === r ? r : -1;
+};
+
+/**
+ * Returns true if every pixel uses one of the generatePNG colors, including the grays of
+ * probabilities 1-99. Black and white scans pass this too, so it only confirms a file that
+ * already carries the export marker (editorPNGMarker).
+ */
+export function isEditorPNG(image: RasterImage): boolean {
+    const buf = new Uint32Array(image.data.buffer, image.data.byteOffset, image.width * image.height);
+    const allowed = new Set(Object.values(PNG_PALETTE));
+    let markers = 0;
+
+    for (let i = 0; i < buf.length; i++) {
+        if (!allowed.has(buf[i]) && grayLevel(buf[i]) < 0) return false;
+        if (buf[i] === PNG_PALETTE.start || buf[i] === PNG_PALETTE.goal) markers++;
+    }
+    // generatePNG draws at most one start and one goal pixel
+    return markers <= 2;
+}
+
+/**
+ * Resolution stored in the tEXt marker of a generatePNG export, or null if the file has no
+ * (valid) marker and should go through the import dialog.
+ */
+export function editorPNGMarker(bytes: Uint8Array): { resolution: number } | null {
+    const text = readPNGText(bytes)[PNG_MARKER_KEYWORD];
+    if (text === undefined) return null;
+    try {
+        const { resolution } = JSON.parse(text);
+        return typeof resolution === 'number' && resolution > 0 ? { resolution } : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Reads a generatePNG export back cell-for-cell, including the start and goal markers.
+ */
+export function editorPNGToGrid(image: RasterImage, resolution: number = 0.05): GridState {
+    const { width, height } = image;
+    const buf = new Uint32Array(image.data.buffer, image.data.byteOffset, width * height);
+    const data = new Int8Array(width * height);
+    const metadata: GridMetadata = {
+        resolution,
+        origin: { x: 0, y: 0, theta: 0 }
+    };
+
+    for (let i = 0; i < buf.length; i++) {
+        const px = buf[i];
+        if (px === PNG_PALETTE.occupied) {
+            data[i] = CELL_OCCUPIED;
+        } else if (px === PNG_PALETTE.unknown) {
+            data[i] = CELL_UNKNOWN;
+        } else if (grayLevel(px) >= 0) {
+            // White is free, other grays are probabilities
+            data[i] = grayOccupancy(grayLevel(px));
+        } else {
+            // Start and goal are drawn over (presumably) free cells
+            data[i] = CELL_FREE;
+            if (px === PNG_PALETTE.start) metadata.start = { x: i % width, y: Math.floor(i / width) };
+            if (px === PNG_PALETTE.goal) metadata.goal = { x: i % width, y: Math.floor(i / width) };
+        }
+    }
+
+    return { width, height, data, metadata };
+}
+
+/**
+ * Grid size rasterToGrid produces for an image at the given pixel size and resolution.
+ */
+export function rasterGridSize(image: { width: number, height: number }, options: Pick<ImageImportOptions, 'pixelSize' | 'resolution'>): { width: number, height: number } {
+    const scale = options.pixelSize / options.resolution; // Cells per pixel
+    return {
+        width: Math.max(1, Math.round(image.width * scale)),
+        height: Math.max(1, Math.round(image.height * scale))
+    };
+}
+
+/**
+ * Thresholds an arbitrary image into an occupancy grid.
+ * The image is resampled from `pixelSize` to `resolution` by averaging each cell's pixels.
+ * Mostly transparent cells become unknown.
+ */
+export function rasterToGrid(image: RasterImage, options: ImageImportOptions): { width: number, height: number, data: GridData } {
+    const { width, height } = rasterGridSize(image, options);
+    if (width > MAX_GRID_SIZE || height > MAX_GRID_SIZE) {
+        throw new Error(`Image would be ${width} x ${height} cells (max ${MAX_GRID_SIZE}). Increase the grid resolution or decrease the pixel size.`);
+    }
+    const data = new Int8Array(width * height);
+    const src = image.data;
+
+    for (let cy = 0; cy < height; cy++) {
+        const y0 = Math.floor((cy * image.height) / height);
+        const y1 = Math.max(y0 + 1, Math.floor(((cy + 1) * image.height) / height));
+
+        for (let cx = 0; cx < width; cx++) {
+            const x0 = Math.floor((cx * image.width) / width);
+            const x1 = Math.max(x0 + 1, Math.floor(((cx + 1) * image.width) / width));
+
+            let lum = 0;
+            let alpha = 0;
+            for (let y = y0; y < y1; y++) {
+                for (let x = x0; x < x1; x++) {
+                    const o = (y * image.width + x) * 4;
+                    // Rec. 601 luma
+                    lum += 0.299 * src[o] + 0.587 * src[o + 1] + 0.114 * src[o + 2];
+                    alpha += src[o + 3];
+                }
+            }
+            const n = (y1 - y0) * (x1 - x0);
+            lum /= n;
+            alpha /= n;
+            if (options.invert) lum = 255 - lum;
+
+            let val: number;
+            if (alpha < 128) {
+                val = CELL_UNKNOWN;
+            } else if (lum <= options.occupiedThreshold) {
+                val = CELL_OCCUPIED;
+            } else if (lum >= options.freeThreshold) {
+                val = CELL_FREE;
+            } else {
+                val = CELL_UNKNOWN;
+            }
+            data[cy * width + cx] = val;
+        }
+    }
+
+    return { width, height, data };
+}
@@ -0,0 +1,323 @@
+import type { GridMetadata, GridState, ImportSource, Pose } from '../types';
+import type { RasterImage } from './imageImporter';
+import type { Drawing } from './vectorImporter';
+import type { ProjectSession } from './projectFile';
+import type { ParsedCSV } from './csvParser';
+import { MAX_GRID_SIZE, PROJECT_FORMAT, type GridImportType } from './validators';
+
+export type ImportFormat =
+    | 'project'
+    | 'json'
+    | 'rosmsg'
+    | 'csv'
+    | 'npy'
+    | 'zip'
+    | 'ros-yaml'
+    | 'ros-poses'
+    | 'pgm'
+    | 'movingai-map'
+    | 'movingai-scen'
+    | 'image'
+    | 'dxf'
+    | 'svg';
+
+// A source with the format detectFormat found for it
+export interface DetectedSource {
+    source: ImportSource;
+    format: ImportFormat | null;
+}
+
+/**
+ * What an import produced: a grid to load, a whole session, or input that still needs
+ * settings from one of the import dialogs.
+ */
+export type ImportResult =
+    | { kind: 'grid', grid: GridState }
+    | { kind: 'project', session: ProjectSession }
+    | { kind: 'image', image: RasterImage, name: string }
+    | { kind: 'drawing', drawing: Drawing, name: string };
+
+const SUPPORTED_FORMATS = 'project (.occproj), JSON, CSV, OccupancyGrid message, ROS map (.zip or .yaml + .pgm), ' +
+    'NumPy (.npy/.npz), MovingAI (.map/.scen), images (PNG, JPG, BMP, GIF, WebP) and floor plans (DXF, SVG)';
+
+export async function readImportSource(file: File): Promise<ImportSource> {
+    return { name: file.name, bytes: new Uint8Array(await file.arrayBuffer()) };
+}
+
+export function textImportSource(text: string, name: string = 'clipboard'): ImportSource {
+    return { name, bytes: new TextEncoder().encode(text) };
+}
+
+const startsWith = (bytes: Uint8Array, signature: number[], offset = 0) =>
+    signature.every((b, i) => bytes[offset + i] === b);
+
+const ascii = (s: string) => Array.from(s, c => c.charCodeAt(0));
+
+// Lines of comma-separated integers, with optional # comments (see parseCSV). A single number
+// or row (e.g. a stray paste) only counts with the # start/goal header our exports write.
+const isCSV = (text: string) => {
+    const lines = text.split(/\r?\n/).map(l => l.trim()).filter(l => l);
+    const rows = lines.filter(l => !l.startsWith('#'));
+    if (rows.length === 0 || !rows.every(l => /^-?\d+(\s*,\s*-?\d+)*$/.test(l))) return false;
+    const hasHeader = lines.some(l => /^#\s*(start|goal)\s*,/.test(l));
+    const width = rows[0].split(',').length;
+    return hasHeader || (rows.length >= 2 && rows.every(l => l.split(',').length === width));
+};
+
+/**
+ * Identifies the format of a file from its content (magic bytes, then text structure).
+ * The extension only breaks ties, e.g. plain grid JSON saved as .occproj is an old project.
+ * Returns null when nothing matches.
+ */
+export function detectFormat(source: ImportSource): ImportFormat | null {
+    const { bytes } = source;
+    const name = source.name.toLowerCase();
+
+    // Binary formats
+    if (startsWith(bytes, [0x93, ...ascii('NUMPY')])) return 'npy';
+    if (startsWith(bytes, ascii('PK\x03\x04')) || startsWith(bytes, ascii('PK\x05\x06'))) return 'zip';
+    if (startsWith(bytes, [0x89, ...ascii('PNG')])
+        || startsWith(bytes, [0xFF, 0xD8, 0xFF])
+        || startsWith(bytes, ascii('GIF8'))
+        || startsWith(bytes, ascii('BM'))
+        || (startsWith(bytes, ascii('RIFF')) && startsWith(bytes, ascii('WEBP'), 8))) {
+        return 'image';
+    }
+    if (/^P[25]\s/.test(String.fromCharCode(...bytes.subarray(0, 3)))) return 'pgm';
+
+    // Text formats
+    const text = new TextDecoder().decode(bytes).replace(/^\uFEFF/, '').trim();
+
+    if (text.startsWith('{')) {
+        let json: unknown;
+        try {
+            json = JSON.parse(text);
+        } catch {
+            return null;
+        }
+        // Only the top-level keys matter here; the schemas validate the rest on import
+        if (typeof json !== 'object' || json === null) return null;
+        if (('format' in json && json.format === PROJECT_FORMAT) || name.endsWith('.occproj')) return 'project';
+        if ('info' in json && 'data' in json) return 'rosmsg';
+        if ('width' in json && 'data' in json) return 'json';
+        return null;
+    }
+    if (text.startsWith('<') && /<svg[\s>]/.test(text)) return 'svg';
+    if (/^0\s*\r?\n\s*SECTION\b/.test(text) || /^999\s*\r?\n/.test(text)) return 'dxf';
+    if (/^type\s+\w+/.test(text)) return 'movingai-map';
+    if (/^version\s+\d/.test(text)) return 'movingai-scen';
+    if (/^\s*image\s*:/m.test(text) && /^\s*resolution\s*:/m.test(text)) return 'ros-yaml';
+    if (/^(start|goal|waypoints)\s*:/m.test(text) && /\.ya?ml$/.test(name)) return 'ros-poses';
+    if (isCSV(text)) return 'csv';
+
+    return null;
+}
+
+const displayToInternalFor = (width: number, height: number) => {
+    const centerX = Math.floor(width / 2);
+    const centerY = Math.floor(height / 2);
+    return (dx: number, dy: number) => ({
+        x: dx + centerX,
+        y: dy + centerY
+    });
+};
+
+/**
+ * CSV exports store start/goal in DISPLAY coordinates (center-based, (0,0) at center),
+ * with the goal and waypoints relative to the start. Converts them to INTERNAL coordinates
+ * (0-based, top-left origin); headings and names carry over unchanged.
+ */
+function csvToGrid(parsed: ParsedCSV): GridState {
+    const displayToInternal = displayToInternalFor(parsed.width, parsed.height);
+    const adjustedMetadata = { ...parsed.metadata };
+
+    // If no start in CSV, set it to center (display 0,0)
+    adjustedMetadata.start = parsed.metadata.start
+        ? { ...parsed.metadata.start, ...displayToInternal(parsed.metadata.start.x, parsed.metadata.start.y) }
+        : displayToInternal(0, 0);
+
+    // If start is at display (0,0), goal at display (gx,gy) means absolute display (gx,gy)
+    const startDisplay = parsed.metadata.start || { x: 0, y: 0 };
+    const fromStart = <P extends Pose>(p: P): P => ({ ...p, ...displayToInternal(startDisplay.x + p.x, startDisplay.y + p.y) });
+    if (parsed.metadata.goal) {
+        adjustedMetadata.goal = fromStart(parsed.metadata.goal);
+    }
+    if (parsed.metadata.waypoints) {
+        adjustedMetadata.waypoints = parsed.metadata.waypoints.map(fromStart);
+    }
+
+    return { width: parsed.width, height: parsed.height, data: parsed.data, metadata: adjustedMetadata };
+}
+
+/**
+ * JSON exports may have start/goal in internal coordinates (the original format) or in
+ * display coordinates. Points outside the grid bounds are taken as display coordinates.
+ */
+async function jsonToGrid(parsed: GridImportType): Promise<GridState> {
+    const { decodeGridData } = await import('./gridEncoding');
+    const parsedMeta = parsed.metadata as GridMetadata;
+    const adjustedMetadata: GridMetadata = { ...parsedMeta };
+    const { width, height } = parsed;
+    const centerX = Math.floor(width / 2);
+    const centerY = Math.floor(height / 2);
+    const displayToInternal = displayToInternalFor(width, height);
+    const outside = (p: { x: number, y: number }) => p.x < 0 || p.x >= width || p.y < 0 || p.y >= height;
+
+    if (parsedMeta.start) {
+        adjustedMetadata.start = outside(parsedMeta.start)
+            ? { ...parsedMeta.start, ...displayToInternal(parsedMeta.start.x, parsedMeta.start.y) }
+            : parsedMeta.start;
+    } else {
+        // If no start in JSON, set it to center (display 0,0)
+        adjustedMetadata.start = { x: centerX, y: centerY };
+    }
+
+    // Goal and waypoints outside the grid are relative to the start in display coordinates
+    const startDisplay = parsedMeta.start
+        ? (outside(parsedMeta.start) ? parsedMeta.start : { x: parsedMeta.start.x - centerX, y: parsedMeta.start.y - centerY })
+        : { x: 0, y: 0 };
+    const fromStart = <P extends Pose>(p: P): P => outside(p)
+        ? { ...p, ...displayToInternal(startDisplay.x + p.x, startDisplay.y + p.y) }
+        : p;
+    if (parsedMeta.goal) {
+        adjustedMetadata.goal = fromStart(parsedMeta.goal);
+    }
+    if (parsedMeta.waypoints) {
+        adjustedMetadata.waypoints = parsedMeta.waypoints.map(fromStart);
+    }
+
+    // Decode the data field (plain number[], RLE runs or compressed base64) back to Int8Array
+    const data = await decodeGridData(parsed.data, parsed.encoding, width, height);
+    return { width, height, data, metadata: adjustedMetadata };
+}
+
+// MovingAI benchmarks: a .map, optionally with its .scen, or a .scen for the current map
+async function importMovingAI(mapSource: ImportSource | undefined, scenSource: ImportSource | undefined, current: GridState): Promise<GridState> {
+    const { parseMovingAIMap, parseMovingAIScen } = await import('./movingAI');
+    const decoder = new TextDecoder();
+
+    const grid = mapSource
+        ? parseMovingAIMap(decoder.decode(mapSource.bytes), current.metadata.resolution)
+        : { ...current };
+
+    if (scenSource) {
+        const scen = parseMovingAIScen(decoder.decode(scenSource.bytes));
+        if (scen.mapWidth !== grid.width || scen.mapHeight !== grid.height) {
+            throw new Error(`Scenarios are for a ${scen.mapWidth}x${scen.mapHeight} map, but the map is ${grid.width}x${grid.height}`);
+        }
+        // The first scenario becomes the editable start/goal
+        grid.metadata = {
+            ...grid.metadata,
+            scenarios: scen.scenarios,
+            start: scen.scenarios[0].start,
+            goal: scen.scenarios[0].goal,
+            activeScenario: 0
+        };
+    }
+
+    return grid;
+}
+
+// Zip archives: NumPy .npz bundles, ROS map exports or MovingAI bundles, told apart by their entries
+async function importZip(source: ImportSource, current: GridState): Promise<GridState> {
+    const JSZip = (await import('jszip')).default;
+    const zip = await JSZip.loadAsync(source.bytes);
+    const entries = Object.values(zip.files).filter(f => !f.dir);
+    const has = (pattern: RegExp) => entries.find(f => pattern.test(f.name));
+
+    if (has(/\.ya?ml$/i)) {
+        const { parseROSZip } = await import('./rosImporter');
+        return parseROSZip(source.bytes.slice().buffer);
+    }
+    if (has(/\.npy$/i)) {
+        const { parseNPZ } = await import('./numpyUtils');
+        return parseNPZ(source.bytes.slice().buffer, current.metadata.resolution);
+    }
+
+    const mapEntry = has(/\.map$/i);
+    if (mapEntry) {
+        const scenEntry = has(/\.scen$/i);
+        return importMovingAI(
+            { name: mapEntry.name, bytes: await mapEntry.async('uint8array') },
+            scenEntry && { name: scenEntry.name, bytes: await scenEntry.async('uint8array') },
+            current
+        );
+    }
+
+    throw new Error(`Zip archive ${source.name} contains no map YAML, .npy arrays or MovingAI map`);
+}
+
+/**
+ * Imports one or more files (or pasted content) by sniffing their formats. Loose ROS map
+ * files (YAML + image) and MovingAI .map/.scen pairs are combined; otherwise the first
+ * file is imported. `current` supplies the default resolution and the map for a lone .scen.
+ */
+export async function importSources(sources: ImportSource[], current: GridState): Promise<ImportResult> {
+    if (sources.length === 0) throw new Error('Nothing to import');
+
+    const detected: DetectedSource[] = sources.map(source => ({ source, format: detectFormat(source) }));
+    const unknown = detected.find(d => d.format === null);
+    if (unknown) {
+        throw new Error(`Unrecognized format: ${unknown.source.name}. Supported formats are ${SUPPORTED_FORMATS}.`);
+    }
+
+    const find = (...formats: ImportFormat[]) => detected.find(d => formats.includes(d.format!))?.source;
+    const resolution = current.metadata.resolution;
+
+    // Multi-file formats
+    if (find('ros-yaml', 'pgm')) {
+        const { parseROSFiles } = await import('./rosImporter');
+        return { kind: 'grid', grid: await parseROSFiles(detected, resolution) };
+    }
+    if (find('movingai-map', 'movingai-scen')) {
+        return { kind: 'grid', grid: await importMovingAI(find('movingai-map'), find('movingai-scen'), current) };
+    }
+
+    const { source, format } = detected[0];
+    const text = () => new TextDecoder().decode(source.bytes);
+
+    switch (format) {
+        case 'project': {
+            const { parseProject } = await import('./projectFile');
+            return { kind: 'project', session: parseProject(text()) };
+        }
+        case 'npy': {
+            const { parseNPY } = await import('./numpyUtils');
+            return { kind: 'grid', grid: parseNPY(source.bytes, resolution) };
+        }
+        case 'ros-poses':
+            throw new Error(`${source.name} holds poses only; import it together with its map YAML and image`);
+        case 'zip':
+            return { kind: 'grid', grid: await importZip(source, current) };
+        case 'image': {
+            // Our own marked PNG exports load directly, anything else goes through the dialog
+            const { decodeImage, isEditorPNG, editorPNGMarker, editorPNGToGrid } = await import('./imageImporter');
+            const image = await decodeImage(new Blob([source.bytes]));
+            const marker = editorPNGMarker(source.bytes);
+            return marker && isEditorPNG(image) && image.width <= MAX_GRID_SIZE && image.height <= MAX_GRID_SIZE
+                ? { kind: 'grid', grid: editorPNGToGrid(image, marker.resolution) }
+                : { kind: 'image', image, name: source.name };
+        }
+        case 'dxf':
+        case 'svg': {
+            // Floor plans are rasterized once the user picks scale and resolution
+            const { parseDXF, parseSVGDrawing } = await import('./vectorImporter');
+            const drawing = format === 'dxf' ? parseDXF(text()) : parseSVGDrawing(text());
+            if (drawing.segments.length === 0) throw new Error('Drawing contains no supported entities');
+            return { kind: 'drawing', drawing, name: source.name };
+        }
+        case 'csv': {
+            const { parseCSV } = await import('./csvParser');
+            return { kind: 'grid', grid: csvToGrid(parseCSV(text(), resolution)) };
+        }
+        case 'rosmsg': {
+            // nav_msgs/OccupancyGrid messages carry their geometry in `info`
+            const { parseOccupancyGridMessage } = await import('./occupancyGridMsg');
+            return { kind: 'grid', grid: parseOccupancyGridMessage(JSON.parse(text())) };
+        }
+        default: {
+            const { GridImportSchema } = await import('./validators');
+            return { kind: 'grid', grid: await jsonToGrid(GridImportSchema.parse(JSON.parse(text()))) };
+        }
+    }
+}
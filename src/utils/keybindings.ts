@@ -0,0 +1,155 @@
+import { z } from 'zod';
+import { TOOLS, type Tool } from '../types';
+
+export type ActionId =
+    | `tool.${Tool}`
+    | 'undo'
+    | 'redo'
+    | 'zoomIn'
+    | 'zoomOut'
+    | 'zoomFit'
+    | 'toggleRelativeCoords'
+    | 'export'
+    | 'selection.commit'
+    | 'selection.cancel'
+    | 'selection.clear'
+    | 'help';
+
+export interface ActionInfo {
+    id: ActionId;
+    label: string;
+    group: 'Tools' | 'Edit' | 'View' | 'File' | 'Selection';
+}
+
+const TOOL_LABELS: Record<Tool, string> = {
+    select: 'Select',
+    pencil: 'Pencil',
+    rect: 'Rectangle',
+    ellipse: 'Ellipse',
+    line: 'Line',
+    polygon: 'Polygon',
+    eraser: 'Eraser',
+    bucket: 'Bucket Fill',
+    start: 'Set Start',
+    goal: 'Set Goal',
+    waypoint: 'Add Waypoint'
+};
+
+// Every bindable action, in the order the help overlay lists them
+export const ACTIONS: ActionInfo[] = [
+    ...TOOLS.map(tool => ({ id: `tool.${tool}` as ActionId, label: TOOL_LABELS[tool], group: 'Tools' as const })),
+    { id: 'undo', label: 'Undo', group: 'Edit' },
+    { id: 'redo', label: 'Redo', group: 'Edit' },
+    { id: 'selection.commit', label: 'Place Selection', group: 'Selection' },
+    { id: 'selection.cancel', label: 'Cancel Selection', group: 'Selection' },
+    { id: 'selection.clear', label: 'Clear Selection', group: 'Selection' },
+    { id: 'zoomIn', label: 'Zoom In', group: 'View' },
+    { id: 'zoomOut', label: 'Zoom Out', group: 'View' },
+    { id: 'zoomFit', label: 'Fit to Screen', group: 'View' },
+    { id: 'toggleRelativeCoords', label: 'Toggle (0,0) at Start', group: 'View' },
+    { id: 'help', label: 'Keyboard Shortcuts', group: 'View' },
+    { id: 'export', label: 'Export', group: 'File' }
+];
+
+// A key combination such as "Ctrl+Z", "Shift+R" or "+"; an empty string means unbound
+export type Keybindings = Record<ActionId, string>;
+
+export const DEFAULT_KEYBINDINGS: Keybindings = {
+    'tool.select': 'M',
+    'tool.pencil': 'P',
+    'tool.rect': 'R',
+    'tool.ellipse': 'C',
+    'tool.line': 'L',
+    'tool.polygon': 'N',
+    'tool.eraser': 'E',
+    'tool.bucket': 'B',
+    'tool.start': 'S',
+    'tool.goal': 'G',
+    'tool.waypoint': 'W',
+    'undo': 'Ctrl+Z',
+    'redo': 'Ctrl+Y',
+    'selection.commit': 'Enter',
+    'selection.cancel': 'Escape',
+    'selection.clear': 'Delete',
+    'zoomIn': '+',
+    'zoomOut': '-',
+    'zoomFit': '0',
+    'toggleRelativeCoords': 'Shift+R',
+    'help': '?',
+    'export': 'Ctrl+Shift+E'
+};
+
+export const KEYBINDINGS_STORAGE_KEY = 'occupancy-editor.keybindings';
+
+const MODIFIER_KEYS = ['Control', 'Meta', 'Alt', 'Shift'];
+
+/**
+ * Normalizes a key event to the combination format used in Keybindings. Cmd counts as Ctrl.
+ * Shift is only recorded for letters and named keys, since for symbols it is already part
+ * of the character ("?" rather than "Shift+/"). Returns null for a lone modifier.
+ */
+export function eventToCombo(e: Pick<KeyboardEvent, 'key' | 'ctrlKey' | 'metaKey' | 'altKey' | 'shiftKey'>): string | null {
+    if (MODIFIER_KEYS.includes(e.key)) return null;
+
+    let key = e.key === ' ' ? 'Space' : e.key;
+    const symbol = key.length === 1 && !/[a-z]/i.test(key);
+    if (key.length === 1) key = key.toUpperCase();
+
+    const parts: string[] = [];
+    if (e.ctrlKey || e.metaKey) parts.push('Ctrl');
+    if (e.altKey) parts.push('Alt');
+    if (e.shiftKey && !symbol) parts.push('Shift');
+    parts.push(key);
+    return parts.join('+');
+}
+
+/**
+ * The action bound to a combination, if any.
+ */
+export function findAction(bindings: Keybindings, combo: string): ActionId | undefined {
+    return ACTIONS.find(a => bindings[a.id] === combo)?.id;
+}
+
+/**
+ * Binds `combo` to `action`. An action that already used the combination becomes unbound.
+ */
+export function rebind(bindings: Keybindings, action: ActionId, combo: string): Keybindings {
+    const next = { ...bindings };
+    for (const a of ACTIONS) {
+        if (next[a.id] === combo) next[a.id] = '';
+    }
+    next[action] = combo;
+    return next;
+}
+
+/**
+ * True while the user is typing, when shortcuts must not fire.
+ */
+export function isTypingTarget(target: EventTarget | null): boolean {
+    const el = target as HTMLElement | null;
+    return !!el && (el.tagName === 'INPUT' || el.tagName === 'TEXTAREA' || el.tagName === 'SELECT' || el.isContentEditable);
+}
+
+const StoredKeybindingsSchema = z.record(z.string());
+
+/**
+ * Saved bindings over the defaults. Unknown actions are ignored and new actions keep their default.
+ */
+export function loadKeybindings(storage: Storage = localStorage): Keybindings {
+    const bindings = { ...DEFAULT_KEYBINDINGS };
+    try {
+        const parsed = StoredKeybindingsSchema.safeParse(JSON.parse(storage.getItem(KEYBINDINGS_STORAGE_KEY) ?? '{}'));
+        if (!parsed.success) return bindings;
+        for (const a of ACTIONS) {
+            const combo = parsed.data[a.id];
+            if (combo !== undefined) bindings[a.id] = combo;
+        }
+    } catch {
+        // Corrupt entry, fall back to the defaults
+    }
+    return bindings;
+}
+
+export function saveKeybindings(bindings: Keybindings, storage: Storage = localStorage): void {
+    storage.setItem(KEYBINDINGS_STORAGE_KEY, JSON.stringify(bindings));
+}
@@ -0,0 +1,156 @@
+import { type GridData, type GridMetadata, CELL_OCCUPIED } from '../types';
+import { shiftGridToStartOrigin } from './exportUtils';
+import { gridToWorld, mergeOccupiedRects } from './geometryUtils';
+
+export interface MeshExportOptions {
+    height: number; // Extrusion height in meters
+}
+
+export const DEFAULT_MESH_EXPORT_OPTIONS: MeshExportOptions = {
+    height: 1.0
+};
+
+export interface Mesh {
+    vertices: number[]; // Flat x, y, z in world meters (z up)
+    triangles: number[]; // Flat vertex indices, counter-clockwise seen from outside
+}
+
+/**
+ * Extrudes occupied cells into a closed mesh.
+ * Tops and bottoms come from merged rectangles; side walls are only emitted where an
+ * occupied cell borders a non-occupied one (shared internal faces are dropped) and
+ * collinear edge runs are merged into a single quad.
+ */
+export function buildGridMesh(
+    data: GridData,
+    width: number,
+    height: number,
+    metadata: GridMetadata,
+    shiftToStart: boolean = false,
+    options: MeshExportOptions = DEFAULT_MESH_EXPORT_OPTIONS
+): Mesh {
+    let finalMetadata = metadata;
+
+    // Shift grid if requested (only the origin changes)
+    if (shiftToStart && metadata.start) {
+        finalMetadata = shiftGridToStartOrigin(data, width, height, metadata).metadata;
+    }
+
+    const mesh: Mesh = { vertices: [], triangles: [] };
+    const index = new Map<string, number>();
+
+    // Vertices are keyed by grid lattice point and level (0 = floor, 1 = top) so they are shared
+    const vertex = (gx: number, gy: number, level: 0 | 1): number => {
+        const key = `${gx},${gy},${level}`;
+        let i = index.get(key);
+        if (i === undefined) {
+            const p = gridToWorld(gx, gy, height, finalMetadata);
+            i = mesh.vertices.length / 3;
+            mesh.vertices.push(p.x, p.y, level * options.height);
+            index.set(key, i);
+        }
+        return i;
+    };
+
+    const quad = (a: number, b: number, c: number, d: number) => {
+        mesh.triangles.push(a, b, c, a, c, d);
+    };
+
+    const solid = (x: number, y: number) =>
+        x >= 0 && x < width && y >= 0 && y < height && data[y * width + x] === CELL_OCCUPIED;
+
+    // Top and bottom faces. Grid y points down, world y up, so (x, y+h) is the world bottom-left.
+    for (const r of mergeOccupiedRects(data, width, height)) {
+        const corners: [number, number][] = [[r.x, r.y + r.h], [r.x + r.w, r.y + r.h], [r.x + r.w, r.y], [r.x, r.y]];
+        const top = corners.map(([gx, gy]) => vertex(gx, gy, 1));
+        const bottom = corners.map(([gx, gy]) => vertex(gx, gy, 0));
+        quad(top[0], top[1], top[2], top[3]);
+        quad(bottom[0], bottom[3], bottom[2], bottom[1]);
+    }
+
+    // Side wall from grid point a to b; the outward normal is on the left of a->b in grid coordinates
+    const wall = (ax: number, ay: number, bx: number, by: number) => {
+        quad(vertex(ax, ay, 0), vertex(bx, by, 0), vertex(bx, by, 1), vertex(ax, ay, 1));
+    };
+
+    // Horizontal edges: runs along each row where the cell above/below is empty
+    for (let y = 0; y < height; y++) {
+        for (const dy of [-1, 1]) {
+            let runStart = -1;
+            for (let x = 0; x <= width; x++) {
+                const exposed = x < width && solid(x, y) && !solid(x, y + dy);
+                if (exposed && runStart === -1) runStart = x;
+                if (!exposed && runStart !== -1) {
+                    if (dy === -1) wall(x, y, runStart, y);
+                    else wall(runStart, y + 1, x, y + 1);
+                    runStart = -1;
+                }
+            }
+        }
+    }
+
+    // Vertical edges: runs along each column where the cell left/right is empty
+    for (let x = 0; x < width; x++) {
+        for (const dx of [-1, 1]) {
+            let runStart = -1;
+            for (let y = 0; y <= height; y++) {
+                const exposed = y < height && solid(x, y) && !solid(x + dx, y);
+                if (exposed && runStart === -1) runStart = y;
+                if (!exposed && runStart !== -1) {
+                    if (dx === -1) wall(x, runStart, x, y);
+                    else wall(x + 1, y, x + 1, runStart);
+                    runStart = -1;
+                }
+            }
+        }
+    }
+
+    return mesh;
+}
+
+/**
+ * Serializes a mesh as binary STL.
+ */
+export function generateSTL(mesh: Mesh): Uint8Array {
+    const count = mesh.triangles.length / 3;
+    const out = new Uint8Array(84 + count * 50);
+    const view = new DataView(out.buffer);
+    out.set(new TextEncoder().encode('Occupancy Editor grid extrusion'));
+    view.setUint32(80, count, true);
+
+    const v = mesh.vertices;
+    for (let t = 0; t < count; t++) {
+        const [a, b, c] = [mesh.triangles[3 * t] * 3, mesh.triangles[3 * t + 1] * 3, mesh.triangles[3 * t + 2] * 3];
+
+        // Facet normal from the winding
+        const ux = v[b] - v[a], uy = v[b + 1] - v[a + 1], uz = v[b + 2] - v[a + 2];
+        const wx = v[c] - v[a], wy = v[c + 1] - v[a + 1], wz = v[c + 2] - v[a + 2];
+        let nx = uy * wz - uz * wy, ny = uz * wx - ux * wz, nz = ux * wy - uy * wx;
+        const len = Math.hypot(nx, ny, nz) || 1;
+        nx /= len; ny /= len; nz /= len;
+
+        let o = 84 + t * 50;
+        for (const f of [nx, ny, nz, v[a], v[a + 1], v[a + 2], v[b], v[b + 1], v[b + 2], v[c], v[c + 1], v[c + 2]]) {
+            view.setFloat32(o, f, true);
+            o += 4;
+        }
+        view.setUint16(o, 0, true); // Attribute byte count
+    }
+
+    return out;
+}
+
+/**
+ * Serializes a mesh as Wavefront OBJ.
+ */
+export function generateOBJ(mesh: Mesh): string {
+    const lines = ['# Occupancy Editor grid extrusion', 'o occupancy_grid'];
+    for (let i = 0; i < mesh.vertices.length; i += 3) {
+        lines.push(`v ${mesh.vertices[i]} ${mesh.vertices[i + 1]} ${mesh.vertices[i + 2]}`);
+    }
+    // OBJ indices are 1-based
+    for (let i = 0; i < mesh.triangles.length; i += 3) {
+        lines.push(`f ${mesh.triangles[i] + 1} ${mesh.triangles[i + 1] + 1} ${mesh.triangles[i + 2] + 1}`);
+    }
+    return lines.join('\n') + '\n';
+}
@@ -0,0 +1,160 @@
+import { type GridData, type GridState, type Scenario, CELL_OCCUPIED, CELL_FREE } from '../types';
+import { MAX_GRID_SIZE } from './validators';
+
+/**
+ * MovingAI terrain symbols (https://movingai.com/benchmarks/formats.html).
+ * Passable: '.' ground, 'G' ground, 'S' swamp.
+ * Blocked: '@' / 'O' out of bounds, 'T' trees, 'W' water (only passable from water).
+ */
+const PASSABLE = new Set(['.', 'G', 'S']);
+const BLOCKED = new Set(['@', 'O', 'T', 'W']);
+
+/**
+ * Parses a MovingAI `.map` file.
+ * Format:
+ *   type octile
+ *   height H
+ *   width W
+ *   map
+ *   <H rows of W symbols>
+ */
+export function parseMovingAIMap(text: string, resolution: number = 0.05): GridState {
+    const lines = text.split(/\r?\n/);
+    let width = 0;
+    let height = 0;
+    let row = 0;
+
+    // Header
+    for (; row < lines.length; row++) {
+        const [key, value] = lines[row].trim().split(/\s+/);
+        if (key === 'map') {
+            row++;
+            break;
+        } else if (key === 'height') {
+            height = parseInt(value, 10);
+        } else if (key === 'width') {
+            width = parseInt(value, 10);
+        } else if (key === 'type') {
+            if (value !== 'octile') throw new Error(`Unsupported MovingAI map type "${value}"`);
+        }
+    }
+
+    if (!(width > 0) || !(height > 0)) {
+        throw new Error('MovingAI map is missing its width/height header');
+    }
+    if (width > MAX_GRID_SIZE || height > MAX_GRID_SIZE) {
+        throw new Error(`MovingAI map is ${width} x ${height} cells (max ${MAX_GRID_SIZE})`);
+    }
+
+    const data = new Int8Array(width * height);
+    for (let y = 0; y < height; y++) {
+        const line = lines[row + y]?.replace(/\r$/, '');
+        if (line === undefined || line.length < width) {
+            throw new Error(`MovingAI map row ${y + 1} is shorter than the width ${width}`);
+        }
+        for (let x = 0; x < width; x++) {
+            const c = line[x];
+            if (PASSABLE.has(c)) {
+                data[y * width + x] = CELL_FREE;
+            } else if (BLOCKED.has(c)) {
+                data[y * width + x] = CELL_OCCUPIED;
+            } else {
+                throw new Error(`Unknown MovingAI terrain "${c}" at row ${y + 1}, column ${x + 1}`);
+            }
+        }
+    }
+
+    return {
+        width,
+        height,
+        data,
+        metadata: {
+            resolution,
+            origin: { x: 0, y: 0, theta: 0 }
+        }
+    };
+}
+
+/**
+ * Writes a MovingAI `.map` file. Free cells become '.', everything else
+ * (occupied and unknown) becomes '@'.
+ */
+export function generateMovingAIMap(data: GridData, width: number, height: number): string {
+    let map = `type octile\nheight ${height}\nwidth ${width}\nmap\n`;
+    for (let y = 0; y < height; y++) {
+        let line = '';
+        for (let x = 0; x < width; x++) {
+            line += data[y * width + x] === CELL_FREE ? '.' : '@';
+        }
+        map += line + '\n';
+    }
+    return map;
+}
+
+export interface ParsedScen {
+    mapName: string;
+    mapWidth: number;
+    mapHeight: number;
+    scenarios: Scenario[];
+}
+
+/**
+ * Parses a MovingAI `.scen` file.
+ * Each line: bucket, map, map width, map height, start x, start y, goal x, goal y, optimal length
+ * (tab separated). Coordinates are column/row with row 0 at the top, same as the editor.
+ */
+export function parseMovingAIScen(text: string): ParsedScen {
+    const result: ParsedScen = { mapName: '', mapWidth: 0, mapHeight: 0, scenarios: [] };
+
+    text.split(/\r?\n/).forEach((line, i) => {
+        const trimmed = line.trim();
+        if (!trimmed || trimmed.startsWith('version')) return;
+
+        const parts = trimmed.split('\t');
+        if (parts.length < 9) {
+            throw new Error(`Scenario line ${i + 1} has ${parts.length} fields, expected 9`);
+        }
+        const nums = [0, 2, 3, 4, 5, 6, 7, 8].map(k => parseFloat(parts[k]));
+        if (nums.some(isNaN)) {
+            throw new Error(`Scenario line ${i + 1} contains an invalid number`);
+        }
+        const [bucket, mapWidth, mapHeight, sx, sy, gx, gy, optimalLength] = nums;
+
+        result.mapName = parts[1];
+        result.mapWidth = mapWidth;
+        result.mapHeight = mapHeight;
+        result.scenarios.push({
+            start: { x: sx, y: sy },
+            goal: { x: gx, y: gy },
+            bucket,
+            optimalLength
+        });
+    });
+
+    if (result.scenarios.length === 0) {
+        throw new Error('Scenario file contains no scenarios');
+    }
+    return result;
+}
+
+/**
+ * Writes a MovingAI `.scen` file. Scenarios without a known optimal length are written with 0
+ * and without a bucket are placed in bucket 0.
+ */
+export function generateMovingAIScen(scenarios: Scenario[], mapName: string, width: number, height: number): string {
+    let scen = 'version 1\n';
+    for (const s of scenarios) {
+        scen += [
+            s.bucket ?? 0,
+            mapName,
+            width,
+            height,
+            s.start.x,
+            s.start.y,
+            s.goal.x,
+            s.goal.y,
+            s.optimalLength ?? 0
+        ].join('\t') + '\n';
+    }
+    return scen;
+}
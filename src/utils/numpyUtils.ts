@@ -0,0 +1,237 @@
+import JSZip from 'jszip';
+import { type GridData, type GridMetadata, type GridState, CELL_OCCUPIED, CELL_UNKNOWN } from '../types';
+import { shiftGridToStartOrigin } from './exportUtils';
+import { MAX_GRID_SIZE } from './validators';
+
+/**
+ * NumPy dtype strings we read and write. '|' means byte order does not apply.
+ */
+export type NpyDtype = '|i1' | '|u1' | '|b1' | '<i2' | '<u2' | '<i4' | '<u4' | '<f4' | '<f8';
+
+export interface NpyArray {
+    dtype: string;
+    shape: number[];
+    data: ArrayLike<number>; // Row-major (C order)
+}
+
+const MAGIC = [0x93, 0x4E, 0x55, 0x4D, 0x50, 0x59]; // \x93NUMPY
+
+const formatShape = (shape: number[]) =>
+    shape.length === 1 ? `(${shape[0]},)` : `(${shape.join(', ')})`;
+
+/**
+ * Serializes an array in the `.npy` v1.0 format.
+ * The header is padded with spaces so the data starts on a 64-byte boundary.
+ */
+export function writeNPY(data: ArrayLike<number>, shape: number[], dtype: NpyDtype = '|i1'): Uint8Array {
+    let header = `{'descr': '${dtype}', 'fortran_order': False, 'shape': ${formatShape(shape)}, }`;
+    // magic (6) + version (2) + header length (2) + header + '\n'
+    const pad = 64 - ((10 + header.length + 1) % 64);
+    header += ' '.repeat(pad % 64) + '\n';
+
+    const itemSize = parseInt(dtype.substring(2), 10);
+    const out = new Uint8Array(10 + header.length + data.length * itemSize);
+    out.set(MAGIC, 0);
+    out[6] = 1; // Major version
+    out[7] = 0; // Minor version
+    new DataView(out.buffer).setUint16(8, header.length, true);
+    out.set(new TextEncoder().encode(header), 10);
+
+    const view = new DataView(out.buffer, 10 + header.length);
+    for (let i = 0; i < data.length; i++) {
+        const v = data[i];
+        const o = i * itemSize;
+        switch (dtype) {
+            case '|i1': view.setInt8(o, v); break;
+            case '|u1': view.setUint8(o, v); break;
+            case '|b1': view.setUint8(o, v ? 1 : 0); break;
+            case '<i2': view.setInt16(o, v, true); break;
+            case '<u2': view.setUint16(o, v, true); break;
+            case '<i4': view.setInt32(o, v, true); break;
+            case '<u4': view.setUint32(o, v, true); break;
+            case '<f4': view.setFloat32(o, v, true); break;
+            case '<f8': view.setFloat64(o, v, true); break;
+        }
+    }
+
+    return out;
+}
+
+/**
+ * Parses a `.npy` file (format versions 1-3). Fortran-ordered arrays are
+ * transposed so the returned data is always row-major.
+ */
+export function readNPY(bytes: Uint8Array): NpyArray {
+    if (bytes.length < 10 || MAGIC.some((b, i) => bytes[i] !== b)) {
+        throw new Error('Not a NumPy .npy file');
+    }
+
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const major = bytes[6];
+    const headerLen = major === 1 ? view.getUint16(8, true) : view.getUint32(8, true);
+    const headerStart = major === 1 ? 10 : 12;
+    const header = new TextDecoder('latin1').decode(bytes.subarray(headerStart, headerStart + headerLen));
+
+    const descr = /'descr':\s*'([^']+)'/.exec(header)?.[1];
+    const fortran = /'fortran_order':\s*True/.test(header);
+    const shapeText = /'shape':\s*\(([^)]*)\)/.exec(header)?.[1];
+    if (!descr || shapeText === undefined) {
+        throw new Error('Invalid .npy header');
+    }
+
+    const shape = shapeText.split(',').map(s => s.trim()).filter(Boolean).map(s => parseInt(s, 10));
+    const count = shape.reduce((a, b) => a * b, 1);
+
+    const order = descr[0];
+    const kind = descr[1];
+    const size = parseInt(descr.substring(2), 10);
+    const little = order !== '>';
+    if (!['i', 'u', 'f', 'b'].includes(kind) || ![1, 2, 4, 8].includes(size)) {
+        throw new Error(`Unsupported .npy dtype "${descr}"`);
+    }
+
+    const dataStart = headerStart + headerLen;
+    if (bytes.length - dataStart < count * size) {
+        throw new Error('.npy data is truncated');
+    }
+
+    const data = new Float64Array(count);
+    for (let i = 0; i < count; i++) {
+        const o = dataStart + i * size;
+        if (kind === 'f') {
+            data[i] = size === 4 ? view.getFloat32(o, little) : view.getFloat64(o, little);
+        } else if (size === 1) {
+            data[i] = kind === 'i' ? view.getInt8(o) : view.getUint8(o);
+        } else if (size === 2) {
+            data[i] = kind === 'i' ? view.getInt16(o, little) : view.getUint16(o, little);
+        } else if (size === 4) {
+            data[i] = kind === 'i' ? view.getInt32(o, little) : view.getUint32(o, little);
+        } else {
+            data[i] = Number(kind === 'i' ? view.getBigInt64(o, little) : view.getBigUint64(o, little));
+        }
+    }
+
+    if (fortran && shape.length === 2) {
+        // Column-major -> row-major
+        const [rows, cols] = shape;
+        const transposed = new Float64Array(count);
+        for (let r = 0; r < rows; r++) {
+            for (let c = 0; c < cols; c++) {
+                transposed[r * cols + c] = data[c * rows + r];
+            }
+        }
+        return { dtype: descr, shape, data: transposed };
+    }
+
+    return { dtype: descr, shape, data };
+}
+
+/**
+ * Converts a 2-D array to grid values. Booleans are obstacle masks (True = occupied);
+ * anything outside -1..100 (e.g. 255 in uint8 maps) is treated as unknown.
+ */
+const arrayToGrid = (arr: NpyArray): { width: number, height: number, data: GridData } => {
+    if (arr.shape.length !== 2) {
+        throw new Error(`Expected a 2-D grid array, got shape (${arr.shape.join(', ')})`);
+    }
+    const [height, width] = arr.shape;
+    if (width > MAX_GRID_SIZE || height > MAX_GRID_SIZE) {
+        throw new Error(`Grid array is ${width} x ${height} cells (max ${MAX_GRID_SIZE})`);
+    }
+    const isBool = arr.dtype.endsWith('b1');
+    const data = new Int8Array(width * height);
+
+    for (let i = 0; i < data.length; i++) {
+        const v = Math.round(arr.data[i]);
+        if (isBool) {
+            data[i] = v ? CELL_OCCUPIED : 0;
+        } else {
+            data[i] = v < -1 || v > 100 ? CELL_UNKNOWN : v;
+        }
+    }
+
+    return { width, height, data };
+}
+
+/**
+ * Writes the grid as a `.npy` int8 array of shape (height, width), row 0 at the top.
+ */
+export const generateNPY = (data: GridData, width: number, height: number): Uint8Array =>
+    writeNPY(data, [height, width], '|i1');
+
+/**
+ * Reads a `.npy` grid written by generateNPY or by NumPy directly.
+ */
+export function parseNPY(bytes: Uint8Array, resolution: number = 0.05): GridState {
+    return {
+        ...arrayToGrid(readNPY(bytes)),
+        metadata: {
+            resolution,
+            origin: { x: 0, y: 0, theta: 0 }
+        }
+    };
+}
+
+/**
+ * Writes a `.npz` bundle:
+ *   grid       int8 (height, width)
+ *   resolution float64 ()
+ *   origin     float64 (3,)  [x, y, theta]
+ *   start/goal int32 (2,)    [x, y] cell indices (column, row), only if set
+ */
+export async function generateNPZ(state: GridState, shiftToStart: boolean = false): Promise<Blob> {
+    let metadata: GridMetadata = state.metadata;
+
+    // Shift grid if requested (only the origin changes)
+    if (shiftToStart && metadata.start) {
+        metadata = shiftGridToStartOrigin(state.data, state.width, state.height, metadata).metadata;
+    }
+
+    const zip = new JSZip();
+    zip.file('grid.npy', generateNPY(state.data, state.width, state.height));
+    zip.file('resolution.npy', writeNPY([metadata.resolution], [], '<f8'));
+    zip.file('origin.npy', writeNPY([metadata.origin.x, metadata.origin.y, metadata.origin.theta], [3], '<f8'));
+    if (metadata.start) zip.file('start.npy', writeNPY([metadata.start.x, metadata.start.y], [2], '<i4'));
+    if (metadata.goal) zip.file('goal.npy', writeNPY([metadata.goal.x, metadata.goal.y], [2], '<i4'));
+
+    return zip.generateAsync({ type: 'blob' });
+}
+
+/**
+ * Reads a `.npz` bundle written by generateNPZ. Only `grid` is required.
+ */
+export async function parseNPZ(buffer: ArrayBuffer, defaultResolution: number = 0.05): Promise<GridState> {
+    const zip = await JSZip.loadAsync(buffer);
+    const read = async (name: string): Promise<NpyArray | undefined> => {
+        const entry = zip.file(`${name}.npy`);
+        return entry ? readNPY(await entry.async('uint8array')) : undefined;
+    };
+
+    const grid = await read('grid');
+    if (!grid) throw new Error('.npz archive does not contain a "grid" array');
+
+    const resolution = await read('resolution');
+    const origin = await read('origin');
+    const start = await read('start');
+    const goal = await read('goal');
+
+    const metadata: GridMetadata = {
+        resolution: resolution ? resolution.data[0] : defaultResolution,
+        origin: origin
+            ? { x: origin.data[0], y: origin.data[1], theta: origin.data[2] }
+            : { x: 0, y: 0, theta: 0 }
+    };
+    const state = arrayToGrid(grid);
+    // Start and goal must be cell indices inside the grid
+    const cell = (name: string, arr: NpyArray) => {
+        const [x, y] = Array.from(arr.data);
+        if (!Number.isInteger(x) || !Number.isInteger(y) || x < 0 || x >= state.width || y < 0 || y >= state.height) {
+            throw new Error(`.npz "${name}" is not a cell of the ${state.width} x ${state.height} grid`);
+        }
+        return { x, y };
+    };
+    if (start) metadata.start = cell('start', start);
+    if (goal) metadata.goal = cell('goal', goal);
+
+    return { ...state, metadata };
+}
@@ -0,0 +1,89 @@
+import type { GridData, GridMetadata, GridState } from '../types';
+import { shiftGridToStartOrigin } from './exportUtils';
+import { OccupancyGridMessageSchema } from './validators';
+
+/**
+ * Converts a yaw angle to a quaternion (rotation about Z only).
+ */
+export const yawToQuaternion = (theta: number) => ({
+    x: 0,
+    y: 0,
+    z: Math.sin(theta / 2),
+    w: Math.cos(theta / 2)
+});
+
+/**
+ * Extracts the yaw angle from a quaternion.
+ */
+export const quaternionToYaw = (q: { x: number, y: number, z: number, w: number }) =>
+    Math.atan2(2 * (q.w * q.z + q.x * q.y), 1 - 2 * (q.y * q.y + q.z * q.z));
+
+/**
+ * Reverses row order. The editor stores row 0 at the top of the map,
+ * OccupancyGrid stores row 0 at the bottom (lowest y). The operation is its own inverse.
+ */
+export const flipRows = (data: GridData, width: number, height: number): GridData => {
+    const flipped = new Int8Array(width * height);
+    for (let y = 0; y < height; y++) {
+        flipped.set(data.subarray(y * width, (y + 1) * width), (height - 1 - y) * width);
+    }
+    return flipped;
+};
+
+/**
+ * Serializes the grid as a nav_msgs/OccupancyGrid message (ROS 2 field names).
+ */
+export const generateOccupancyGridMessage = (state: GridState, shiftToStart: boolean = false, frameId: string = 'map'): string => {
+    let metadata: GridMetadata = state.metadata;
+
+    // Shift grid if requested (only the origin changes)
+    if (shiftToStart && metadata.start) {
+        metadata = shiftGridToStartOrigin(state.data, state.width, state.height, metadata).metadata;
+    }
+
+    const now = Date.now();
+    const stamp = { sec: Math.floor(now / 1000), nanosec: (now % 1000) * 1e6 };
+
+    const message = {
+        header: { stamp, frame_id: frameId },
+        info: {
+            map_load_time: stamp,
+            resolution: metadata.resolution,
+            width: state.width,
+            height: state.height,
+            origin: {
+                position: { x: metadata.origin.x, y: metadata.origin.y, z: 0 },
+                orientation: yawToQuaternion(metadata.origin.theta)
+            }
+        },
+        data: Array.from(flipRows(state.data, state.width, state.height))
+    };
+
+    return JSON.stringify(message);
+};
+
+/**
+ * Parses a nav_msgs/OccupancyGrid message into editor grid state.
+ */
+export const parseOccupancyGridMessage = (json: unknown): GridState => {
+    const msg = OccupancyGridMessageSchema.parse(json);
+    const { width, height, resolution, origin } = msg.info;
+
+    if (msg.data.length !== width * height) {
+        throw new Error(`OccupancyGrid data has ${msg.data.length} cells, expected ${width * height}`);
+    }
+
+    return {
+        width,
+        height,
+        data: flipRows(new Int8Array(msg.data), width, height),
+        metadata: {
+            resolution,
+            origin: {
+                x: origin.position.x,
+                y: origin.position.y,
+                theta: quaternionToYaw(origin.orientation)
+            }
+        }
+    };
+};
@@ -1,6 +1,22 @@
 import { describe, it, expect } from 'vitest';
-import { GridImportSchema } from './validators';
-import { generatePGM } from './rosExporter';
+import { GridImportSchema, PROJECT_VERSION } from './validators';
+import { generatePGM, generatePGMBinary, generateYAML, generatePosesYAML, DEFAULT_ROS_EXPORT_OPTIONS } from './rosExporter';
+import { parseMapYAML, parsePGM, parseROSMap, parsePosesYAML, parseROSZip } from './rosImporter';
+import { isEditorPNG, editorPNGMarker, editorPNGToGrid, rasterToGrid, DEFAULT_IMAGE_IMPORT_OPTIONS } from './imageImporter';
+import { addPNGText, readPNGText } from './pngText';
+import { PNG_PALETTE, PNG_MARKER_KEYWORD, occupancyColor } from './exportUtils';
+import { writeNPY, readNPY, generateNPY, parseNPY, parseNPZ } from './numpyUtils';
+import { parseMovingAIMap, generateMovingAIMap, parseMovingAIScen, generateMovingAIScen } from './movingAI';
+import { generateOccupancyGridMessage, parseOccupancyGridMessage } from './occupancyGridMsg';
+import { parseDXF, parseSVGDrawing, parseSVGPath, rasterizeDrawing } from './vectorImporter';
+import { serializeProject, parseProject } from './projectFile';
+import { encodeRLE, decodeRLE, decodeGridData } from './gridEncoding';
+import { generateCSV, generateJSON } from './exportUtils';
+import { detectFormat, importSources, textImportSource } from './importDispatcher';
+import { activateScenario, addScenario, moveScenario, parseScenarioSet, removeScenario, scenariosToCSV, serializeScenarioSet, syncActiveScenario } from './scenarioUtils';
+import { eventToCombo, findAction, rebind, loadKeybindings, saveKeybindings, DEFAULT_KEYBINDINGS, KEYBINDINGS_STORAGE_KEY } from './keybindings';
+import JSZip from 'jszip';
+import { DEFAULT_GENERATOR_SETTINGS } from './generatorUtils';
 import { CELL_OCCUPIED, CELL_FREE, CELL_UNKNOWN } from '../types';
 
 describe('Validators', () => {
@@ -46,4 +62,699 @@ describe('ROS Exporter', () => {
         // Expect body: "0 254 205"
         expect(pgm).toContain('0 254 205');
     });
+
+    it('generates binary P5 with the same pixel values', () => {
+        const data = new Int8Array([CELL_OCCUPIED, CELL_FREE, CELL_UNKNOWN]);
+        const pgm = generatePGMBinary(data, 3, 1);
+        const header = 'P5\n3 1\n255\n';
+
+        expect(new TextDecoder().decode(pgm.subarray(0, header.length))).toBe(header);
+        expect(Array.from(pgm.subarray(header.length))).toEqual([0, 254, 205]);
+    });
+
+    it('writes export options into the YAML', () => {
+        const yaml = generateYAML(
+            { resolution: 0.05, origin: { x: 0, y: 0, theta: 0 } },
+            'office.pgm',
+            false,
+            { ...DEFAULT_ROS_EXPORT_OPTIONS, mode: 'scale', negate: true, occupiedThresh: 0.8, freeThresh: 0.1 }
+        );
+        expect(yaml).toContain('image: office.pgm');
+        expect(yaml).toContain('mode: scale');
+        expect(yaml).toContain('negate: 1');
+        expect(yaml).toContain('occupied_thresh: 0.8');
+        expect(yaml).toContain('free_thresh: 0.1');
+    });
+
+    it('keeps unknown cells unknown under custom thresholds', () => {
+        const options = { ...DEFAULT_ROS_EXPORT_OPTIONS, occupiedThresh: 0.9, freeThresh: 0.5, negate: true };
+        const data = new Int8Array([CELL_OCCUPIED, CELL_FREE, CELL_UNKNOWN]);
+        const pgm = generatePGMBinary(data, 3, 1, undefined, false, options);
+        const yaml = parseMapYAML(generateYAML({ resolution: 0.05, origin: { x: 0, y: 0, theta: 0 } }, 'map.pgm', false, options));
+
+        expect(Array.from(parseROSMap(yaml, pgm).data)).toEqual([CELL_OCCUPIED, CELL_FREE, CELL_UNKNOWN]);
+    });
+
+    it('maps occupancy probabilities according to the mode', () => {
+        const data = new Int8Array([80, 50, 10]);
+        const pixels = (mode: 'trinary' | 'scale' | 'raw') =>
+            Array.from(generatePGMBinary(data, 3, 1, undefined, false, { ...DEFAULT_ROS_EXPORT_OPTIONS, mode }).subarray(11));
+
+        expect(pixels('trinary')).toEqual([0, 205, 254]);
+        expect(pixels('raw')).toEqual([80, 50, 10]);
+
+        // Scale mode survives a round trip through map_server's interpretation
+        const options = { ...DEFAULT_ROS_EXPORT_OPTIONS, mode: 'scale' as const };
+        const yaml = parseMapYAML(generateYAML({ resolution: 0.05, origin: { x: 0, y: 0, theta: 0 } }, 'map.pgm', false, options));
+        expect(Array.from(parseROSMap(yaml, generatePGMBinary(data, 3, 1, undefined, false, options)).data)).toEqual([80, 50, 10]);
+    });
+});
+
+
+describe('ROS Importer', () => {
+    it('parses map_server YAML', () => {
+        const yaml = parseMapYAML('image: map.pgm\nresolution: 0.1\norigin: [-1.5, 2, 0.5]\nnegate: 1\noccupied_thresh: 0.7\nfree_thresh: 0.2\n');
+        expect(yaml).toEqual({
+            image: 'map.pgm',
+            mode: 'trinary',
+            resolution: 0.1,
+            origin: [-1.5, 2, 0.5],
+            negate: true,
+            occupiedThresh: 0.7,
+            freeThresh: 0.2
+        });
+    });
+
+    it('parses binary P5 images', () => {
+        const header = new TextEncoder().encode('P5\n# comment\n3 1\n255\n');
+        const bytes = new Uint8Array(header.length + 3);
+        bytes.set(header);
+        bytes.set([0, 254, 205], header.length);
+
+        const pgm = parsePGM(bytes);
+        expect(pgm.width).toBe(3);
+        expect(pgm.height).toBe(1);
+        expect(Array.from(pgm.pixels)).toEqual([0, 254, 205]);
+    });
+
+    it('round-trips the exported PGM and YAML', () => {
+        const data = new Int8Array([CELL_OCCUPIED, CELL_FREE, CELL_UNKNOWN, CELL_OCCUPIED]);
+        const metadata = { resolution: 0.05, origin: { x: 1, y: -2, theta: 0 } };
+        const pgm = new TextEncoder().encode(generatePGM(data, 2, 2, metadata));
+        const yaml = parseMapYAML(generateYAML(metadata));
+
+        const grid = parseROSMap(yaml, pgm);
+        expect(grid.width).toBe(2);
+        expect(grid.height).toBe(2);
+        expect(Array.from(grid.data)).toEqual(Array.from(data));
+        expect(grid.metadata.origin).toEqual({ x: 1, y: -2, theta: 0 });
+    });
+
+    it('round-trips start, goal and waypoint poses in a rotated map frame', () => {
+        const metadata = {
+            resolution: 0.1,
+            origin: { x: 2, y: -1, theta: Math.PI / 6 },
+            start: { x: 1, y: 8, theta: 0.5 },
+            goal: { x: 9, y: 0 },
+            waypoints: [{ name: 'Dock, east', x: 4, y: 4, theta: -Math.PI / 2 }]
+        };
+        const yaml = generatePosesYAML(metadata, 10)!;
+        expect(yaml).toContain('waypoints:\n  - {name: "Dock, east"');
+
+        const poses = parsePosesYAML(yaml, 10, metadata);
+        expect(poses.start).toMatchObject({ x: 1, y: 8 });
+        expect(poses.start!.theta).toBeCloseTo(0.5, 5);
+        expect(poses.goal).toEqual({ x: 9, y: 0 });
+        expect(poses.waypoints![0]).toMatchObject({ name: 'Dock, east', x: 4, y: 4 });
+        expect(poses.waypoints![0].theta).toBeCloseTo(-Math.PI / 2, 5);
+        expect(generatePosesYAML({ resolution: 0.1, origin: { x: 0, y: 0, theta: 0 } }, 10)).toBeNull();
+    });
+
+    it('imports the poses file from a zip next to the map YAML', async () => {
+        const data = new Int8Array(4);
+        const metadata = { resolution: 0.05, origin: { x: 0, y: 0, theta: 0 }, start: { x: 1, y: 0, theta: 1 } };
+        const zip = new JSZip();
+        // Poses first, so the map YAML has to be told apart by its content
+        zip.file('poses.yaml', generatePosesYAML(metadata, 2)!);
+        zip.file('map.yaml', generateYAML(metadata));
+        zip.file('map.pgm', generatePGM(data, 2, 2, metadata));
+
+        const grid = await parseROSZip(await zip.generateAsync({ type: 'arraybuffer' }));
+        expect(grid.metadata.start).toMatchObject({ x: 1, y: 0 });
+        expect(grid.metadata.start!.theta).toBeCloseTo(1, 5);
+    });
+
+    it('honors negate', () => {
+        const pgm = new TextEncoder().encode('P2\n2 1\n255\n255 0\n');
+        const yaml = { mode: 'trinary' as const, resolution: 0.05, origin: [0, 0, 0] as [number, number, number], negate: true, occupiedThresh: 0.65, freeThresh: 0.196 };
+        expect(Array.from(parseROSMap(yaml, pgm).data)).toEqual([CELL_OCCUPIED, CELL_FREE]);
+    });
+});
+
+
+describe('Image Importer', () => {
+    it('shades occupancy probabilities in gray', () => {
+        expect(occupancyColor(CELL_OCCUPIED)).toBe(PNG_PALETTE.occupied);
+        expect(occupancyColor(CELL_FREE)).toBe(PNG_PALETTE.free);
+        expect(occupancyColor(CELL_UNKNOWN)).toBe(PNG_PALETTE.unknown);
+        expect(occupancyColor(50)).toBe(0xFF808080);
+    });
+
+    const rgba = (width: number, height: number, pixels: number[]) => ({
+        width,
+        height,
+        data: new Uint8ClampedArray(new Uint32Array(pixels).buffer)
+    });
+
+    it('reads back the generatePNG palette including start and goal', () => {
+        const image = rgba(3, 1, [PNG_PALETTE.occupied, PNG_PALETTE.start, PNG_PALETTE.goal]);
+        expect(isEditorPNG(image)).toBe(true);
+
+        const grid = editorPNGToGrid(image, 0.1);
+        expect(Array.from(grid.data)).toEqual([CELL_OCCUPIED, CELL_FREE, CELL_FREE]);
+        expect(grid.metadata.start).toEqual({ x: 1, y: 0 });
+        expect(grid.metadata.goal).toEqual({ x: 2, y: 0 });
+        expect(grid.metadata.resolution).toBe(0.1);
+    });
+
+    it('round trips occupancy probabilities through the PNG colors', () => {
+        const values = Array.from({ length: 101 }, (_, v) => v).concat(CELL_UNKNOWN);
+        const image = rgba(values.length, 1, values.map(occupancyColor));
+        expect(isEditorPNG(image)).toBe(true);
+        expect(Array.from(editorPNGToGrid(image).data)).toEqual(values);
+    });
+
+    it('thresholds arbitrary images by luminance', () => {
+        // Dark, mid gray, light, transparent
+        const image = rgba(4, 1, [0xFF101010, 0xFF808080, 0xFFF0F0F0, 0x00000000]);
+        expect(isEditorPNG(image)).toBe(false);
+
+        const grid = rasterToGrid(image, DEFAULT_IMAGE_IMPORT_OPTIONS);
+        expect(Array.from(grid.data)).toEqual([CELL_OCCUPIED, CELL_UNKNOWN, CELL_FREE, CELL_UNKNOWN]);
+
+        const inverted = rasterToGrid(image, { ...DEFAULT_IMAGE_IMPORT_OPTIONS, invert: true });
+        expect(Array.from(inverted.data)).toEqual([CELL_FREE, CELL_UNKNOWN, CELL_OCCUPIED, CELL_UNKNOWN]);
+    });
+
+    it('resamples to the target resolution', () => {
+        const image = rgba(4, 2, new Array(8).fill(PNG_PALETTE.occupied));
+        const grid = rasterToGrid(image, { ...DEFAULT_IMAGE_IMPORT_OPTIONS, pixelSize: 0.05, resolution: 0.1 });
+        expect(grid.width).toBe(2);
+        expect(grid.height).toBe(1);
+    });
+
+    it('rejects images that would exceed the grid size cap', () => {
+        const image = { width: 1500, height: 10, data: new Uint8ClampedArray(0) };
+        expect(() => rasterToGrid(image, { ...DEFAULT_IMAGE_IMPORT_OPTIONS, pixelSize: 0.1, resolution: 0.05 })).toThrow(/3000 x 20 cells \(max 2000\)/);
+    });
+
+    it('marks PNG exports with a tEXt chunk carrying the resolution', () => {
+        // Signature, a 1x1 IHDR and IEND; chunk CRCs are not checked by the reader
+        const png = new Uint8Array([
+            0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A,
+            0, 0, 0, 13, 0x49, 0x48, 0x44, 0x52, 0, 0, 0, 1, 0, 0, 0, 1, 8, 6, 0, 0, 0, 0, 0, 0, 0,
+            0, 0, 0, 0, 0x49, 0x45, 0x4E, 0x44, 0xAE, 0x42, 0x60, 0x82
+        ]);
+        // A black and white scan without the marker goes through the import dialog
+        expect(editorPNGMarker(png)).toBeNull();
+
+        const marked = addPNGText(png, PNG_MARKER_KEYWORD, JSON.stringify({ resolution: 0.1 }));
+        expect(readPNGText(marked)).toEqual({ [PNG_MARKER_KEYWORD]: '{"resolution":0.1}' });
+        expect(editorPNGMarker(marked)).toEqual({ resolution: 0.1 });
+        // Inserted after IHDR with the CRC of type and data (as zlib.crc32 computes it)
+        const end = 33 + 12 + 35;
+        expect(Array.from(marked.subarray(33, 37))).toEqual([0, 0, 0, 35]);
+        expect(Array.from(marked.subarray(end - 4, end))).toEqual([237, 31, 55, 116]);
+        expect(Array.from(marked.subarray(end))).toEqual(Array.from(png.subarray(33)));
+    });
+});
+
+
+describe('OccupancyGrid Message', () => {
+    it('writes rows bottom-up with a quaternion origin', () => {
+        // Editor row 0 (top) = [100, 0], row 1 (bottom) = [-1, 0]
+        const data = new Int8Array([CELL_OCCUPIED, CELL_FREE, CELL_UNKNOWN, CELL_FREE]);
+        const metadata = { resolution: 0.05, origin: { x: 1, y: 2, theta: Math.PI / 2 } };
+        const msg = JSON.parse(generateOccupancyGridMessage({ width: 2, height: 2, data, metadata }));
+
+        expect(msg.info.width).toBe(2);
+        expect(msg.data).toEqual([CELL_UNKNOWN, CELL_FREE, CELL_OCCUPIED, CELL_FREE]);
+        expect(msg.info.origin.orientation.z).toBeCloseTo(Math.SQRT1_2);
+        expect(msg.info.origin.orientation.w).toBeCloseTo(Math.SQRT1_2);
+    });
+
+    it('round-trips through the parser', () => {
+        const data = new Int8Array([CELL_OCCUPIED, CELL_FREE, CELL_UNKNOWN, CELL_FREE, CELL_OCCUPIED, CELL_OCCUPIED]);
+        const metadata = { resolution: 0.1, origin: { x: -3, y: 4, theta: -0.7 } };
+        const grid = parseOccupancyGridMessage(JSON.parse(generateOccupancyGridMessage({ width: 3, height: 2, data, metadata })));
+
+        expect(grid.width).toBe(3);
+        expect(grid.height).toBe(2);
+        expect(Array.from(grid.data)).toEqual(Array.from(data));
+        expect(grid.metadata.origin.x).toBe(-3);
+        expect(grid.metadata.origin.theta).toBeCloseTo(-0.7);
+    });
+
+    it('rejects data with the wrong length', () => {
+        const msg = {
+            info: { resolution: 0.05, width: 2, height: 2, origin: { position: { x: 0, y: 0, z: 0 }, orientation: { x: 0, y: 0, z: 0, w: 1 } } },
+            data: [0, 0, 0]
+        };
+        expect(() => parseOccupancyGridMessage(msg)).toThrow();
+    });
+});
+
+
+describe('MovingAI', () => {
+    const mapText = 'type octile\nheight 2\nwidth 3\nmap\n.@T\nGSW\n';
+
+    it('parses terrain symbols', () => {
+        const grid = parseMovingAIMap(mapText);
+        expect(grid.width).toBe(3);
+        expect(grid.height).toBe(2);
+        expect(Array.from(grid.data)).toEqual([CELL_FREE, CELL_OCCUPIED, CELL_OCCUPIED, CELL_FREE, CELL_FREE, CELL_OCCUPIED]);
+    });
+
+    it('writes maps that parse back', () => {
+        const data = new Int8Array([CELL_FREE, CELL_OCCUPIED, CELL_UNKNOWN, CELL_FREE]);
+        const text = generateMovingAIMap(data, 2, 2);
+        expect(text).toBe('type octile\nheight 2\nwidth 2\nmap\n.@\n@.\n');
+        expect(Array.from(parseMovingAIMap(text).data)).toEqual([CELL_FREE, CELL_OCCUPIED, CELL_OCCUPIED, CELL_FREE]);
+    });
+
+    it('rejects maps over the size cap before reading rows', () => {
+        expect(() => parseMovingAIMap('type octile\nheight 100000\nwidth 100000\nmap\n')).toThrow(/100000 x 100000 cells \(max 2000\)/);
+    });
+
+    it('round-trips scenario files', () => {
+        const scenarios = [
+            { start: { x: 0, y: 0 }, goal: { x: 2, y: 1 }, bucket: 0, optimalLength: 2.41421356 },
+            { start: { x: 1, y: 1 }, goal: { x: 0, y: 0 }, bucket: 1, optimalLength: 1.41421356 }
+        ];
+        const parsed = parseMovingAIScen(generateMovingAIScen(scenarios, 'test.map', 3, 2));
+        expect(parsed.mapName).toBe('test.map');
+        expect(parsed.mapWidth).toBe(3);
+        expect(parsed.mapHeight).toBe(2);
+        expect(parsed.scenarios).toEqual(scenarios);
+    });
+});
+
+
+describe('NumPy', () => {
+    it('writes a 64-byte aligned v1.0 header', () => {
+        const npy = generateNPY(new Int8Array([CELL_OCCUPIED, CELL_FREE, CELL_UNKNOWN, CELL_FREE, CELL_FREE, CELL_FREE]), 3, 2);
+        const headerLen = npy[8] | (npy[9] << 8);
+        const header = new TextDecoder().decode(npy.subarray(10, 10 + headerLen));
+
+        expect((10 + headerLen) % 64).toBe(0);
+        expect(header).toContain("'descr': '|i1'");
+        expect(header).toContain("'shape': (2, 3)");
+        expect(header.endsWith('\n')).toBe(true);
+        expect(Array.from(npy.subarray(10 + headerLen))).toEqual([100, 0, 255, 0, 0, 0]);
+    });
+
+    it('round-trips grids', () => {
+        const data = new Int8Array([CELL_OCCUPIED, CELL_FREE, CELL_UNKNOWN, CELL_FREE]);
+        const grid = parseNPY(generateNPY(data, 2, 2));
+        expect(grid.width).toBe(2);
+        expect(grid.height).toBe(2);
+        expect(Array.from(grid.data)).toEqual(Array.from(data));
+    });
+
+    it('reads scalars, vectors and fortran-ordered arrays', () => {
+        expect(readNPY(writeNPY([0.05], [], '<f8'))).toEqual({ dtype: '<f8', shape: [], data: new Float64Array([0.05]) });
+        expect(Array.from(readNPY(writeNPY([1, -2, 3], [3], '<i4')).data)).toEqual([1, -2, 3]);
+
+        const fortran = writeNPY([1, 2, 3, 4, 5, 6], [2, 3], '|u1');
+        const patched = new TextDecoder('latin1').decode(fortran).replace("'fortran_order': False", "'fortran_order': True ");
+        const bytes = Uint8Array.from(patched, c => c.charCodeAt(0));
+        // Column-major [1..6] for shape (2, 3) is [[1, 3, 5], [2, 4, 6]]
+        expect(Array.from(readNPY(bytes).data)).toEqual([1, 3, 5, 2, 4, 6]);
+    });
+
+    it('rejects grids over the size cap', async () => {
+        expect(() => parseNPY(writeNPY(new Int8Array(2001), [1, 2001]))).toThrow(/2001 x 1 cells \(max 2000\)/);
+
+        const zip = new JSZip();
+        zip.file('grid.npy', writeNPY(new Int8Array(2001), [2001, 1]));
+        await expect(parseNPZ(await zip.generateAsync({ type: 'arraybuffer' }))).rejects.toThrow(/max 2000/);
+    });
+
+    it('reads start and goal only as cells inside the grid', async () => {
+        const npz = async (start: number[]) => {
+            const zip = new JSZip();
+            zip.file('grid.npy', generateNPY(new Int8Array(6), 3, 2));
+            zip.file('start.npy', writeNPY(start, [start.length], '<f8'));
+            zip.file('goal.npy', writeNPY([0, 1], [2], '<i4'));
+            return parseNPZ(await zip.generateAsync({ type: 'arraybuffer' }));
+        };
+
+        const grid = await npz([2, 1]);
+        expect(grid.metadata.start).toEqual({ x: 2, y: 1 });
+        expect(grid.metadata.goal).toEqual({ x: 0, y: 1 });
+        await expect(npz([3, 0])).rejects.toThrow(/"start" is not a cell of the 3 x 2 grid/);
+        await expect(npz([0, -1])).rejects.toThrow(/"start"/);
+        await expect(npz([0.5, 1])).rejects.toThrow(/"start"/);
+        await expect(npz([1])).rejects.toThrow(/"start"/);
+    });
+});
+
+describe('Floor Plan Importer', () => {
+    const dxf = (entities: string[][]) => [
+        '0', 'SECTION', '2', 'HEADER', '9', '$INSUNITS', '70', '4', '0', 'ENDSEC',
+        '0', 'SECTION', '2', 'ENTITIES',
+        ...entities.flat(),
+        '0', 'ENDSEC', '0', 'EOF'
+    ].join('\n');
+
+    it('parses DXF lines, polylines and arcs with their units', () => {
+        const drawing = parseDXF(dxf([
+            ['0', 'LINE', '8', '0', '10', '0', '20', '0', '11', '1000', '21', '0'],
+            ['0', 'LWPOLYLINE', '90', '3', '70', '1', '10', '0', '20', '0', '10', '10', '20', '0', '10', '10', '20', '10'],
+            ['0', 'ARC', '10', '0', '20', '0', '40', '5', '50', '0', '51', '90'],
+            ['0', 'TEXT', '10', '0', '20', '0', '1', 'Kitchen']
+        ]));
+
+        expect(drawing.unitScale).toBe(0.001);
+        expect(drawing.segments[0]).toEqual({ x1: 0, y1: 0, x2: 1000, y2: 0 });
+        // Closed triangle
+        expect(drawing.segments.slice(1, 4).map(s => [s.x2, s.y2])).toEqual([[10, 0], [10, 10], [0, 0]]);
+        // Quarter arc from (5, 0) to (0, 5)
+        const arc = drawing.segments.slice(4);
+        expect(arc[0].x1).toBeCloseTo(5);
+        expect(arc[arc.length - 1].x2).toBeCloseTo(0);
+        expect(arc[arc.length - 1].y2).toBeCloseTo(5);
+    });
+
+    it('follows polyline bulges', () => {
+        // Semicircle (bulge 1) from (0, 0) to (2, 0), swept counter-clockwise through (1, -1)
+        const drawing = parseDXF(dxf([
+            ['0', 'LWPOLYLINE', '90', '2', '70', '0', '10', '0', '20', '0', '42', '1', '10', '2', '20', '0']
+        ]));
+        const ys = drawing.segments.map(s => s.y2);
+        expect(Math.min(...ys)).toBeCloseTo(-1);
+        expect(drawing.segments[drawing.segments.length - 1].x2).toBeCloseTo(2);
+    });
+
+    it('flattens SVG path commands', () => {
+        const [square, curve] = parseSVGPath('M0 0 h10 v10 H0 z M20 20 c0 10 10 10 10 0');
+        expect(square).toEqual([[0, 0], [10, 0], [10, 10], [0, 10], [0, 0]]);
+        expect(curve[0]).toEqual([20, 20]);
+        expect(curve[curve.length - 1]).toEqual([30, 20]);
+        expect(curve.length).toBeGreaterThan(2);
+    });
+
+    it('applies SVG transforms and flips y', () => {
+        const drawing = parseSVGDrawing(`<svg xmlns="http://www.w3.org/2000/svg">
+            <g transform="translate(10 0)">
+                <line x1="0" y1="0" x2="0" y2="5"/>
+                <rect x="0" y="0" width="2" height="2" transform="scale(2)"/>
+            </g>
+        </svg>`);
+        expect(drawing.segments[0]).toMatchObject({ x1: 10, x2: 10, y2: -5 });
+        expect(drawing.segments).toHaveLength(5);
+        expect(drawing.segments[2]).toMatchObject({ x1: 14, x2: 14, y2: -4 });
+    });
+
+    it('rasterizes walls into a grid sized to the drawing bounds', () => {
+        // 2 m x 1 m rectangle drawn in centimeters, starting at (100, 50)
+        const drawing = {
+            segments: [
+                { x1: 100, y1: 50, x2: 300, y2: 50 },
+                { x1: 300, y1: 50, x2: 300, y2: 150 },
+                { x1: 300, y1: 150, x2: 100, y2: 150 },
+                { x1: 100, y1: 150, x2: 100, y2: 50 }
+            ]
+        };
+        const grid = rasterizeDrawing(drawing, { scale: 0.01, wallThickness: 0.1, resolution: 0.1 });
+
+        expect(grid.width).toBe(21);
+        expect(grid.height).toBe(11);
+        expect(grid.metadata.origin.x).toBeCloseTo(0.95);
+        expect(grid.metadata.origin.y).toBeCloseTo(0.45);
+
+        // Walls around the border, free inside
+        expect(grid.data[0]).toBe(CELL_OCCUPIED);
+        expect(grid.data[5 * 21 + 20]).toBe(CELL_OCCUPIED);
+        expect(grid.data[5 * 21 + 10]).toBe(CELL_FREE);
+    });
+
+    it('rejects drawings that would exceed the grid size cap', () => {
+        const drawing = { segments: [{ x1: 0, y1: 0, x2: 1000, y2: 0 }] };
+        expect(() => rasterizeDrawing(drawing, { scale: 1, wallThickness: 0.1, resolution: 0.1 })).toThrow(/max/);
+    });
+});
+
+describe('Project File', () => {
+    const metadata = { resolution: 0.1, origin: { x: -1, y: 2, theta: 0.5 }, start: { x: 1, y: 0 }, goal: { x: 2, y: 1 } };
+    const before = new Int8Array([0, 100, -1, 0, 0, 0]);
+    const after = new Int8Array([100, 100, -1, 0, 0, 0]);
+
+    it('restores grid, history, settings and view exactly', () => {
+        const session = {
+            grid: { width: 3, height: 2, data: after, metadata },
+            history: {
+                entries: [
+                    { width: 3, height: 2, data: before, metadata: { ...metadata, start: undefined } },
+                    { width: 3, height: 2, data: before, metadata },
+                    { width: 3, height: 2, data: after, metadata }
+                ],
+                index: 2
+            },
+            generator: { ...DEFAULT_GENERATOR_SETTINGS, mode: 'maze' as const, count: 42 },
+            view: { k: 12.5, x: 300, y: 200 },
+            editor: { tool: 'rect' as const, useRelativeCoords: true, shiftToStart: false }
+        };
+
+        const text = serializeProject(session);
+        // Entries sharing a grid array store it once
+        expect(JSON.parse(text).grids).toHaveLength(2);
+
+        const restored = parseProject(text);
+        expect(Array.from(restored.grid.data)).toEqual(Array.from(after));
+        expect(restored.grid.metadata).toEqual(metadata);
+        expect(restored.history?.index).toBe(2);
+        expect(restored.history?.entries.map(e => Array.from(e.data))).toEqual([before, before, after].map(d => Array.from(d)));
+        expect(restored.history?.entries[0].metadata.start).toBeUndefined();
+        expect(restored.generator).toEqual(session.generator);
+        expect(restored.view).toEqual(session.view);
+        expect(restored.editor).toEqual(session.editor);
+    });
+
+    it('migrates plain grid JSON as version 0', () => {
+        const legacy = JSON.stringify({ width: 3, height: 2, data: Array.from(before), metadata });
+        const restored = parseProject(legacy);
+        expect(Array.from(restored.grid.data)).toEqual(Array.from(before));
+        expect(restored.grid.metadata.start).toEqual({ x: 1, y: 0 });
+        expect(restored.generator).toEqual(DEFAULT_GENERATOR_SETTINGS);
+        expect(restored.history).toBeUndefined();
+    });
+
+    it('rejects files from newer versions and mismatched grids', () => {
+        const text = serializeProject({ grid: { width: 3, height: 2, data: before, metadata }, generator: DEFAULT_GENERATOR_SETTINGS });
+        const project = JSON.parse(text);
+
+        expect(() => parseProject(JSON.stringify({ ...project, version: PROJECT_VERSION + 1 }))).toThrow(/newer/);
+        expect(() => parseProject(JSON.stringify({ ...project, state: { ...project.state, width: 2 } }))).toThrow(/cells/);
+    });
+});
+
+describe('JSON Encodings', () => {
+    const width = 40;
+    const height = 25;
+    const data = new Int8Array(width * height);
+    data.fill(CELL_OCCUPIED, 0, width);
+    data.fill(CELL_UNKNOWN, 500, 620);
+    const state = { width, height, data, metadata: { resolution: 0.05, origin: { x: 0, y: 0, theta: 0 }, start: { x: 1, y: 1 } } };
+
+    it('run-length encodes rows into [value, count] pairs', () => {
+        expect(encodeRLE(new Int8Array([0, 0, 100, -1, -1, -1]))).toEqual([0, 2, 100, 1, -1, 3]);
+        expect(Array.from(decodeRLE([0, 2, 100, 1], 3))).toEqual([0, 0, 100]);
+        expect(() => decodeRLE([0, 2], 3)).toThrow(/covers/);
+    });
+
+    for (const encoding of ['raw', 'rle', 'base64+deflate'] as const) {
+        it(`round trips ${encoding} through the import schema`, async () => {
+            const json = await generateJSON(state, false, { encoding });
+            const parsed = GridImportSchema.parse(JSON.parse(json));
+            expect(parsed.encoding).toBe(encoding === 'raw' ? undefined : encoding);
+
+            const decoded = await decodeGridData(parsed.data, parsed.encoding, width, height);
+            expect(Array.from(decoded)).toEqual(Array.from(data));
+        });
+    }
+
+    it('keeps compact encodings much smaller than the raw array', async () => {
+        const raw = await generateJSON(state, false, { encoding: 'raw' });
+        expect((await generateJSON(state, false, { encoding: 'rle' })).length).toBeLessThan(raw.length / 20);
+        expect((await generateJSON(state, false, { encoding: 'base64+deflate' })).length).toBeLessThan(raw.length / 20);
+    });
+
+    it('rejects data that does not match the encoding', () => {
+        const base = { width: 2, height: 1, metadata: { resolution: 0.05, origin: { x: 0, y: 0, theta: 0 } } };
+        expect(() => GridImportSchema.parse({ ...base, encoding: 'base64+deflate', data: [0, 0] })).toThrow();
+        expect(() => GridImportSchema.parse({ ...base, encoding: 'rle', data: 'eJw=' })).toThrow();
+    });
+
+    it('rejects raw data that does not fill the grid', async () => {
+        await expect(decodeGridData([0, 100, 0], undefined, 2, 2)).rejects.toThrow(/3 cells, expected 4/);
+        await expect(decodeGridData([0, 100, 0, 0, 0], 'raw', 2, 2)).rejects.toThrow(/5 cells, expected 4/);
+        expect(Array.from(await decodeGridData([0, 100, -1, 0], undefined, 2, 2))).toEqual([0, 100, -1, 0]);
+    });
+
+    it('rejects grid sizes over the cap before decoding', async () => {
+        await expect(decodeGridData([0], 'rle', 100000, 100000)).rejects.toThrow(/100000 x 100000 is invalid \(max 2000\)/);
+        await expect(decodeGridData('eJw=', 'base64+deflate', 2001, 1)).rejects.toThrow(/max 2000/);
+        await expect(decodeGridData([], undefined, 0, 4)).rejects.toThrow(/invalid/);
+    });
+});
+
+describe('Import Dispatcher', () => {
+    const current = { width: 3, height: 2, data: new Int8Array(6), metadata: { resolution: 0.05, origin: { x: 0, y: 0, theta: 0 } } };
+    const bytes = (values: number[], name = 'file') => ({ name, bytes: new Uint8Array(values) });
+
+    it('detects formats by content regardless of the file name', () => {
+        expect(detectFormat(bytes([0x93, 78, 85, 77, 80, 89, 1, 0]))).toBe('npy');
+        expect(detectFormat(bytes([0x50, 0x4B, 0x03, 0x04]))).toBe('zip');
+        expect(detectFormat(bytes([0x89, 0x50, 0x4E, 0x47, 0x0D]))).toBe('image');
+        expect(detectFormat(bytes([0x50, 0x35, 0x0A, 0x31]))).toBe('pgm');
+        expect(detectFormat(textImportSource('# start,0,0\n0,100\n-1,0\n', 'map.txt'))).toBe('csv');
+        expect(detectFormat(textImportSource('{"width":1,"height":1,"data":[0],"metadata":{}}'))).toBe('json');
+        expect(detectFormat(textImportSource('{"info":{},"data":[]}'))).toBe('rosmsg');
+        expect(detectFormat(textImportSource('{"format":"occupancy-editor-project","version":1}'))).toBe('project');
+        expect(detectFormat(textImportSource('type octile\nheight 1\nwidth 1\nmap\n.'))).toBe('movingai-map');
+        expect(detectFormat(textImportSource('version 1\n'))).toBe('movingai-scen');
+        expect(detectFormat(textImportSource('image: map.pgm\nresolution: 0.05\n'))).toBe('ros-yaml');
+        expect(detectFormat(textImportSource('start: {x: 0.5, y: 0.5}\n', 'poses.yaml'))).toBe('ros-poses');
+        expect(detectFormat(textImportSource('<?xml version="1.0"?><svg xmlns="http://www.w3.org/2000/svg"/>'))).toBe('svg');
+        expect(detectFormat(textImportSource('  0\nSECTION\n  2\nENTITIES\n'))).toBe('dxf');
+        expect(detectFormat(textImportSource('hello world'))).toBeNull();
+    });
+
+    it('imports pasted CSV with display coordinates', async () => {
+        const result = await importSources([textImportSource('# start,0,0\n# goal,1,0\n0,0,0\n100,0,0\n')], current);
+        expect(result.kind).toBe('grid');
+        if (result.kind !== 'grid') return;
+        expect(result.grid.width).toBe(3);
+        expect(result.grid.metadata.start).toEqual({ x: 1, y: 1 });
+        expect(result.grid.metadata.goal).toEqual({ x: 2, y: 1 });
+    });
+
+    it('carries headings and waypoints through CSV comments', async () => {
+        const metadata = {
+            ...current.metadata,
+            start: { x: 0, y: 0, theta: Math.PI },
+            goal: { x: 2, y: 1 },
+            waypoints: [{ name: 'A', x: 1, y: 0, theta: 0.25 }, { name: 'B', x: 2, y: 0 }]
+        };
+        const csv = generateCSV(current.data, 3, 2, metadata);
+        expect(csv).toContain('# start,-1,-1,3.14159');
+        expect(csv).toContain('# waypoint,2,0,,B'); // Relative to the start, like the goal
+
+        const result = await importSources([textImportSource(csv)], current);
+        if (result.kind !== 'grid') throw new Error('expected a grid');
+        expect(result.grid.metadata.start).toEqual(metadata.start);
+        expect(result.grid.metadata.goal).toEqual(metadata.goal);
+        expect(result.grid.metadata.waypoints).toEqual(metadata.waypoints);
+    });
+
+    it('imports encoded JSON', async () => {
+        const json = await generateJSON({ ...current, data: new Int8Array([0, 100, 100, 0, 0, -1]) }, false, { encoding: 'rle' });
+        const result = await importSources([textImportSource(json, 'grid.json')], current);
+        if (result.kind !== 'grid') throw new Error('expected a grid');
+        expect(Array.from(result.grid.data)).toEqual([0, 100, 100, 0, 0, -1]);
+    });
+
+    it('tells zip archives apart by their entries', async () => {
+        const zip = new JSZip();
+        zip.file('maze.map', 'type octile\nheight 1\nwidth 2\nmap\n.@\n');
+        const result = await importSources([{ name: 'download', bytes: await zip.generateAsync({ type: 'uint8array' }) }], current);
+        if (result.kind !== 'grid') throw new Error('expected a grid');
+        expect(Array.from(result.grid.data)).toEqual([CELL_FREE, CELL_OCCUPIED]);
+    });
+
+    it('imports a PGM and map YAML by content, whatever their names', async () => {
+        const data = new Int8Array([CELL_FREE, CELL_OCCUPIED, CELL_UNKNOWN, CELL_FREE]);
+        const pgm = { name: 'scan', bytes: generatePGMBinary(data, 2, 2) };
+        const bare = await importSources([pgm], current);
+        if (bare.kind !== 'grid') throw new Error('expected a grid');
+        expect(Array.from(bare.grid.data)).toEqual(Array.from(data));
+        expect(bare.grid.metadata.resolution).toBe(current.metadata.resolution);
+
+        const yaml = textImportSource(generateYAML({ resolution: 0.1, origin: { x: 0, y: 0, theta: 0 } }, 'map.pgm'), 'pasted');
+        const withYAML = await importSources([yaml, pgm], current);
+        if (withYAML.kind !== 'grid') throw new Error('expected a grid');
+        expect(Array.from(withYAML.grid.data)).toEqual(Array.from(data));
+        expect(withYAML.grid.metadata.resolution).toBe(0.1);
+    });
+
+    it('does not take stray numbers for a CSV grid', () => {
+        expect(detectFormat(textImportSource('42'))).toBeNull();
+        expect(detectFormat(textImportSource('1,2'))).toBeNull();
+        expect(detectFormat(textImportSource('1,2\n3'))).toBeNull();
+        expect(detectFormat(textImportSource('0,100\n100,0'))).toBe('csv');
+        expect(detectFormat(textImportSource('# start,0,0\n0,100,0'))).toBe('csv');
+    });
+
+    it('reports unrecognized input', async () => {
+        await expect(importSources([textImportSource('not a map')], current)).rejects.toThrow(/Unrecognized format: clipboard/);
+    });
+});
+
+describe('Scenario Sets', () => {
+    const base = { resolution: 0.05, origin: { x: 0, y: 0, theta: 0 } };
+    const scenarios = [
+        { start: { x: 0, y: 0 }, goal: { x: 3, y: 2, theta: 1.5 }, label: 'corner, "far"' },
+        { start: { x: 1, y: 1 }, goal: { x: 2, y: 0 } }
+    ];
+
+    it('round-trips JSON and CSV, including quoted labels', () => {
+        expect(parseScenarioSet(serializeScenarioSet(scenarios, 4, 3), 4, 3)).toEqual(scenarios);
+        expect(parseScenarioSet(scenariosToCSV(scenarios), 4, 3)).toEqual(scenarios);
+    });
+
+    it('rejects sets for another map', () => {
+        expect(() => parseScenarioSet(serializeScenarioSet(scenarios, 4, 3), 5, 3)).toThrow(/4x3 map/);
+        expect(() => parseScenarioSet(scenariosToCSV(scenarios), 3, 3)).toThrow(/Scenario 1 lies outside/);
+        expect(() => parseScenarioSet('label,x,y\n', 4, 3)).toThrow(/start_x/);
+    });
+
+    it('keeps start/goal and the active pair in step', () => {
+        let metadata = activateScenario({ ...base, scenarios }, 1);
+        expect(metadata.start).toEqual({ x: 1, y: 1 });
+        expect(metadata.goal).toEqual({ x: 2, y: 0 });
+
+        // Editing the goal edits the active scenario
+        metadata = syncActiveScenario({ ...metadata, goal: { x: 0, y: 2 } });
+        expect(metadata.scenarios![1].goal).toEqual({ x: 0, y: 2 });
+
+        // The active pair follows its scenario when reordered or when others are removed
+        metadata = moveScenario(metadata, 1, 0);
+        expect(metadata.activeScenario).toBe(0);
+        metadata = addScenario(metadata, { start: { x: 2, y: 2 }, goal: { x: 0, y: 0 } });
+        expect(metadata.activeScenario).toBe(2);
+        metadata = removeScenario(activateScenario(metadata, 1), 0);
+        expect(metadata.activeScenario).toBe(0);
+        expect(metadata.scenarios).toHaveLength(2);
+    });
+});
+
+describe('Keybindings', () => {
+    const key = (k: string, mods: Partial<Record<'ctrlKey' | 'metaKey' | 'altKey' | 'shiftKey', boolean>> = {}) =>
+        ({ key: k, ctrlKey: false, metaKey: false, altKey: false, shiftKey: false, ...mods });
+
+    it('normalizes key events to combinations', () => {
+        expect(eventToCombo(key('p'))).toBe('P');
+        expect(eventToCombo(key('z', { metaKey: true }))).toBe('Ctrl+Z');
+        expect(eventToCombo(key('R', { shiftKey: true }))).toBe('Shift+R');
+        expect(eventToCombo(key('?', { shiftKey: true }))).toBe('?');
+        expect(eventToCombo(key('Shift', { shiftKey: true }))).toBeNull();
+        expect(findAction(DEFAULT_KEYBINDINGS, 'Ctrl+Y')).toBe('redo');
+    });
+
+    it('unbinds the previous owner when remapping', () => {
+        const bindings = rebind(DEFAULT_KEYBINDINGS, 'tool.eraser', 'P');
+        expect(bindings['tool.eraser']).toBe('P');
+        expect(bindings['tool.pencil']).toBe('');
+        expect(findAction(bindings, 'P')).toBe('tool.eraser');
+    });
+
+    it('persists bindings over the defaults', () => {
+        localStorage.removeItem(KEYBINDINGS_STORAGE_KEY);
+        expect(loadKeybindings()).toEqual(DEFAULT_KEYBINDINGS);
+
+        saveKeybindings({ ...DEFAULT_KEYBINDINGS, undo: 'U' });
+        expect(loadKeybindings().undo).toBe('U');
+
+        // Unknown actions are dropped, missing ones keep their default
+        localStorage.setItem(KEYBINDINGS_STORAGE_KEY, JSON.stringify({ undo: 'Q', removed: 'X' }));
+        const loaded = loadKeybindings();
+        expect(loaded.undo).toBe('Q');
+        expect(loaded.redo).toBe(DEFAULT_KEYBINDINGS.redo);
+        expect(loaded).not.toHaveProperty('removed');
+
+        localStorage.setItem(KEYBINDINGS_STORAGE_KEY, 'not json');
+        expect(loadKeybindings()).toEqual(DEFAULT_KEYBINDINGS);
+        localStorage.removeItem(KEYBINDINGS_STORAGE_KEY);
+    });
 });
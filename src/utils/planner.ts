@@ -0,0 +1,205 @@
+import { CELL_UNKNOWN, type Connectivity, type GridData } from '../types';
+import type { Cell } from './drawingUtils';
+import { OCCUPIED_THRESHOLD } from './footprintUtils';
+
+export type PlannerAlgorithm = 'astar' | 'dijkstra';
+
+export interface PlannerOptions {
+    algorithm: PlannerAlgorithm;
+    connectivity: Connectivity;
+    unknownIsFree: boolean;
+    inflationRadius: number; // Meters around blocked cells that also count as blocked; 0 for none
+}
+
+export const DEFAULT_PLANNER_OPTIONS: PlannerOptions = {
+    algorithm: 'astar',
+    connectivity: 8,
+    unknownIsFree: false,
+    inflationRadius: 0
+};
+
+// Overlay color of the preview path, distinct from the planner comparison colors
+export const PREVIEW_PATH_COLOR = '#a16207';
+
+export interface PlanResult {
+    path: Cell[] | null; // Start to goal; null when there is no path
+    length: number; // In cells, diagonal steps count √2
+    expanded: number; // Nodes taken off the open list
+    error?: string; // Why there is no path, when known
+}
+
+/**
+ * Binary min-heap keyed by a number, used as the open list.
+ */
+export class MinHeap<T> {
+    private items: { key: number, value: T }[] = [];
+
+    get size(): number {
+        return this.items.length;
+    }
+
+    push(value: T, key: number): void {
+        const items = this.items;
+        items.push({ key, value });
+        let i = items.length - 1;
+        while (i > 0) {
+            const parent = (i - 1) >> 1;
+            if (items[parent].key <= key) break;
+            [items[i], items[parent]] = [items[parent], items[i]];
+            i = parent;
+        }
+    }
+
+    pop(): T | undefined {
+        const items = this.items;
+        if (items.length === 0) return undefined;
+        const top = items[0].value;
+        const last = items.pop()!;
+        if (items.length > 0) {
+            items[0] = last;
+            let i = 0;
+            for (;;) {
+                const l = 2 * i + 1;
+                const r = l + 1;
+                let min = i;
+                if (l < items.length && items[l].key < items[min].key) min = l;
+                if (r < items.length && items[r].key < items[min].key) min = r;
+                if (min === i) break;
+                [items[i], items[min]] = [items[min], items[i]];
+                i = min;
+            }
+        }
+        return top;
+    }
+}
+
+/**
+ * Cells a point robot may not enter (1) as a flat mask: occupied cells, unknown cells unless
+ * they count as free, and everything within `inflationCells` of those.
+ */
+export function blockedMask(data: GridData, width: number, height: number, unknownIsFree: boolean, inflationCells: number = 0): Uint8Array {
+    const mask = new Uint8Array(width * height);
+    for (let i = 0; i < data.length; i++) {
+        const v = data[i];
+        if (v === CELL_UNKNOWN ? !unknownIsFree : v >= OCCUPIED_THRESHOLD) mask[i] = 1;
+    }
+    if (!(inflationCells > 0)) return mask;
+
+    const reach = Math.floor(inflationCells);
+    const offsets: Cell[] = [];
+    for (let dy = -reach; dy <= reach; dy++) {
+        for (let dx = -reach; dx <= reach; dx++) {
+            if ((dx || dy) && dx * dx + dy * dy <= inflationCells * inflationCells) offsets.push({ x: dx, y: dy });
+        }
+    }
+
+    const inflated = mask.slice();
+    const blocked = (x: number, y: number) => x < 0 || x >= width || y < 0 || y >= height || mask[y * width + x] === 1;
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            // Only the border of a blocked region can reach free space
+            if (!mask[y * width + x] || (blocked(x - 1, y) && blocked(x + 1, y) && blocked(x, y - 1) && blocked(x, y + 1))) continue;
+            for (const o of offsets) {
+                const nx = x + o.x;
+                const ny = y + o.y;
+                if (nx >= 0 && nx < width && ny >= 0 && ny < height) inflated[ny * width + nx] = 1;
+            }
+        }
+    }
+    return inflated;
+}
+
+const ORTHOGONAL: Cell[] = [{ x: 1, y: 0 }, { x: -1, y: 0 }, { x: 0, y: 1 }, { x: 0, y: -1 }];
+const DIAGONAL: Cell[] = [{ x: 1, y: 1 }, { x: 1, y: -1 }, { x: -1, y: 1 }, { x: -1, y: -1 }];
+
+/**
+ * Admissible distance estimate for the given neighbourhood: Manhattan for 4, octile for 8.
+ */
+export function gridHeuristic(a: Cell, b: Cell, connectivity: Connectivity): number {
+    const dx = Math.abs(a.x - b.x);
+    const dy = Math.abs(a.y - b.y);
+    return connectivity === 4 ? dx + dy : Math.max(dx, dy) + (Math.SQRT2 - 1) * Math.min(dx, dy);
+}
+
+/**
+ * Checks that start and goal are usable before searching; returns the reason if not.
+ */
+export function endpointError(mask: Uint8Array, width: number, height: number, start: Cell, goal: Cell): string | undefined {
+    for (const [role, p] of [['Start', start], ['Goal', goal]] as const) {
+        if (p.x < 0 || p.x >= width || p.y < 0 || p.y >= height) return `${role} is outside the map`;
+        if (mask[p.y * width + p.x]) return `${role} is blocked`;
+    }
+    return undefined;
+}
+
+/**
+ * Shortest path over the blocked mask with A* (or Dijkstra, i.e. no heuristic).
+ * Diagonal steps may not cut the corner of a blocked cell.
+ */
+export function searchGrid(mask: Uint8Array, width: number, height: number, start: Cell, goal: Cell, algorithm: PlannerAlgorithm, connectivity: Connectivity): PlanResult {
+    const error = endpointError(mask, width, height, start, goal);
+    if (error) return { path: null, length: 0, expanded: 0, error };
+
+    const goalIndex = goal.y * width + goal.x;
+    const cost = new Float64Array(width * height).fill(Infinity);
+    const parent = new Int32Array(width * height).fill(-1);
+    const closed = new Uint8Array(width * height);
+    const open = new MinHeap<number>();
+    const h = (x: number, y: number) => algorithm === 'dijkstra' ? 0 : gridHeuristic({ x, y }, goal, connectivity);
+    const free = (x: number, y: number) => x >= 0 && x < width && y >= 0 && y < height && !mask[y * width + x];
+    const moves = connectivity === 8 ? [...ORTHOGONAL, ...DIAGONAL] : ORTHOGONAL;
+
+    const startIndex = start.y * width + start.x;
+    cost[startIndex] = 0;
+    open.push(startIndex, h(start.x, start.y));
+    let expanded = 0;
+
+    while (open.size > 0) {
+        const current = open.pop()!;
+        if (closed[current]) continue;
+        closed[current] = 1;
+        expanded++;
+        if (current === goalIndex) break;
+
+        const cx = current % width;
+        const cy = (current - cx) / width;
+        for (const m of moves) {
+            const nx = cx + m.x;
+            const ny = cy + m.y;
+            if (!free(nx, ny)) continue;
+            const diagonal = m.x !== 0 && m.y !== 0;
+            if (diagonal && (!free(cx + m.x, cy) || !free(cx, cy + m.y))) continue;
+
+            const next = ny * width + nx;
+            const g = cost[current] + (diagonal ? Math.SQRT2 : 1);
+            if (g < cost[next]) {
+                cost[next] = g;
+                parent[next] = current;
+                open.push(next, g + h(nx, ny));
+            }
+        }
+    }
+
+    if (!closed[goalIndex]) return { path: null, length: 0, expanded, error: 'No path between start and goal' };
+    return { path: tracePath(parent, goalIndex, width), length: cost[goalIndex], expanded };
+}
+
+/**
+ * Follows parent links back from the goal and returns the cells from the start.
+ */
+export function tracePath(parent: Int32Array, goalIndex: number, width: number): Cell[] {
+    const path: Cell[] = [];
+    for (let i = goalIndex; i !== -1; i = parent[i]) {
+        path.push({ x: i % width, y: Math.floor(i / width) });
+    }
+    return path.reverse();
+}
+
+/**
+ * Plans from start to goal on the occupancy grid. The inflation radius is converted to
+ * cells with the map resolution.
+ */
+export function planPath(data: GridData, width: number, height: number, start: Cell, goal: Cell, options: PlannerOptions, resolution: number): PlanResult {
+    const mask = blockedMask(data, width, height, options.unknownIsFree, options.inflationRadius / resolution);
+    return searchGrid(mask, width, height, start, goal, options.algorithm, options.connectivity);
+}
@@ -0,0 +1,527 @@
+import type { GridData } from '../types';
+import type { Cell } from './drawingUtils';
+import { blockedMask, endpointError, gridHeuristic, MinHeap, searchGrid, tracePath } from './planner';
+
+export type BenchmarkPlanner = 'astar' | 'dijkstra' | 'jps' | 'thetastar' | 'rrtstar';
+
+export const BENCHMARK_PLANNERS: { id: BenchmarkPlanner, label: string, color: string }[] = [
+    { id: 'astar', label: 'A*', color: '#0ea5e9' },
+    { id: 'dijkstra', label: 'Dijkstra', color: '#6366f1' },
+    { id: 'jps', label: 'Jump Point Search', color: '#f97316' },
+    { id: 'thetastar', label: 'Theta*', color: '#10b981' },
+    { id: 'rrtstar', label: 'RRT*', color: '#ec4899' }
+];
+
+export interface BenchmarkOptions {
+    planners: BenchmarkPlanner[];
+    unknownIsFree: boolean;
+    inflationRadius: number; // Meters, as in the path preview
+    seed: number; // RRT* sampling
+    iterations: number; // RRT* samples
+    stepSize: number; // RRT* extension, in cells
+}
+
+export const DEFAULT_BENCHMARK_OPTIONS: BenchmarkOptions = {
+    planners: BENCHMARK_PLANNERS.map(p => p.id),
+    unknownIsFree: false,
+    inflationRadius: 0,
+    seed: 1,
+    iterations: 2000,
+    stepSize: 3
+};
+
+/**
+ * Path found by one planner. Points are cell centers in internal coordinates; any-angle and
+ * sampling planners may use fractional positions between them.
+ */
+export interface PlannerRun {
+    planner: BenchmarkPlanner;
+    path: Cell[] | null;
+    length: number; // Cells, Euclidean along the path
+    expanded: number; // Nodes taken off the open list, or tree nodes for RRT*
+    runtime: number; // Milliseconds
+    clearance: number; // Cells from the path to the nearest blocked cell; Infinity without obstacles
+    error?: string;
+}
+
+interface SearchResult {
+    path: Cell[] | null;
+    expanded: number;
+    error?: string;
+}
+
+const NO_PATH = 'No path between start and goal';
+
+const free = (mask: Uint8Array, width: number, height: number, x: number, y: number) =>
+    x >= 0 && x < width && y >= 0 && y < height && !mask[y * width + x];
+
+/**
+ * Whether the straight segment between two points (cell-center coordinates) crosses only free
+ * cells. Passing exactly through a corner needs both cells beside it free, like a diagonal step.
+ */
+export function segmentFree(mask: Uint8Array, width: number, height: number, a: Cell, b: Cell): boolean {
+    // Cell i spans [i - 0.5, i + 0.5); shift so it spans [i, i + 1)
+    const x0 = a.x + 0.5, y0 = a.y + 0.5;
+    const dx = b.x - a.x, dy = b.y - a.y;
+    let x = Math.floor(x0);
+    let y = Math.floor(y0);
+    const endX = Math.floor(b.x + 0.5);
+    const endY = Math.floor(b.y + 0.5);
+    if (!free(mask, width, height, x, y)) return false;
+
+    const stepX = Math.sign(dx);
+    const stepY = Math.sign(dy);
+    const tDeltaX = dx ? 1 / Math.abs(dx) : Infinity;
+    const tDeltaY = dy ? 1 / Math.abs(dy) : Infinity;
+    let tMaxX = dx > 0 ? (x + 1 - x0) / dx : dx < 0 ? (x0 - x) / -dx : Infinity;
+    let tMaxY = dy > 0 ? (y + 1 - y0) / dy : dy < 0 ? (y0 - y) / -dy : Infinity;
+
+    while ((x !== endX || y !== endY) && Math.min(tMaxX, tMaxY) <= 1 + 1e-9) {
+        if (Math.abs(tMaxX - tMaxY) < 1e-9) {
+            if (!free(mask, width, height, x + stepX, y) || !free(mask, width, height, x, y + stepY)) return false;
+            x += stepX;
+            y += stepY;
+            tMaxX += tDeltaX;
+            tMaxY += tDeltaY;
+        } else if (tMaxX < tMaxY) {
+            x += stepX;
+            tMaxX += tDeltaX;
+        } else {
+            y += stepY;
+            tMaxY += tDeltaY;
+        }
+        if (!free(mask, width, height, x, y)) return false;
+    }
+    return true;
+}
+
+export const pathLength = (path: Cell[]) =>
+    path.reduce((sum, p, i) => i === 0 ? 0 : sum + Math.hypot(p.x - path[i - 1].x, p.y - path[i - 1].y), 0);
+
+/**
+ * Jump Point Search on the 8-connected grid without corner cutting. Only jump points go on the
+ * open list; the returned path lists the cells between them too.
+ */
+export function jumpPointSearch(mask: Uint8Array, width: number, height: number, start: Cell, goal: Cell): SearchResult {
+    const error = endpointError(mask, width, height, start, goal);
+    if (error) return { path: null, expanded: 0, error };
+
+    const open_ = (x: number, y: number) => free(mask, width, height, x, y);
+    const isGoal = (x: number, y: number) => x === goal.x && y === goal.y;
+
+    // Straight jump: stops at the goal or where a side cell becomes reachable only through here
+    const jumpStraight = (x: number, y: number, dx: number, dy: number): Cell | null => {
+        for (; open_(x, y); x += dx, y += dy) {
+            if (isGoal(x, y)) return { x, y };
+            if (dx !== 0) {
+                if ((open_(x, y - 1) && !open_(x - dx, y - 1)) || (open_(x, y + 1) && !open_(x - dx, y + 1))) return { x, y };
+            } else if ((open_(x - 1, y) && !open_(x - 1, y - dy)) || (open_(x + 1, y) && !open_(x + 1, y - dy))) {
+                return { x, y };
+            }
+        }
+        return null;
+    };
+
+    // Diagonal jump: stops where either straight component finds a jump point
+    const jump = (x: number, y: number, dx: number, dy: number): Cell | null => {
+        if (dx === 0 || dy === 0) return jumpStraight(x, y, dx, dy);
+        for (; open_(x, y); x += dx, y += dy) {
+            if (isGoal(x, y)) return { x, y };
+            if (jumpStraight(x + dx, y, dx, 0) || jumpStraight(x, y + dy, 0, dy)) return { x, y };
+            if (!open_(x + dx, y) || !open_(x, y + dy)) return null;
+        }
+        return null;
+    };
+
+    // Directions worth following from a cell reached from its parent
+    const directions = (x: number, y: number, parentIndex: number): Cell[] => {
+        if (parentIndex === -1) {
+            const all: Cell[] = [];
+            for (let dy = -1; dy <= 1; dy++) {
+                for (let dx = -1; dx <= 1; dx++) {
+                    if (dx || dy) all.push({ x: dx, y: dy });
+                }
+            }
+            return all.filter(d => open_(x + d.x, y + d.y) && (!d.x || !d.y || (open_(x + d.x, y) && open_(x, y + d.y))));
+        }
+        const px = parentIndex % width;
+        const dx = Math.sign(x - px);
+        const dy = Math.sign(y - (parentIndex - px) / width);
+        const dirs: Cell[] = [];
+        if (dx && dy) {
+            if (open_(x, y + dy)) dirs.push({ x: 0, y: dy });
+            if (open_(x + dx, y)) dirs.push({ x: dx, y: 0 });
+            if (open_(x, y + dy) && open_(x + dx, y)) dirs.push({ x: dx, y: dy });
+        } else if (dx) {
+            // Side cells are forced only where the cell behind them is blocked; otherwise the
+            // parent reaches them at least as cheaply
+            const ahead = open_(x + dx, y);
+            for (const side of [-1, 1]) {
+                if (!open_(x, y + side) || open_(x - dx, y + side)) continue;
+                dirs.push({ x: 0, y: side });
+                if (ahead) dirs.push({ x: dx, y: side });
+            }
+            if (ahead) dirs.push({ x: dx, y: 0 });
+        } else {
+            const ahead = open_(x, y + dy);
+            for (const side of [-1, 1]) {
+                if (!open_(x + side, y) || open_(x + side, y - dy)) continue;
+                dirs.push({ x: side, y: 0 });
+                if (ahead) dirs.push({ x: side, y: dy });
+            }
+            if (ahead) dirs.push({ x: 0, y: dy });
+        }
+        return dirs;
+    };
+
+    const goalIndex = goal.y * width + goal.x;
+    const cost = new Float64Array(width * height).fill(Infinity);
+    const parent = new Int32Array(width * height).fill(-1);
+    const closed = new Uint8Array(width * height);
+    const open = new MinHeap<number>();
+    const startIndex = start.y * width + start.x;
+    cost[startIndex] = 0;
+    open.push(startIndex, gridHeuristic(start, goal, 8));
+    let expanded = 0;
+
+    while (open.size > 0) {
+        const current = open.pop()!;
+        if (closed[current]) continue;
+        closed[current] = 1;
+        expanded++;
+        if (current === goalIndex) break;
+
+        const cx = current % width;
+        const cy = (current - cx) / width;
+        for (const d of directions(cx, cy, parent[current])) {
+            const jp = jump(cx + d.x, cy + d.y, d.x, d.y);
+            if (!jp) continue;
+            const next = jp.y * width + jp.x;
+            const g = cost[current] + gridHeuristic({ x: cx, y: cy }, jp, 8);
+            if (g < cost[next]) {
+                cost[next] = g;
+                parent[next] = current;
+                open.push(next, g + gridHeuristic(jp, goal, 8));
+            }
+        }
+    }
+
+    if (!closed[goalIndex]) return { path: null, expanded, error: NO_PATH };
+
+    // Fill in the straight and diagonal runs between jump points
+    const jumpPoints = tracePath(parent, goalIndex, width);
+    const path: Cell[] = [jumpPoints[0]];
+    for (let i = 1; i < jumpPoints.length; i++) {
+        const to = jumpPoints[i];
+        let { x, y } = jumpPoints[i - 1];
+        while (x !== to.x || y !== to.y) {
+            x += Math.sign(to.x - x);
+            y += Math.sign(to.y - y);
+            path.push({ x, y });
+        }
+    }
+    return { path, expanded };
+}
+
+/**
+ * Theta*: A* on the 8-connected grid where a cell may take its grandparent as parent when the
+ * two see each other, giving any-angle paths through cell centers.
+ */
+export function thetaStar(mask: Uint8Array, width: number, height: number, start: Cell, goal: Cell): SearchResult {
+    const error = endpointError(mask, width, height, start, goal);
+    if (error) return { path: null, expanded: 0, error };
+
+    const goalIndex = goal.y * width + goal.x;
+    const cost = new Float64Array(width * height).fill(Infinity);
+    const parent = new Int32Array(width * height).fill(-1);
+    const closed = new Uint8Array(width * height);
+    const open = new MinHeap<number>();
+    const cellOf = (i: number): Cell => ({ x: i % width, y: Math.floor(i / width) });
+    const h = (x: number, y: number) => Math.hypot(x - goal.x, y - goal.y);
+
+    const startIndex = start.y * width + start.x;
+    cost[startIndex] = 0;
+    parent[startIndex] = startIndex;
+    open.push(startIndex, h(start.x, start.y));
+    let expanded = 0;
+
+    while (open.size > 0) {
+        const current = open.pop()!;
+        if (closed[current]) continue;
+        closed[current] = 1;
+        expanded++;
+        if (current === goalIndex) break;
+
+        const cx = current % width;
+        const cy = (current - cx) / width;
+        const grand = cellOf(parent[current]);
+        for (let dy = -1; dy <= 1; dy++) {
+            for (let dx = -1; dx <= 1; dx++) {
+                const nx = cx + dx;
+                const ny = cy + dy;
+                if ((!dx && !dy) || !free(mask, width, height, nx, ny)) continue;
+                if (dx && dy && (!free(mask, width, height, cx + dx, cy) || !free(mask, width, height, cx, cy + dy))) continue;
+                const next = ny * width + nx;
+                if (closed[next]) continue;
+
+                let from = current;
+                let g = cost[current] + Math.hypot(dx, dy);
+                if (segmentFree(mask, width, height, grand, { x: nx, y: ny })) {
+                    from = parent[current];
+                    g = cost[from] + Math.hypot(nx - grand.x, ny - grand.y);
+                }
+                if (g < cost[next]) {
+                    cost[next] = g;
+                    parent[next] = from;
+                    open.push(next, g + h(nx, ny));
+                }
+            }
+        }
+    }
+
+    if (!closed[goalIndex]) return { path: null, expanded, error: NO_PATH };
+    parent[startIndex] = -1;
+    return { path: tracePath(parent, goalIndex, width), expanded };
+}
+
+/**
+ * Deterministic pseudo-random numbers in [0, 1) (mulberry32), so a seed reproduces a run.
+ */
+export function seededRandom(seed: number): () => number {
+    let s = seed >>> 0;
+    return () => {
+        s = (s + 0x6D2B79F5) >>> 0;
+        let t = s;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/**
+ * RRT*: grows a tree of collision-free segments from random samples, choosing the cheapest
+ * nearby parent for each new node and rewiring neighbours through it. Runs all iterations,
+ * so the path keeps improving after the goal is first reached.
+ */
+export function rrtStar(mask: Uint8Array, width: number, height: number, start: Cell, goal: Cell, seed: number, iterations: number, stepSize: number): SearchResult {
+    const error = endpointError(mask, width, height, start, goal);
+    if (error) return { path: null, expanded: 0, error };
+
+    const random = seededRandom(seed);
+    const nodes: Cell[] = [{ x: start.x, y: start.y }];
+    const parent: number[] = [-1];
+    const cost: number[] = [0];
+    const children: number[][] = [[]];
+    let goalNode = -1;
+    const dist = (a: Cell, b: Cell) => Math.hypot(a.x - b.x, a.y - b.y);
+    const collisionFree = (a: Cell, b: Cell) => segmentFree(mask, width, height, a, b);
+    // Radius for an asymptotically optimal tree in 2D: gamma * sqrt(ln n / n), capped at the step
+    const gamma = 2 * Math.sqrt(1.5 * width * height / Math.PI);
+
+    const attach = (node: number, to: number) => {
+        if (parent[node] !== -1) {
+            const siblings = children[parent[node]];
+            siblings.splice(siblings.indexOf(node), 1);
+        }
+        parent[node] = to;
+        children[to].push(node);
+        const delta = cost[to] + dist(nodes[to], nodes[node]) - cost[node];
+        const stack = [node];
+        while (stack.length > 0) {
+            const n = stack.pop()!;
+            cost[n] += delta;
+            stack.push(...children[n]);
+        }
+    };
+
+    for (let iter = 0; iter < iterations; iter++) {
+        const sample = random() < 0.05
+            ? goal
+            : { x: random() * width - 0.5, y: random() * height - 0.5 };
+
+        let nearest = 0;
+        for (let i = 1; i < nodes.length; i++) {
+            if (dist(nodes[i], sample) < dist(nodes[nearest], sample)) nearest = i;
+        }
+        const d = dist(nodes[nearest], sample);
+        if (d === 0) continue;
+        const point = d <= stepSize ? sample : {
+            x: nodes[nearest].x + (sample.x - nodes[nearest].x) * stepSize / d,
+            y: nodes[nearest].y + (sample.y - nodes[nearest].y) * stepSize / d
+        };
+        if (!collisionFree(nodes[nearest], point)) continue;
+
+        const n = nodes.length;
+        const radius = Math.min(gamma * Math.sqrt(Math.log(n + 1) / (n + 1)), stepSize);
+        const near: number[] = [];
+        for (let i = 0; i < n; i++) {
+            if (dist(nodes[i], point) <= radius) near.push(i);
+        }
+
+        let best = nearest;
+        let bestCost = cost[nearest] + dist(nodes[nearest], point);
+        for (const i of near) {
+            const c = cost[i] + dist(nodes[i], point);
+            if (c < bestCost && collisionFree(nodes[i], point)) {
+                best = i;
+                bestCost = c;
+            }
+        }
+
+        nodes.push(point);
+        parent.push(-1);
+        cost.push(bestCost);
+        children.push([]);
+        parent[n] = best;
+        children[best].push(n);
+
+        for (const i of near) {
+            if (i === best || cost[n] + dist(point, nodes[i]) >= cost[i]) continue;
+            if (collisionFree(point, nodes[i])) attach(i, n);
+        }
+
+        if (point.x === goal.x && point.y === goal.y && (goalNode === -1 || cost[n] < cost[goalNode])) goalNode = n;
+    }
+
+    if (goalNode === -1) return { path: null, expanded: nodes.length, error: `No path after ${iterations} samples` };
+    const path: Cell[] = [];
+    for (let i = goalNode; i !== -1; i = parent[i]) path.push(nodes[i]);
+    return { path: path.reverse(), expanded: nodes.length };
+}
+
+/**
+ * Distance from every cell center to the nearest blocked cell center (exact Euclidean distance
+ * transform, two passes of the lower envelope of parabolas). Infinity when nothing is blocked.
+ */
+export function distanceField(mask: Uint8Array, width: number, height: number): Float64Array {
+    const INF = 1e20;
+    const field = new Float64Array(width * height);
+    for (let i = 0; i < field.length; i++) field[i] = mask[i] ? 0 : INF;
+
+    const transform1D = (f: Float64Array, n: number) => {
+        const d = new Float64Array(n);
+        const v = new Int32Array(n);
+        const z = new Float64Array(n + 1);
+        let k = 0;
+        z[0] = -Infinity;
+        z[1] = Infinity;
+        for (let q = 1; q < n; q++) {
+            let s = ((f[q] + q * q) - (f[v[k]] + v[k] * v[k])) / (2 * q - 2 * v[k]);
+            while (s <= z[k]) {
+                k--;
+                s = ((f[q] + q * q) - (f[v[k]] + v[k] * v[k])) / (2 * q - 2 * v[k]);
+            }
+            k++;
+            v[k] = q;
+            z[k] = s;
+            z[k + 1] = Infinity;
+        }
+        k = 0;
+        for (let q = 0; q < n; q++) {
+            while (z[k + 1] < q) k++;
+            d[q] = (q - v[k]) * (q - v[k]) + f[v[k]];
+        }
+        return d;
+    };
+
+    const column = new Float64Array(height);
+    for (let x = 0; x < width; x++) {
+        for (let y = 0; y < height; y++) column[y] = field[y * width + x];
+        const d = transform1D(column, height);
+        for (let y = 0; y < height; y++) field[y * width + x] = d[y];
+    }
+    const row = new Float64Array(width);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) row[x] = field[y * width + x];
+        const d = transform1D(row, width);
+        for (let x = 0; x < width; x++) field[y * width + x] = d[x] >= INF ? Infinity : Math.sqrt(d[x]);
+    }
+    return field;
+}
+
+/**
+ * Smallest clearance along a path: the distance field sampled every quarter cell, less half a
+ * cell so it measures to the edge of the blocked cell.
+ */
+export function pathClearance(field: Float64Array, width: number, height: number, path: Cell[]): number {
+    let min = Infinity;
+    const sample = (p: Cell) => {
+        const x = Math.min(width - 1, Math.max(0, Math.round(p.x)));
+        const y = Math.min(height - 1, Math.max(0, Math.round(p.y)));
+        min = Math.min(min, field[y * width + x] - 0.5);
+    };
+    path.forEach((p, i) => {
+        if (i === 0) return sample(p);
+        const prev = path[i - 1];
+        const steps = Math.max(1, Math.ceil(Math.hypot(p.x - prev.x, p.y - prev.y) * 4));
+        for (let s = 1; s <= steps; s++) {
+            sample({ x: prev.x + (p.x - prev.x) * s / steps, y: prev.y + (p.y - prev.y) * s / steps });
+        }
+    });
+    return Math.max(0, min);
+}
+
+/**
+ * Runs the selected planners from start to goal on the same blocked mask, timing each one.
+ * Clearance is measured against the obstacles before inflation.
+ */
+export function runBenchmark(data: GridData, width: number, height: number, start: Cell, goal: Cell, options: BenchmarkOptions, resolution: number): PlannerRun[] {
+    const mask = blockedMask(data, width, height, options.unknownIsFree, options.inflationRadius / resolution);
+    const field = distanceField(blockedMask(data, width, height, options.unknownIsFree), width, height);
+
+    return BENCHMARK_PLANNERS.filter(p => options.planners.includes(p.id)).map(({ id }) => {
+        const t0 = performance.now();
+        let result: SearchResult;
+        switch (id) {
+            case 'astar':
+            case 'dijkstra':
+                result = searchGrid(mask, width, height, start, goal, id, 8);
+                break;
+            case 'jps':
+                result = jumpPointSearch(mask, width, height, start, goal);
+                break;
+            case 'thetastar':
+                result = thetaStar(mask, width, height, start, goal);
+                break;
+            case 'rrtstar':
+                result = rrtStar(mask, width, height, start, goal, options.seed, options.iterations, options.stepSize);
+                break;
+        }
+        const runtime = performance.now() - t0;
+        const { path } = result;
+        return {
+            planner: id,
+            path,
+            length: path ? pathLength(path) : 0,
+            expanded: result.expanded,
+            runtime,
+            clearance: path ? pathClearance(field, width, height, path) : 0,
+            error: result.error
+        };
+    });
+}
+
+const csvNumber = (value: number, digits: number) => Number.isFinite(value) ? value.toFixed(digits) : '';
+
+/**
+ * Comparison table as CSV, lengths and clearance in both cells and meters. Planners without
+ * a path have empty length and clearance columns.
+ */
+export function benchmarkToCSV(runs: PlannerRun[], resolution: number): string {
+    const header = 'planner,found,length_cells,length_m,expanded,runtime_ms,min_clearance_cells,min_clearance_m';
+    const rows = runs.map(r => {
+        const label = BENCHMARK_PLANNERS.find(p => p.id === r.planner)?.label ?? r.planner;
+        const found = !!r.path;
+        return [
+            label,
+            found,
+            found ? csvNumber(r.length, 3) : '',
+            found ? csvNumber(r.length * resolution, 3) : '',
+            r.expanded,
+            r.runtime.toFixed(2),
+            found ? csvNumber(r.clearance, 3) : '',
+            found ? csvNumber(r.clearance * resolution, 3) : ''
+        ].join(',');
+    });
+    return [header, ...rows].join('\n') + '\n';
+}
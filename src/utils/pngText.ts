@@ -0,0 +1,67 @@
+const PNG_SIGNATURE = [0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A];
+
+let crcTable: Uint32Array | null = null;
+
+// CRC-32 over chunk type and data, as the PNG spec requires
+function crc32(bytes: Uint8Array): number {
+    if (!crcTable) {
+        crcTable = new Uint32Array(256);
+        for (let n = 0; n < 256; n++) {
+            let c = n;
+            for (let k = 0; k < 8; k++) c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+            crcTable[n] = c >>> 0;
+        }
+    }
+    let crc = 0xFFFFFFFF;
+    for (let i = 0; i < bytes.length; i++) crc = crcTable[(crc ^ bytes[i]) & 0xFF] ^ (crc >>> 8);
+    return (crc ^ 0xFFFFFFFF) >>> 0;
+}
+
+const isPNG = (bytes: Uint8Array) => PNG_SIGNATURE.every((b, i) => bytes[i] === b);
+
+const latin1 = (s: string) => Uint8Array.from(s, c => c.charCodeAt(0) & 0xFF);
+
+/**
+ * Inserts a tEXt chunk right after IHDR. Keyword and text are Latin-1.
+ */
+export function addPNGText(png: Uint8Array, keyword: string, text: string): Uint8Array {
+    if (!isPNG(png)) throw new Error('Not a PNG image');
+
+    const body = latin1(`${keyword}\0${text}`);
+    const chunk = new Uint8Array(12 + body.length);
+    const view = new DataView(chunk.buffer);
+    view.setUint32(0, body.length);
+    chunk.set(latin1('tEXt'), 4);
+    chunk.set(body, 8);
+    view.setUint32(8 + body.length, crc32(chunk.subarray(4, 8 + body.length)));
+
+    // Signature (8) + IHDR (4 length + 4 type + 13 data + 4 CRC)
+    const at = 8 + 25;
+    const out = new Uint8Array(png.length + chunk.length);
+    out.set(png.subarray(0, at));
+    out.set(chunk, at);
+    out.set(png.subarray(at), at + chunk.length);
+    return out;
+}
+
+/**
+ * Reads all tEXt chunks of a PNG as keyword → text. Empty for anything that is not a PNG.
+ */
+export function readPNGText(png: Uint8Array): Record<string, string> {
+    const texts: Record<string, string> = {};
+    if (!isPNG(png)) return texts;
+
+    const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+    for (let offset = 8; offset + 12 <= png.length;) {
+        const length = view.getUint32(offset);
+        const type = String.fromCharCode(...png.subarray(offset + 4, offset + 8));
+        if (offset + 12 + length > png.length || type === 'IEND') break;
+        if (type === 'tEXt') {
+            const body = String.fromCharCode(...png.subarray(offset + 8, offset + 8 + length));
+            const sep = body.indexOf('\0');
+            if (sep > 0) texts[body.slice(0, sep)] = body.slice(sep + 1);
+        }
+        offset += 12 + length;
+    }
+    return texts;
+}
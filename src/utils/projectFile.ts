@@ -0,0 +1,92 @@
+import type { GridData, GridState, Tool, ViewTransform } from '../types';
+import type { GeneratorSettings } from './generatorUtils';
+import { migrateProject, PROJECT_FORMAT, PROJECT_VERSION, type ProjectFileType } from './validators';
+import { base64ToBytes, bytesToBase64 } from './gridEncoding';
+
+export const PROJECT_EXTENSION = '.occproj';
+
+/**
+ * Everything needed to resume an editing session. Unlike the exports, nothing is shifted
+ * or converted: the grid and metadata are stored exactly as they are in the editor.
+ */
+export interface ProjectSession {
+    grid: GridState;
+    history?: {
+        entries: GridState[];
+        index: number;
+    };
+    generator: GeneratorSettings;
+    view?: ViewTransform;
+    editor?: {
+        tool: Tool;
+        useRelativeCoords: boolean;
+        shiftToStart: boolean;
+    };
+}
+
+/**
+ * Serializes a session as a versioned project file. Grid arrays are stored once in a pool
+ * of base64 strings; history entries that only changed metadata share their grid.
+ */
+export function serializeProject(session: ProjectSession): string {
+    const grids: string[] = [];
+    const pool = new Map<GridData, number>();
+
+    const encode = (state: GridState) => {
+        let index = pool.get(state.data);
+        if (index === undefined) {
+            index = grids.length;
+            grids.push(bytesToBase64(new Uint8Array(state.data.buffer, state.data.byteOffset, state.data.length)));
+            pool.set(state.data, index);
+        }
+        return { width: state.width, height: state.height, data: index, metadata: state.metadata };
+    };
+
+    const project: ProjectFileType = {
+        format: PROJECT_FORMAT,
+        version: PROJECT_VERSION,
+        grids,
+        state: encode(session.grid),
+        history: session.history && {
+            entries: session.history.entries.map(encode),
+            index: session.history.index
+        },
+        generator: session.generator,
+        view: session.view,
+        editor: session.editor
+    };
+
+    return JSON.stringify(project);
+}
+
+/**
+ * Parses a project file of any supported version (see migrateProject).
+ */
+export function parseProject(text: string): ProjectSession {
+    const project = migrateProject(JSON.parse(text));
+
+    const grids = project.grids.map(g => {
+        const bytes = base64ToBytes(g);
+        return new Int8Array(bytes.buffer, bytes.byteOffset, bytes.length);
+    });
+
+    const decode = (state: ProjectFileType['state']): GridState => {
+        const data = grids[state.data];
+        if (!data) throw new Error(`Project references missing grid ${state.data}`);
+        if (data.length !== state.width * state.height) {
+            throw new Error(`Grid ${state.data} has ${data.length} cells, expected ${state.width} x ${state.height}`);
+        }
+        return { width: state.width, height: state.height, data, metadata: state.metadata };
+    };
+
+    return {
+        grid: decode(project.state),
+        history: project.history && {
+            entries: project.history.entries.map(decode),
+            index: project.history.index
+        },
+        generator: project.generator as GeneratorSettings,
+        view: project.view,
+        editor: project.editor
+    };
+}
@@ -1,21 +1,91 @@
-import { type GridData, type GridMetadata, CELL_OCCUPIED, CELL_FREE } from '../types';
+import { type GridData, type GridMetadata, type Pose, CELL_UNKNOWN } from '../types';
 import { shiftGridToStartOrigin } from './exportUtils';
+import { gridToWorld } from './geometryUtils';
+
+export type PGMFormat = 'P2' | 'P5';
+export type MapMode = 'trinary' | 'scale' | 'raw';
+
+/**
+ * Options shared by the PGM and YAML generators so pixel values and
+ * thresholds always describe the same interpretation.
+ */
+export interface RosExportOptions {
+    format: PGMFormat;
+    mode: MapMode;
+    negate: boolean;
+    occupiedThresh: number;
+    freeThresh: number;
+    imageFilename: string;
+}
+
+export const DEFAULT_ROS_EXPORT_OPTIONS: RosExportOptions = {
+    format: 'P5',
+    mode: 'trinary',
+    negate: false,
+    occupiedThresh: 0.65,
+    freeThresh: 0.196,
+    imageFilename: 'map.pgm'
+};
+
+const P2_DEFAULTS: RosExportOptions = { ...DEFAULT_ROS_EXPORT_OPTIONS, format: 'P2' };
+
+/**
+ * Maps an occupancy value (0-100, or -1 for unknown) to a PGM pixel.
+ * map_server reads a pixel p as occupancy (255 - p) / 255, or p / 255 when negated.
+ *
+ * - trinary: Occupied -> 0, Free -> 254, Unknown -> 205 (the map_saver values)
+ * - scale:   Values between the thresholds are spread linearly between them
+ * - raw:     The value is written as-is, unknown as 255
+ */
+export function occupancyToPixel(value: number, options: RosExportOptions): number {
+    if (options.mode === 'raw') {
+        return value === CELL_UNKNOWN ? 255 : value;
+    }
+
+    const { occupiedThresh: occ, freeThresh: free } = options;
+
+    // 205 is what map_saver writes for unknown; only use it if it lands between the thresholds.
+    // PGM has no alpha channel, so in scale mode unknown is also written this way.
+    const standardUnknown = (255 - 205) / 255;
+    const unknownTarget = standardUnknown > free && standardUnknown < occ ? standardUnknown : (occ + free) / 2;
+
+    // Occupancy in [0, 1] that map_server should read back for this cell
+    let target: number;
+    if (value === CELL_UNKNOWN) {
+        target = unknownTarget;
+    } else if (options.mode === 'trinary') {
+        const p = value / 100;
+        if (p > occ) target = 1;
+        else if (p < free) target = 1 / 255;
+        else target = unknownTarget;
+    } else {
+        // scale: 0 and 100 stay at the extremes, 1-99 map linearly into [free, occ]
+        if (value >= 100) target = 1;
+        else if (value <= 0) target = 1 / 255;
+        else target = free + (value / 99) * (occ - free);
+    }
+
+    const pixel = Math.round(255 * (1 - target));
+    return options.negate ? 255 - pixel : pixel;
+}
+
+const pixelsFor = (data: GridData, width: number, height: number, metadata: GridMetadata | undefined, shiftToStart: boolean) => {
+    // Shifting only changes the origin, but keep the call so both generators agree
+    if (shiftToStart && metadata?.start) {
+        return shiftGridToStartOrigin(data, width, height, metadata).data;
+    }
+    return data;
+};
 
 /**
  * Generates a PGM (P2 format) string from the grid data.
- * ROS map_server:
+ * ROS map_server (trinary defaults):
  * - Occupied (100) -> 0 (Black)
  * - Free (0) -> 254 (White)
  * - Unknown (-1) -> 205 (Gray)
  */
-export function generatePGM(data: GridData, width: number, height: number, metadata?: GridMetadata, shiftToStart: boolean = false): string {
-    let finalData = data;
-    
-    // Shift grid if requested
-    if (shiftToStart && metadata?.start) {
-        const shifted = shiftGridToStartOrigin(data, width, height, metadata);
-        finalData = shifted.data;
-    }
+export function generatePGM(data: GridData, width: number, height: number, metadata?: GridMetadata, shiftToStart: boolean = false, options: RosExportOptions = P2_DEFAULTS): string {
+    const finalData = pixelsFor(data, width, height, metadata, shiftToStart);
     let pgm = `P2\n${width} ${height}\n255\n`;
 
     // Limits lines to 70 chars is recommended for PGM P2 but not strictly required by all parsers.
@@ -23,12 +93,7 @@ export function generatePGM(data: GridData, width: number, height: number, metad
     let line = '';
 
     for (let i = 0; i < finalData.length; i++) {
-        let val = 205; // Default Unknown
-        if (finalData[i] === CELL_OCCUPIED) {
-            val = 0;
-        } else if (finalData[i] === CELL_FREE) {
-            val = 254;
-        }
+        const val = occupancyToPixel(finalData[i], options);
 
         const segment = val.toString() + ' ';
         if (line.length + segment.length > 70) {
@@ -47,16 +112,31 @@ export function generatePGM(data: GridData, width: number, height: number, metad
 }
 
 /**
- * Generates the YAML configuration file for ROS map_server.
+ * Generates a binary PGM (P5 format). One byte per cell, roughly 4x smaller than P2
+ * and much faster to write for large maps.
  */
-export function generateYAML(metadata: GridMetadata, imageFilename: string = 'map.pgm', shiftToStart: boolean = false): string {
+export function generatePGMBinary(data: GridData, width: number, height: number, metadata?: GridMetadata, shiftToStart: boolean = false, options: RosExportOptions = DEFAULT_ROS_EXPORT_OPTIONS): Uint8Array {
+    const finalData = pixelsFor(data, width, height, metadata, shiftToStart);
+    const header = new TextEncoder().encode(`P5\n${width} ${height}\n255\n`);
+
+    const pgm = new Uint8Array(header.length + width * height);
+    pgm.set(header);
+    for (let i = 0; i < finalData.length; i++) {
+        pgm[header.length + i] = occupancyToPixel(finalData[i], options);
+    }
+
+    return pgm;
+}
+
+// Metadata as written to map.yaml, with the origin moved to the start when requested
+const yamlMetadata = (metadata: GridMetadata, shiftToStart: boolean): GridMetadata => {
     let finalMetadata = { ...metadata };
-    
+
     // If no start is set, set it to (0,0)
     if (!finalMetadata.start) {
         finalMetadata.start = { x: 0, y: 0 };
     }
-    
+
     // Shift metadata if requested
     if (shiftToStart && finalMetadata.start) {
         const shifted = shiftGridToStartOrigin(
@@ -67,12 +147,52 @@ export function generateYAML(metadata: GridMetadata, imageFilename: string = 'ma
         );
         finalMetadata = shifted.metadata;
     }
-    
+
+    return finalMetadata;
+};
+
+/**
+ * Generates the YAML configuration file for ROS map_server.
+ */
+export function generateYAML(metadata: GridMetadata, imageFilename: string = 'map.pgm', shiftToStart: boolean = false, options: RosExportOptions = DEFAULT_ROS_EXPORT_OPTIONS): string {
+    const finalMetadata = yamlMetadata(metadata, shiftToStart);
+
     return `image: ${imageFilename}
+mode: ${options.mode}
 resolution: ${finalMetadata.resolution}
 origin: [${finalMetadata.origin.x}, ${finalMetadata.origin.y}, ${finalMetadata.origin.theta}]
-negate: 0
-occupied_thresh: 0.65
-free_thresh: 0.196
+negate: ${options.negate ? 1 : 0}
+occupied_thresh: ${options.occupiedThresh}
+free_thresh: ${options.freeThresh}
 `;
 }
+
+export const POSES_FILENAME = 'poses.yaml';
+
+/**
+ * Generates the start, goal and waypoints as poses in the map frame of the exported map.yaml:
+ * meters at the cell centers and yaw in radians. Returns null when there is nothing to write.
+ */
+export function generatePosesYAML(metadata: GridMetadata, height: number, shiftToStart: boolean = false): string | null {
+    const { start, goal, waypoints = [] } = metadata;
+    if (!start && !goal && waypoints.length === 0) return null;
+
+    const frame = yamlMetadata(metadata, shiftToStart);
+    const round = (v: number) => Math.round(v * 1e6) / 1e6;
+    const pose = (p: Pose) => {
+        const world = gridToWorld(p.x + 0.5, p.y + 0.5, height, frame);
+        const yaw = p.theta !== undefined ? `, theta: ${round(p.theta + frame.origin.theta)}` : '';
+        return `x: ${round(world.x)}, y: ${round(world.y)}${yaw}`;
+    };
+
+    let yaml = '# Poses in the map frame: x and y in meters, theta (yaw) in radians\n';
+    if (start) yaml += `start: {${pose(start)}}\n`;
+    if (goal) yaml += `goal: {${pose(goal)}}\n`;
+    if (waypoints.length > 0) {
+        yaml += 'waypoints:\n';
+        for (const wp of waypoints) {
+            yaml += `  - {name: ${JSON.stringify(wp.name)}, ${pose(wp)}}\n`;
+        }
+    }
+    return yaml;
+}
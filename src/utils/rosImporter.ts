@@ -0,0 +1,322 @@
+import JSZip from 'jszip';
+import { type GridData, type GridMetadata, type GridState, type ImportSource, type Pose, CELL_OCCUPIED, CELL_FREE, CELL_UNKNOWN } from '../types';
+import type { MapMode } from './rosExporter';
+import { worldToGrid } from './geometryUtils';
+import type { DetectedSource, ImportFormat } from './importDispatcher';
+
+/**
+ * Subset of the ROS map_server YAML we understand.
+ */
+export interface MapYAML {
+    image: string;
+    mode: MapMode;
+    resolution: number;
+    origin: [number, number, number];
+    negate: boolean;
+    occupiedThresh: number;
+    freeThresh: number;
+}
+
+export interface ParsedPGM {
+    width: number;
+    height: number;
+    maxVal: number;
+    pixels: Uint16Array; // Row-major, row 0 is the top of the image
+}
+
+const DEFAULT_MAP_YAML: Omit<MapYAML, 'image'> = {
+    mode: 'trinary',
+    resolution: 0.05,
+    origin: [0, 0, 0],
+    negate: false,
+    occupiedThresh: 0.65,
+    freeThresh: 0.196
+};
+
+/**
+ * Parses a map_server YAML file.
+ * Only flat `key: value` pairs are supported, which is all map_server writes.
+ */
+export function parseMapYAML(text: string): MapYAML {
+    const values: Record<string, string> = {};
+
+    for (const line of text.split('\n')) {
+        // Strip comments and skip blank lines
+        const trimmed = line.replace(/#.*$/, '').trim();
+        if (!trimmed) continue;
+
+        const sep = trimmed.indexOf(':');
+        if (sep === -1) continue;
+        const key = trimmed.substring(0, sep).trim();
+        const value = trimmed.substring(sep + 1).trim().replace(/^['"]|['"]$/g, '');
+        values[key] = value;
+    }
+
+    if (!values.image) {
+        throw new Error('Map YAML is missing the "image" field');
+    }
+
+    const num = (key: string, fallback: number): number => {
+        if (values[key] === undefined) return fallback;
+        const val = parseFloat(values[key]);
+        if (isNaN(val)) throw new Error(`Map YAML field "${key}" is not a number: "${values[key]}"`);
+        return val;
+    };
+
+    let origin = DEFAULT_MAP_YAML.origin;
+    if (values.origin !== undefined) {
+        const parts = values.origin.replace(/[[\]]/g, '').split(',').map(p => parseFloat(p.trim()));
+        if (parts.length !== 3 || parts.some(isNaN)) {
+            throw new Error(`Map YAML origin must be [x, y, theta], got "${values.origin}"`);
+        }
+        origin = [parts[0], parts[1], parts[2]];
+    }
+
+    const resolution = num('resolution', DEFAULT_MAP_YAML.resolution);
+    if (resolution <= 0) {
+        throw new Error('Map YAML resolution must be positive');
+    }
+
+    const mode = (values.mode ?? DEFAULT_MAP_YAML.mode) as MapMode;
+    if (!['trinary', 'scale', 'raw'].includes(mode)) {
+        throw new Error(`Unsupported map mode "${mode}"`);
+    }
+
+    return {
+        image: values.image,
+        mode,
+        resolution,
+        origin,
+        negate: num('negate', 0) !== 0,
+        occupiedThresh: num('occupied_thresh', DEFAULT_MAP_YAML.occupiedThresh),
+        freeThresh: num('free_thresh', DEFAULT_MAP_YAML.freeThresh)
+    };
+}
+
+/**
+ * Parses a PGM image in either P2 (ASCII) or P5 (binary) format.
+ */
+export function parsePGM(bytes: Uint8Array): ParsedPGM {
+    let pos = 0;
+
+    // Reads the next whitespace-delimited header token, skipping '#' comments
+    const nextToken = (): string => {
+        while (pos < bytes.length) {
+            const c = bytes[pos];
+            if (c === 0x23) { // '#'
+                while (pos < bytes.length && bytes[pos] !== 0x0A) pos++;
+            } else if (c === 0x20 || c === 0x09 || c === 0x0A || c === 0x0D) {
+                pos++;
+            } else {
+                break;
+            }
+        }
+        const start = pos;
+        while (pos < bytes.length && ![0x20, 0x09, 0x0A, 0x0D, 0x23].includes(bytes[pos])) pos++;
+        return String.fromCharCode(...bytes.subarray(start, pos));
+    };
+
+    const magic = nextToken();
+    if (magic !== 'P2' && magic !== 'P5') {
+        throw new Error(`Unsupported PGM format "${magic}", expected P2 or P5`);
+    }
+
+    const width = parseInt(nextToken(), 10);
+    const height = parseInt(nextToken(), 10);
+    const maxVal = parseInt(nextToken(), 10);
+    if (!(width > 0) || !(height > 0) || !(maxVal > 0) || maxVal > 65535) {
+        throw new Error('Invalid PGM header');
+    }
+
+    const pixels = new Uint16Array(width * height);
+
+    if (magic === 'P5') {
+        // Exactly one whitespace byte separates the header from the raster
+        pos++;
+        const bytesPerPixel = maxVal > 255 ? 2 : 1;
+        if (bytes.length - pos < pixels.length * bytesPerPixel) {
+            throw new Error('PGM raster is truncated');
+        }
+        for (let i = 0; i < pixels.length; i++) {
+            pixels[i] = bytesPerPixel === 2
+                ? (bytes[pos + 2 * i] << 8) | bytes[pos + 2 * i + 1] // Big-endian
+                : bytes[pos + i];
+        }
+    } else {
+        for (let i = 0; i < pixels.length; i++) {
+            const token = nextToken();
+            if (!token) throw new Error('PGM raster is truncated');
+            const val = parseInt(token, 10);
+            if (isNaN(val)) throw new Error(`Invalid PGM value "${token}"`);
+            pixels[i] = val;
+        }
+    }
+
+    return { width, height, maxVal, pixels };
+}
+
+/**
+ * Converts PGM pixels to occupancy values the same way map_server does:
+ * occupancy = (max - p) / max (or p / max when negated), then thresholded.
+ * In scale mode values between the thresholds become 1-99; in raw mode
+ * pixels are taken verbatim with anything above 100 treated as unknown.
+ */
+export function pgmToGrid(pgm: ParsedPGM, yaml: Omit<MapYAML, 'image'>): GridData {
+    const data = new Int8Array(pgm.width * pgm.height);
+
+    for (let i = 0; i < pgm.pixels.length; i++) {
+        const p = pgm.pixels[i];
+
+        if (yaml.mode === 'raw') {
+            data[i] = p <= 100 ? p : CELL_UNKNOWN;
+            continue;
+        }
+
+        const occ = yaml.negate ? p / pgm.maxVal : (pgm.maxVal - p) / pgm.maxVal;
+
+        if (occ > yaml.occupiedThresh) {
+            data[i] = CELL_OCCUPIED;
+        } else if (occ < yaml.freeThresh) {
+            data[i] = CELL_FREE;
+        } else if (yaml.mode === 'scale') {
+            data[i] = Math.round(99 * (occ - yaml.freeThresh) / (yaml.occupiedThresh - yaml.freeThresh));
+        } else {
+            data[i] = CELL_UNKNOWN;
+        }
+    }
+
+    return data;
+}
+
+/**
+ * Builds a grid from a map YAML and the bytes of the image it references.
+ * Image row 0 is the top of the map, which matches the editor's row order.
+ */
+export function parseROSMap(yaml: Omit<MapYAML, 'image'>, imageBytes: Uint8Array): GridState {
+    const pgm = parsePGM(imageBytes);
+
+    const metadata: GridMetadata = {
+        resolution: yaml.resolution,
+        origin: { x: yaml.origin[0], y: yaml.origin[1], theta: yaml.origin[2] }
+    };
+
+    return {
+        width: pgm.width,
+        height: pgm.height,
+        data: pgmToGrid(pgm, yaml),
+        metadata
+    };
+}
+
+const baseName = (path: string) => path.split(/[\\/]/).pop() ?? path;
+
+// The poses file written by the ROS export, as opposed to a map YAML
+const isPosesYAML = (text: string) => !/^\s*image\s*:/m.test(text) && /^(start|goal|waypoints)\s*:/m.test(text);
+
+/**
+ * Parses the poses file written by generatePosesYAML back into grid cells, with headings
+ * relative to the grid. Only the flow-mapping layout written there is supported.
+ */
+export function parsePosesYAML(text: string, height: number, metadata: GridMetadata): Pick<GridMetadata, 'start' | 'goal' | 'waypoints'> {
+    const toPose = (fields: string): Pose => {
+        const num = (key: string) => {
+            const match = fields.match(new RegExp(`\\b${key}\\s*:\\s*([-+0-9.eE]+)`));
+            return match ? parseFloat(match[1]) : NaN;
+        };
+        const x = num('x');
+        const y = num('y');
+        if (isNaN(x) || isNaN(y)) throw new Error(`Pose is missing x or y: {${fields}}`);
+
+        const cell = worldToGrid(x, y, height, metadata);
+        const theta = num('theta');
+        return isNaN(theta)
+            ? { x: Math.floor(cell.x), y: Math.floor(cell.y) }
+            : { x: Math.floor(cell.x), y: Math.floor(cell.y), theta: theta - metadata.origin.theta };
+    };
+
+    const poses: Pick<GridMetadata, 'start' | 'goal' | 'waypoints'> = {};
+    for (const line of text.split('\n')) {
+        const trimmed = line.trim();
+        if (!trimmed || trimmed.startsWith('#')) continue;
+
+        const point = trimmed.match(/^(start|goal)\s*:\s*\{(.*)\}$/);
+        if (point) {
+            poses[point[1] as 'start' | 'goal'] = toPose(point[2]);
+            continue;
+        }
+
+        const item = trimmed.match(/^-\s*\{(.*)\}$/);
+        if (item) {
+            // Names are JSON-style quoted strings; take them out before reading the numbers
+            const nameMatch = item[1].match(/\bname\s*:\s*("(?:[^"\\]|\\.)*"|[^,}]*)/);
+            const raw = nameMatch?.[1].trim() ?? '';
+            const name = raw.startsWith('"') ? JSON.parse(raw) as string : raw;
+            const fields = nameMatch ? item[1].replace(nameMatch[0], '') : item[1];
+            const waypoints = poses.waypoints ?? (poses.waypoints = []);
+            waypoints.push({ name: name || `WP${waypoints.length + 1}`, ...toPose(fields) });
+        }
+    }
+    return poses;
+}
+
+// Adds the start, goal and waypoints from a poses file to an imported map
+const withPoses = (grid: GridState, posesText: string | undefined): GridState => posesText === undefined
+    ? grid
+    : { ...grid, metadata: { ...grid.metadata, ...parsePosesYAML(posesText, grid.height, grid.metadata) } };
+
+/**
+ * Imports a set of loose files: a map YAML plus its image, or a bare PGM, optionally
+ * with the poses file. Files are told apart by the format the import dispatcher detected
+ * from their content, so names without an extension work too. A bare PGM uses the default
+ * map_server thresholds and the given resolution.
+ */
+export async function parseROSFiles(files: DetectedSource[], defaultResolution: number = 0.05): Promise<GridState> {
+    const decode = (f: ImportSource) => new TextDecoder().decode(f.bytes);
+    const ofFormat = (format: ImportFormat) => files.filter(f => f.format === format).map(f => f.source);
+    const yamlFile = ofFormat('ros-yaml')[0];
+    const posesFile = ofFormat('ros-poses')[0];
+    const posesText = posesFile && decode(posesFile);
+    const pgmFiles = ofFormat('pgm');
+
+    if (!yamlFile) {
+        if (pgmFiles.length === 0) throw new Error('No map YAML or PGM image selected');
+        return withPoses(parseROSMap({ ...DEFAULT_MAP_YAML, resolution: defaultResolution }, pgmFiles[0].bytes), posesText);
+    }
+
+    // The image named in the YAML, else the only PGM among the files
+    const yaml = parseMapYAML(decode(yamlFile));
+    const imageFile = files.find(f => f.source.name === baseName(yaml.image))?.source
+        ?? (pgmFiles.length === 1 ? pgmFiles[0] : undefined);
+    if (!imageFile) {
+        throw new Error(`Map image "${yaml.image}" referenced by ${yamlFile.name} was not selected`);
+    }
+
+    return withPoses(parseROSMap(yaml, imageFile.bytes), posesText);
+}
+
+/**
+ * Imports a zip archive such as the one written by the ROS export.
+ */
+export async function parseROSZip(buffer: ArrayBuffer): Promise<GridState> {
+    const zip = await JSZip.loadAsync(buffer);
+    const entries = Object.values(zip.files).filter(f => !f.dir);
+
+    const yamlEntries = await Promise.all(entries
+        .filter(f => /\.ya?ml$/i.test(f.name))
+        .map(async f => ({ entry: f, text: await f.async('string') })));
+    const poses = yamlEntries.find(y => isPosesYAML(y.text));
+    const mapYAML = yamlEntries.find(y => y !== poses);
+    if (!mapYAML) throw new Error('Zip archive does not contain a map YAML');
+
+    const yamlEntry = mapYAML.entry;
+    const yaml = parseMapYAML(mapYAML.text);
+
+    // Image paths are relative to the YAML; fall back to a basename match anywhere in the archive
+    const dir = yamlEntry.name.includes('/') ? yamlEntry.name.substring(0, yamlEntry.name.lastIndexOf('/') + 1) : '';
+    const imageEntry = zip.file(dir + yaml.image) ?? entries.find(f => baseName(f.name) === baseName(yaml.image));
+    if (!imageEntry) {
+        throw new Error(`Zip archive does not contain the map image "${yaml.image}"`);
+    }
+
+    return withPoses(parseROSMap(yaml, await imageEntry.async('uint8array')), poses?.text);
+}
@@ -0,0 +1,198 @@
+import type { GridMetadata, Pose, Scenario } from '../types';
+import { parseMovingAIScen } from './movingAI';
+import { SCENARIO_SET_FORMAT, ScenarioSetSchema } from './validators';
+
+/**
+ * Makes scenario `index` the active pair: its start and goal become metadata.start/goal,
+ * which is what the canvas and every exporter read.
+ */
+export function activateScenario(metadata: GridMetadata, index: number): GridMetadata {
+    const scenario = metadata.scenarios?.[index];
+    if (!scenario) return metadata;
+    return { ...metadata, activeScenario: index, start: { ...scenario.start }, goal: { ...scenario.goal } };
+}
+
+/**
+ * Writes start/goal back into the active scenario after they were edited. Without both
+ * points there is no pair to store, so the scenario is left as it was and deactivated.
+ */
+export function syncActiveScenario(metadata: GridMetadata): GridMetadata {
+    const { scenarios, activeScenario: active, start, goal } = metadata;
+    if (active === undefined || !scenarios?.[active]) return metadata;
+    if (!start || !goal) {
+        const next = { ...metadata };
+        delete next.activeScenario;
+        return next;
+    }
+    return {
+        ...metadata,
+        scenarios: scenarios.map((s, i) => i === active ? { ...s, start: { ...start }, goal: { ...goal } } : s)
+    };
+}
+
+/**
+ * Appends a scenario and makes it the active pair.
+ */
+export function addScenario(metadata: GridMetadata, scenario: Scenario): GridMetadata {
+    const scenarios = [...(metadata.scenarios ?? []), scenario];
+    return activateScenario({ ...metadata, scenarios }, scenarios.length - 1);
+}
+
+/**
+ * Removes a scenario. Removing the active one keeps start/goal where they are.
+ */
+export function removeScenario(metadata: GridMetadata, index: number): GridMetadata {
+    const scenarios = (metadata.scenarios ?? []).filter((_, i) => i !== index);
+    const next: GridMetadata = { ...metadata, scenarios };
+    const active = metadata.activeScenario;
+    if (active === index) delete next.activeScenario;
+    else if (active !== undefined && active > index) next.activeScenario = active - 1;
+    if (scenarios.length === 0) delete next.scenarios;
+    return next;
+}
+
+/**
+ * Moves a scenario to another position; the active pair follows its scenario.
+ */
+export function moveScenario(metadata: GridMetadata, from: number, to: number): GridMetadata {
+    const scenarios = (metadata.scenarios ?? []).slice();
+    if (from === to || to < 0 || to >= scenarios.length) return metadata;
+    const [moved] = scenarios.splice(from, 1);
+    scenarios.splice(to, 0, moved);
+
+    let active = metadata.activeScenario;
+    if (active === from) active = to;
+    else if (active !== undefined && from < active && to >= active) active--;
+    else if (active !== undefined && from > active && to <= active) active++;
+    return { ...metadata, scenarios, activeScenario: active };
+}
+
+/**
+ * Sets or (with an empty string) removes a scenario's label.
+ */
+export function labelScenario(metadata: GridMetadata, index: number, label: string): GridMetadata {
+    const scenarios = (metadata.scenarios ?? []).map((s, i) => {
+        if (i !== index) return s;
+        const next: Scenario = { ...s, label: label.trim() };
+        if (!next.label) delete next.label;
+        return next;
+    });
+    return { ...metadata, scenarios };
+}
+
+/**
+ * A scenario set as JSON, read back by parseScenarioSet.
+ */
+export function serializeScenarioSet(scenarios: Scenario[], width: number, height: number): string {
+    return JSON.stringify({ format: SCENARIO_SET_FORMAT, width, height, scenarios }, null, 2);
+}
+
+const CSV_COLUMNS = ['label', 'start_x', 'start_y', 'start_theta', 'goal_x', 'goal_y', 'goal_theta'] as const;
+
+// Quotes a field when it contains a separator, quote or line break
+const csvField = (value: string) => /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+// Splits one CSV line, honoring double-quoted fields
+const splitCSVLine = (line: string): string[] => {
+    const fields: string[] = [];
+    let field = '';
+    let quoted = false;
+    for (let i = 0; i < line.length; i++) {
+        const c = line[i];
+        if (quoted) {
+            if (c === '"' && line[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (c === '"') {
+                quoted = false;
+            } else {
+                field += c;
+            }
+        } else if (c === '"') {
+            quoted = true;
+        } else if (c === ',') {
+            fields.push(field);
+            field = '';
+        } else {
+            field += c;
+        }
+    }
+    fields.push(field);
+    return fields.map(f => f.trim());
+};
+
+/**
+ * One scenario per row with a header line. Coordinates are cells from the top-left;
+ * an empty theta means no heading.
+ */
+export function scenariosToCSV(scenarios: Scenario[]): string {
+    const rows = scenarios.map(s => [
+        csvField(s.label ?? ''),
+        s.start.x,
+        s.start.y,
+        s.start.theta ?? '',
+        s.goal.x,
+        s.goal.y,
+        s.goal.theta ?? ''
+    ].join(','));
+    return [CSV_COLUMNS.join(','), ...rows].join('\n') + '\n';
+}
+
+function parseScenarioCSV(text: string): Scenario[] {
+    const lines = text.split(/\r?\n/).filter(l => l.trim());
+    const header = splitCSVLine(lines[0] ?? '').map(h => h.toLowerCase());
+    const column = (name: string) => header.indexOf(name);
+    for (const required of ['start_x', 'start_y', 'goal_x', 'goal_y']) {
+        if (column(required) === -1) throw new Error(`Scenario CSV is missing the "${required}" column`);
+    }
+
+    return lines.slice(1).map((line, i) => {
+        const fields = splitCSVLine(line);
+        const num = (name: string) => parseFloat(fields[column(name)] ?? '');
+        const pose = (prefix: string): Pose => {
+            const x = num(`${prefix}_x`);
+            const y = num(`${prefix}_y`);
+            if (!Number.isInteger(x) || !Number.isInteger(y)) {
+                throw new Error(`Scenario CSV row ${i + 2} has an invalid ${prefix} cell`);
+            }
+            const theta = num(`${prefix}_theta`);
+            return isNaN(theta) ? { x, y } : { x, y, theta };
+        };
+        const label = column('label') === -1 ? '' : fields[column('label')] ?? '';
+        return { start: pose('start'), goal: pose('goal'), ...(label && { label }) };
+    });
+}
+
+/**
+ * Reads a scenario set exported as JSON or CSV, or a MovingAI .scen file, for a map of the
+ * given size. Throws when the set belongs to another map or a point lies outside the grid.
+ */
+export function parseScenarioSet(text: string, width: number, height: number): Scenario[] {
+    const trimmed = text.replace(/^\uFEFF/, '').trim();
+    let scenarios: Scenario[];
+
+    if (trimmed.startsWith('{')) {
+        const set = ScenarioSetSchema.parse(JSON.parse(trimmed));
+        if (set.width !== width || set.height !== height) {
+            throw new Error(`Scenarios are for a ${set.width}x${set.height} map, but the map is ${width}x${height}`);
+        }
+        scenarios = set.scenarios;
+    } else if (/^version\s+\d/.test(trimmed)) {
+        const scen = parseMovingAIScen(trimmed);
+        if (scen.mapWidth !== width || scen.mapHeight !== height) {
+            throw new Error(`Scenarios are for a ${scen.mapWidth}x${scen.mapHeight} map, but the map is ${width}x${height}`);
+        }
+        scenarios = scen.scenarios;
+    } else {
+        scenarios = parseScenarioCSV(trimmed);
+    }
+
+    const inside = (p: Pose) => p.x >= 0 && p.x < width && p.y >= 0 && p.y < height;
+    scenarios.forEach((s, i) => {
+        if (!inside(s.start) || !inside(s.goal)) {
+            throw new Error(`Scenario ${i + 1} lies outside the ${width}x${height} map`);
+        }
+    });
+    if (scenarios.length === 0) throw new Error('No scenarios found');
+    return scenarios;
+}
@@ -0,0 +1,107 @@
+import type { GridData, GridMetadata } from '../types';
+import { shiftGridToStartOrigin } from './exportUtils';
+import { gridToWorld, mergeOccupiedRects } from './geometryUtils';
+
+export interface WorldExportOptions {
+    include: boolean; // Add the world to the ROS zip
+    wallHeight: number; // Meters
+    worldName: string;
+}
+
+export const DEFAULT_WORLD_EXPORT_OPTIONS: WorldExportOptions = {
+    include: false,
+    wallHeight: 1.0,
+    worldName: 'occupancy_world'
+};
+
+const fmt = (n: number) => Number(n.toFixed(6)).toString();
+
+const escapeXML = (s: string) => s.replace(/[<>&'"]/g, c => `&#${c.charCodeAt(0)};`);
+
+/**
+ * Generates an SDF world (Gazebo Classic and Ignition/Gazebo Sim) with the occupied
+ * cells extruded into static box walls. Adjacent cells are merged into rectangles so
+ * large maps stay at a manageable number of collision shapes.
+ */
+export function generateSDF(
+    data: GridData,
+    width: number,
+    height: number,
+    metadata: GridMetadata,
+    shiftToStart: boolean = false,
+    options: WorldExportOptions = DEFAULT_WORLD_EXPORT_OPTIONS
+): string {
+    let finalMetadata = metadata;
+
+    // Shift grid if requested (only the origin changes)
+    if (shiftToStart && metadata.start) {
+        finalMetadata = shiftGridToStartOrigin(data, width, height, metadata).metadata;
+    }
+
+    const res = finalMetadata.resolution;
+    const h = options.wallHeight;
+    const yaw = finalMetadata.origin.theta;
+
+    // Ground plane centered under the map, with some margin around it
+    const mapCenter = gridToWorld(width / 2, height / 2, height, finalMetadata);
+    const groundSize = fmt(Math.max(10, Math.ceil(Math.max(width, height) * res * 1.5)));
+    const groundPose = `${fmt(mapCenter.x)} ${fmt(mapCenter.y)} 0 0 0 0`;
+
+    const walls = mergeOccupiedRects(data, width, height).map((r, i) => {
+        const center = gridToWorld(r.x + r.w / 2, r.y + r.h / 2, height, finalMetadata);
+        const pose = `${fmt(center.x)} ${fmt(center.y)} ${fmt(h / 2)} 0 0 ${fmt(yaw)}`;
+        const size = `${fmt(r.w * res)} ${fmt(r.h * res)} ${fmt(h)}`;
+        return `        <collision name="wall_${i}_collision">
+          <pose>${pose}</pose>
+          <geometry><box><size>${size}</size></box></geometry>
+        </collision>
+        <visual name="wall_${i}_visual">
+          <pose>${pose}</pose>
+          <geometry><box><size>${size}</size></box></geometry>
+          <material>
+            <ambient>0.3 0.3 0.3 1</ambient>
+            <diffuse>0.5 0.5 0.5 1</diffuse>
+          </material>
+        </visual>`;
+    });
+
+    return `<?xml version="1.0"?>
+<sdf version="1.7">
+  <world name="${escapeXML(options.worldName)}">
+    <gravity>0 0 -9.81</gravity>
+
+    <light name="sun" type="directional">
+      <cast_shadows>true</cast_shadows>
+      <pose>0 0 10 0 0 0</pose>
+      <diffuse>0.8 0.8 0.8 1</diffuse>
+      <specular>0.2 0.2 0.2 1</specular>
+      <direction>-0.5 0.1 -0.9</direction>
+    </light>
+
+    <model name="ground_plane">
+      <static>true</static>
+      <pose>${groundPose}</pose>
+      <link name="link">
+        <collision name="collision">
+          <geometry><plane><normal>0 0 1</normal><size>${groundSize} ${groundSize}</size></plane></geometry>
+        </collision>
+        <visual name="visual">
+          <geometry><plane><normal>0 0 1</normal><size>${groundSize} ${groundSize}</size></plane></geometry>
+          <material>
+            <ambient>0.8 0.8 0.8 1</ambient>
+            <diffuse>0.8 0.8 0.8 1</diffuse>
+          </material>
+        </visual>
+      </link>
+    </model>
+
+    <model name="occupancy_walls">
+      <static>true</static>
+      <link name="walls">
+${walls.join('\n')}
+      </link>
+    </model>
+  </world>
+</sdf>
+`;
+}
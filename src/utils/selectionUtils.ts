@@ -0,0 +1,113 @@
+import type { GridData } from '../types';
+import type { CellRect } from './drawingUtils';
+import { SELECTION_CLIPBOARD_FORMAT, SelectionClipboardSchema } from './validators';
+
+// A rectangular block of cells cut out of a grid (row-major, like the grid itself)
+export interface GridRegion {
+    width: number;
+    height: number;
+    data: Int8Array;
+}
+
+export type FlipAxis = 'horizontal' | 'vertical';
+
+/**
+ * Copies the cells under `rect` into a region. Parts of the rect outside the grid are dropped.
+ */
+export function extractRegion(data: GridData, width: number, height: number, rect: CellRect): GridRegion {
+    const x0 = Math.max(0, rect.x);
+    const y0 = Math.max(0, rect.y);
+    const x1 = Math.min(width, rect.x + rect.w);
+    const y1 = Math.min(height, rect.y + rect.h);
+    const w = Math.max(0, x1 - x0);
+    const h = Math.max(0, y1 - y0);
+
+    const region = new Int8Array(w * h);
+    for (let y = 0; y < h; y++) {
+        region.set(data.subarray((y0 + y) * width + x0, (y0 + y) * width + x0 + w), y * w);
+    }
+    return { width: w, height: h, data: region };
+}
+
+/**
+ * Rotates a region by 90°, clockwise on screen (row 0 is the top) unless `clockwise` is false.
+ */
+export function rotateRegion(region: GridRegion, clockwise: boolean = true): GridRegion {
+    const { width: w, height: h } = region;
+    const data = new Int8Array(w * h);
+    for (let y = 0; y < h; y++) {
+        for (let x = 0; x < w; x++) {
+            const nx = clockwise ? h - 1 - y : y;
+            const ny = clockwise ? x : w - 1 - x;
+            data[ny * h + nx] = region.data[y * w + x];
+        }
+    }
+    return { width: h, height: w, data };
+}
+
+/**
+ * Mirrors a region left-right (horizontal) or top-bottom (vertical).
+ */
+export function flipRegion(region: GridRegion, axis: FlipAxis): GridRegion {
+    const { width: w, height: h } = region;
+    const data = new Int8Array(w * h);
+    for (let y = 0; y < h; y++) {
+        for (let x = 0; x < w; x++) {
+            const sx = axis === 'horizontal' ? w - 1 - x : x;
+            const sy = axis === 'vertical' ? h - 1 - y : y;
+            data[y * w + x] = region.data[sy * w + sx];
+        }
+    }
+    return { width: w, height: h, data };
+}
+
+/**
+ * Returns a copy of the grid with the region written at (x, y), clipped to the grid.
+ */
+export function stampRegion(data: GridData, width: number, height: number, region: GridRegion, x: number, y: number): Int8Array {
+    const result = new Int8Array(data);
+    for (let ry = 0; ry < region.height; ry++) {
+        const gy = y + ry;
+        if (gy < 0 || gy >= height) continue;
+        for (let rx = 0; rx < region.width; rx++) {
+            const gx = x + rx;
+            if (gx < 0 || gx >= width) continue;
+            result[gy * width + gx] = region.data[ry * region.width + rx];
+        }
+    }
+    return result;
+}
+
+/**
+ * Returns a copy of the grid with every cell under `rect` set to `value`.
+ */
+export function fillRegion(data: GridData, width: number, height: number, rect: CellRect, value: number): Int8Array {
+    return stampRegion(data, width, height, { width: rect.w, height: rect.h, data: new Int8Array(rect.w * rect.h).fill(value) }, rect.x, rect.y);
+}
+
+/**
+ * Clipboard text for a region, read back by parseRegion.
+ */
+export function serializeRegion(region: GridRegion): string {
+    return JSON.stringify({
+        format: SELECTION_CLIPBOARD_FORMAT,
+        width: region.width,
+        height: region.height,
+        data: Array.from(region.data)
+    });
+}
+
+/**
+ * Parses clipboard text written by serializeRegion. Returns null for anything else, so other
+ * pasted text can fall through to the regular import.
+ */
+export function parseRegion(text: string): GridRegion | null {
+    if (!text.includes(SELECTION_CLIPBOARD_FORMAT)) return null;
+    try {
+        const parsed = SelectionClipboardSchema.safeParse(JSON.parse(text));
+        if (!parsed.success) return null;
+        return { width: parsed.data.width, height: parsed.data.height, data: Int8Array.from(parsed.data.data) };
+    } catch {
+        return null;
+    }
+}
@@ -1,5 +1,34 @@
 import { z } from 'zod';
 // import { CELL_FREE, CELL_OCCUPIED, CELL_UNKNOWN } from '../types';
+import { TOOLS } from '../types';
+import { DEFAULT_GENERATOR_SETTINGS } from './generatorUtils';
+import { bytesToBase64, decodeRLE } from './gridEncoding';
+
+const CellSchema = z.object({
+    x: z.number().int(),
+    y: z.number().int(),
+});
+
+const PoseSchema = CellSchema.extend({
+    theta: z.number().optional(),
+});
+
+const WaypointSchema = PoseSchema.extend({
+    name: z.string(),
+});
+
+export const ScenarioSchema = z.object({
+    start: PoseSchema,
+    goal: PoseSchema,
+    label: z.string().optional(),
+    bucket: z.number().int().optional(),
+    optimalLength: z.number().optional(),
+});
+
+const FootprintSchema = z.discriminatedUnion('kind', [
+    z.object({ kind: z.literal('circle'), radius: z.number().positive() }),
+    z.object({ kind: z.literal('polygon'), points: z.array(z.object({ x: z.number(), y: z.number() })).min(3) }),
+]);
 
 export const GridMetadataSchema = z.object({
     resolution: z.number().positive(),
@@ -8,13 +37,192 @@ export const GridMetadataSchema = z.object({
         y: z.number(),
         theta: z.number(),
     }),
+    start: PoseSchema.optional(),
+    goal: PoseSchema.optional(),
+    waypoints: z.array(WaypointSchema).optional(),
+    scenarios: z.array(ScenarioSchema).optional(),
+    activeScenario: z.number().int().nonnegative().optional(),
+    footprint: FootprintSchema.optional(),
 });
 
+// Safety cap on grid width and height, shared by every importer
+export const MAX_GRID_SIZE = 2000;
+
+/**
+ * How the `data` field of a JSON grid is stored:
+ * - raw: array of cell values (the original format)
+ * - rle: flat array of [value, count] pairs, row-major
+ * - base64+deflate: zlib-compressed int8 bytes, base64 encoded
+ */
+export const GRID_ENCODINGS = ['raw', 'rle', 'base64+deflate'] as const;
+export type GridEncoding = typeof GRID_ENCODINGS[number];
+
 export const GridImportSchema = z.object({
-    width: z.number().int().positive().max(2000), // Safety cap
-    height: z.number().int().positive().max(2000),
-    data: z.array(z.number()), // We accept number[] in JSON
+    width: z.number().int().positive().max(MAX_GRID_SIZE),
+    height: z.number().int().positive().max(MAX_GRID_SIZE),
+    encoding: z.enum(GRID_ENCODINGS).optional(), // Missing means raw
+    data: z.union([z.array(z.number()), z.string()]), // number[] for raw/rle, string for base64+deflate
     metadata: GridMetadataSchema,
-});
+}).refine(
+    grid => (grid.encoding === 'base64+deflate') === (typeof grid.data === 'string'),
+    grid => ({ message: `data does not match encoding "${grid.encoding ?? 'raw'}"`, path: ['data'] })
+);
 
 export type GridImportType = z.infer<typeof GridImportSchema>;
+
+const Vector3Schema = z.object({
+    x: z.number(),
+    y: z.number(),
+    z: z.number().default(0),
+});
+
+/**
+ * nav_msgs/OccupancyGrid as produced by `ros2 topic echo --json` or rosbridge.
+ */
+export const OccupancyGridMessageSchema = z.object({
+    header: z.object({
+        frame_id: z.string().default('map'),
+    }).passthrough().optional(),
+    info: z.object({
+        resolution: z.number().positive(),
+        width: z.number().int().positive().max(MAX_GRID_SIZE),
+        height: z.number().int().positive().max(MAX_GRID_SIZE),
+        origin: z.object({
+            position: Vector3Schema,
+            orientation: Vector3Schema.extend({ w: z.number() }),
+        }),
+    }).passthrough(),
+    data: z.array(z.number().int().min(-1).max(100)),
+});
+
+export type OccupancyGridMessageType = z.infer<typeof OccupancyGridMessageSchema>;
+
+export const SELECTION_CLIPBOARD_FORMAT = 'occupancy-editor-selection';
+
+/**
+ * A copied grid region on the system clipboard, so selections can be pasted into other maps or tabs.
+ */
+export const SelectionClipboardSchema = z.object({
+    format: z.literal(SELECTION_CLIPBOARD_FORMAT),
+    width: z.number().int().positive().max(MAX_GRID_SIZE),
+    height: z.number().int().positive().max(MAX_GRID_SIZE),
+    data: z.array(z.number().int().min(-1).max(100)),
+}).refine(region => region.data.length === region.width * region.height, {
+    message: 'data length does not match width * height',
+    path: ['data'],
+});
+
+export const SCENARIO_SET_FORMAT = 'occupancy-editor-scenarios';
+
+/**
+ * A scenario set exported from the scenario panel. Coordinates are cells from the top-left,
+ * like MovingAI .scen files; the map size guards against loading a set for another map.
+ */
+export const ScenarioSetSchema = z.object({
+    format: z.literal(SCENARIO_SET_FORMAT),
+    width: z.number().int().positive(),
+    height: z.number().int().positive(),
+    scenarios: z.array(ScenarioSchema),
+});
+
+export const PROJECT_FORMAT = 'occupancy-editor-project';
+export const PROJECT_VERSION = 1;
+
+const ShapeTypeSchema = z.enum(['rect', 'square', 'triangle', 'circle', 'cross', 'room']);
+
+export const GeneratorSettingsSchema = z.object({
+    mode: z.enum(['shapes', 'maze', 'bugtrap']),
+    selectedShapes: z.record(ShapeTypeSchema, z.boolean()),
+    count: z.number().int(),
+    minSize: z.number().int(),
+    maxSize: z.number().int(),
+    spacing: z.number().int(),
+    allowOverlap: z.boolean(),
+    clearFirst: z.boolean(),
+    bugtrap: z.object({
+        width: z.number().int(),
+        length: z.number().int(),
+        thickness: z.number().int(),
+        aperture: z.number().int(),
+    }),
+});
+
+// Grid state whose data is an index into the project's pool of base64 grids
+const ProjectGridStateSchema = z.object({
+    width: z.number().int().positive().max(MAX_GRID_SIZE),
+    height: z.number().int().positive().max(MAX_GRID_SIZE),
+    data: z.number().int().nonnegative(),
+    metadata: GridMetadataSchema,
+});
+
+export const ProjectFileSchema = z.object({
+    format: z.literal(PROJECT_FORMAT),
+    version: z.literal(PROJECT_VERSION),
+    grids: z.array(z.string()),
+    state: ProjectGridStateSchema,
+    history: z.object({
+        entries: z.array(ProjectGridStateSchema).min(1),
+        index: z.number().int().nonnegative(),
+    }).refine(h => h.index < h.entries.length, 'History index out of range').optional(),
+    generator: GeneratorSettingsSchema,
+    view: z.object({
+        k: z.number().positive(),
+        x: z.number(),
+        y: z.number(),
+    }).optional(),
+    editor: z.object({
+        tool: z.enum(TOOLS).catch('pencil'), // Tools from newer versions fall back to the pencil
+        useRelativeCoords: z.boolean(),
+        shiftToStart: z.boolean(),
+    }).optional(),
+});
+
+export type ProjectFileType = z.infer<typeof ProjectFileSchema>;
+
+// Plain JSON object before validation; ProjectFileSchema narrows it at the end
+type RawProject = Record<string, unknown>;
+
+// Each migration upgrades a project from its key version to the next one
+const PROJECT_MIGRATIONS: Record<number, (project: RawProject) => RawProject> = {
+    // Version 0: a plain GridState JSON written before project files existed
+    0: (legacy) => {
+        const grid = GridImportSchema.parse(legacy);
+        if (typeof grid.data === 'string') throw new Error('Compressed grid JSON cannot be opened as a project, use Import');
+        const data = grid.encoding === 'rle' ? decodeRLE(grid.data, grid.width * grid.height) : Int8Array.from(grid.data);
+        return {
+            format: PROJECT_FORMAT,
+            version: 1,
+            grids: [bytesToBase64(new Uint8Array(data.buffer))],
+            state: { width: grid.width, height: grid.height, data: 0, metadata: grid.metadata },
+            generator: DEFAULT_GENERATOR_SETTINGS,
+        };
+    },
+};
+
+/**
+ * Upgrades a parsed project file of any known version to the current one and validates it.
+ * Files without a format marker are treated as version 0 (plain grid JSON).
+ */
+export function migrateProject(raw: unknown): ProjectFileType {
+    if (!raw || typeof raw !== 'object') throw new Error('Project file is not a JSON object');
+
+    let project = raw as RawProject;
+    const readVersion = (p: RawProject): number => {
+        const version = p.format === PROJECT_FORMAT ? p.version : 0;
+        if (typeof version !== 'number' || !Number.isInteger(version) || version < 0) {
+            throw new Error(`Invalid project file version: ${version}`);
+        }
+        return version;
+    };
+    let version = readVersion(project);
+    if (version > PROJECT_VERSION) {
+        throw new Error(`Project file version ${version} is newer than this editor supports (${PROJECT_VERSION})`);
+    }
+
+    while (version < PROJECT_VERSION) {
+        project = PROJECT_MIGRATIONS[version](project);
+        version = readVersion(project);
+    }
+
+    return ProjectFileSchema.parse(project);
+}
@@ -0,0 +1,112 @@
+import type { GridData, GridMetadata } from '../types';
+import { shiftGridToStartOrigin } from './exportUtils';
+import { gridToWorld } from './geometryUtils';
+import { ringArea, traceObstacles, type Ring } from './contourUtils';
+
+export interface VectorExportOptions {
+    tolerance: number; // Simplification tolerance in cells, 0 keeps every corner
+}
+
+export const DEFAULT_VECTOR_EXPORT_OPTIONS: VectorExportOptions = {
+    tolerance: 0
+};
+
+const fmt = (n: number) => Number(n.toFixed(6));
+
+/**
+ * Generates a GeoJSON FeatureCollection with one Polygon per connected obstacle, in world
+ * meters (map_server convention, see gridToWorld). Exterior rings are counter-clockwise and
+ * holes clockwise as required by RFC 7946. Start and goal are added as Point features.
+ */
+export function generateGeoJSON(
+    data: GridData,
+    width: number,
+    height: number,
+    metadata: GridMetadata,
+    shiftToStart: boolean = false,
+    options: VectorExportOptions = DEFAULT_VECTOR_EXPORT_OPTIONS
+): string {
+    let finalMetadata = metadata;
+
+    // Shift grid if requested (only the origin changes)
+    if (shiftToStart && metadata.start) {
+        finalMetadata = shiftGridToStartOrigin(data, width, height, metadata).metadata;
+    }
+
+    const res = finalMetadata.resolution;
+
+    // Flipping y turns the grid orientation into the one GeoJSON expects; rings are closed explicitly
+    const toWorld = (ring: Ring) => {
+        const coords = ring.map(([gx, gy]) => {
+            const p = gridToWorld(gx, gy, height, finalMetadata);
+            return [fmt(p.x), fmt(p.y)];
+        });
+        coords.push(coords[0]);
+        return coords;
+    };
+
+    const features: object[] = traceObstacles(data, width, height, options.tolerance).map((poly, i) => ({
+        type: 'Feature',
+        properties: {
+            kind: 'obstacle',
+            id: i,
+            area: fmt((-ringArea(poly.outer) - poly.holes.reduce((sum, h) => sum + ringArea(h), 0)) * res * res)
+        },
+        geometry: {
+            type: 'Polygon',
+            coordinates: [toWorld(poly.outer), ...poly.holes.map(toWorld)]
+        }
+    }));
+
+    // Markers sit at the cell centers
+    for (const role of ['start', 'goal'] as const) {
+        const point = finalMetadata[role];
+        if (!point) continue;
+        const p = gridToWorld(point.x + 0.5, point.y + 0.5, height, finalMetadata);
+        features.push({
+            type: 'Feature',
+            properties: { kind: role },
+            geometry: { type: 'Point', coordinates: [fmt(p.x), fmt(p.y)] }
+        });
+    }
+
+    return JSON.stringify({ type: 'FeatureCollection', features }, null, 2);
+}
+
+/**
+ * Generates an SVG drawing of the obstacles in grid units (one cell = one user unit, y down),
+ * with start and goal drawn as colored markers.
+ */
+export function generateSVG(
+    data: GridData,
+    width: number,
+    height: number,
+    metadata: GridMetadata,
+    options: VectorExportOptions = DEFAULT_VECTOR_EXPORT_OPTIONS
+): string {
+    const ringPath = (ring: Ring) => `M${ring.map(([x, y]) => `${fmt(x)} ${fmt(y)}`).join(' L')} Z`;
+
+    const paths = traceObstacles(data, width, height, options.tolerance).map(poly =>
+        `    <path d="${[poly.outer, ...poly.holes].map(ringPath).join(' ')}"/>`
+    );
+
+    const markerRadius = fmt(Math.max(0.4, Math.max(width, height) / 100));
+    const markers: string[] = [];
+    if (metadata.start) {
+        markers.push(`  <circle cx="${metadata.start.x + 0.5}" cy="${metadata.start.y + 0.5}" r="${markerRadius}" fill="#22c55e"><title>start</title></circle>`);
+    }
+    if (metadata.goal) {
+        markers.push(`  <circle cx="${metadata.goal.x + 0.5}" cy="${metadata.goal.y + 0.5}" r="${markerRadius}" fill="#ef4444"><title>goal</title></circle>`);
+    }
+
+    // Display at 10 px per cell by default; the viewBox keeps the geometry in cells
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<svg xmlns="http://www.w3.org/2000/svg" width="${width * 10}" height="${height * 10}" viewBox="0 0 ${width} ${height}">
+  <rect width="${width}" height="${height}" fill="#ffffff"/>
+  <g fill="#000000" fill-rule="evenodd">
+${paths.join('\n')}
+  </g>
+${markers.join('\n')}
+</svg>
+`;
+}
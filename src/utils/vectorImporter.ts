@@ -0,0 +1,436 @@
+import { type GridState, CELL_OCCUPIED, CELL_FREE } from '../types';
+import { MAX_GRID_SIZE } from './validators';
+
+export interface Segment {
+    x1: number;
+    y1: number;
+    x2: number;
+    y2: number;
+}
+
+/**
+ * A line drawing in its own units, y pointing up. Curves are already flattened into segments.
+ */
+export interface Drawing {
+    segments: Segment[];
+    unitScale?: number; // Meters per drawing unit, if the file declares its units
+}
+
+export interface VectorImportOptions {
+    scale: number; // Meters per drawing unit
+    wallThickness: number; // Meters
+    resolution: number; // Meters per grid cell
+}
+
+export const DEFAULT_VECTOR_IMPORT_OPTIONS: VectorImportOptions = {
+    scale: 0.01,
+    wallThickness: 0.1,
+    resolution: 0.05
+};
+
+type Point = [number, number];
+
+// Polyline approximation of a circular arc, angles in radians (counter-clockwise from start to end)
+function arcPoints(cx: number, cy: number, r: number, start: number, sweep: number): Point[] {
+    const steps = Math.max(2, Math.ceil((Math.abs(sweep) / (2 * Math.PI)) * 64));
+    const points: Point[] = [];
+    for (let i = 0; i <= steps; i++) {
+        const a = start + (sweep * i) / steps;
+        points.push([cx + r * Math.cos(a), cy + r * Math.sin(a)]);
+    }
+    return points;
+}
+
+const pushPolyline = (segments: Segment[], points: Point[]) => {
+    for (let i = 1; i < points.length; i++) {
+        segments.push({ x1: points[i - 1][0], y1: points[i - 1][1], x2: points[i][0], y2: points[i][1] });
+    }
+};
+
+// DXF $INSUNITS codes to meters
+const DXF_UNITS: Record<number, number> = {
+    1: 0.0254, // Inches
+    2: 0.3048, // Feet
+    4: 0.001, // Millimeters
+    5: 0.01, // Centimeters
+    6: 1 // Meters
+};
+
+/**
+ * Parses the LINE, LWPOLYLINE (including bulges), CIRCLE and ARC entities of an ASCII DXF file.
+ * Other entities are ignored. $INSUNITS, when present, becomes the drawing's unit scale.
+ */
+export function parseDXF(text: string): Drawing {
+    const lines = text.split(/\r?\n/);
+    const pairs: { code: number, value: string }[] = [];
+    for (let i = 0; i + 1 < lines.length; i += 2) {
+        pairs.push({ code: parseInt(lines[i].trim()), value: lines[i + 1].trim() });
+    }
+
+    const drawing: Drawing = { segments: [] };
+
+    const units = pairs.findIndex(p => p.code === 9 && p.value === '$INSUNITS');
+    if (units !== -1 && pairs[units + 1]) {
+        drawing.unitScale = DXF_UNITS[parseInt(pairs[units + 1].value)];
+    }
+
+    const start = pairs.findIndex((p, i) => p.code === 2 && p.value === 'ENTITIES' && pairs[i - 1]?.value === 'SECTION');
+    if (start === -1) throw new Error('DXF file has no ENTITIES section');
+
+    let i = start + 1;
+    while (i < pairs.length && !(pairs[i].code === 0 && pairs[i].value === 'ENDSEC')) {
+        const type = pairs[i].value;
+        const group: { code: number, value: string }[] = [];
+        i++;
+        while (i < pairs.length && pairs[i].code !== 0) group.push(pairs[i++]);
+
+        const num = (code: number, fallback = 0) => {
+            const p = group.find(g => g.code === code);
+            return p ? parseFloat(p.value) : fallback;
+        };
+
+        if (type === 'LINE') {
+            drawing.segments.push({ x1: num(10), y1: num(20), x2: num(11), y2: num(21) });
+        } else if (type === 'CIRCLE') {
+            pushPolyline(drawing.segments, arcPoints(num(10), num(20), num(40), 0, 2 * Math.PI));
+        } else if (type === 'ARC') {
+            const a0 = (num(50) * Math.PI) / 180;
+            let sweep = (num(51) * Math.PI) / 180 - a0;
+            if (sweep <= 0) sweep += 2 * Math.PI;
+            pushPolyline(drawing.segments, arcPoints(num(10), num(20), num(40), a0, sweep));
+        } else if (type === 'LWPOLYLINE') {
+            // Vertices are repeated 10/20 groups, each optionally followed by a 42 bulge
+            const vertices: { x: number, y: number, bulge: number }[] = [];
+            for (const g of group) {
+                if (g.code === 10) vertices.push({ x: parseFloat(g.value), y: 0, bulge: 0 });
+                else if (g.code === 20 && vertices.length) vertices[vertices.length - 1].y = parseFloat(g.value);
+                else if (g.code === 42 && vertices.length) vertices[vertices.length - 1].bulge = parseFloat(g.value);
+            }
+            const closed = (num(70) & 1) === 1;
+            const count = closed ? vertices.length : vertices.length - 1;
+
+            for (let v = 0; v < count; v++) {
+                const a = vertices[v];
+                const b = vertices[(v + 1) % vertices.length];
+                if (!a.bulge) {
+                    drawing.segments.push({ x1: a.x, y1: a.y, x2: b.x, y2: b.y });
+                    continue;
+                }
+                // Bulge = tan(sweep / 4); the arc center lies on the chord's perpendicular bisector
+                const sweep = 4 * Math.atan(a.bulge);
+                const chord = Math.hypot(b.x - a.x, b.y - a.y);
+                const r = chord / (2 * Math.sin(Math.abs(sweep) / 2));
+                const d = (chord / 2) / Math.tan(sweep / 2);
+                const mx = (a.x + b.x) / 2 - (d * (b.y - a.y)) / chord;
+                const my = (a.y + b.y) / 2 + (d * (b.x - a.x)) / chord;
+                pushPolyline(drawing.segments, arcPoints(mx, my, r, Math.atan2(a.y - my, a.x - mx), sweep));
+            }
+        }
+    }
+
+    return drawing;
+}
+
+// 2D affine transform [a, b, c, d, e, f] as in SVG matrix()
+type Matrix = [number, number, number, number, number, number];
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+const multiply = (m: Matrix, n: Matrix): Matrix => [
+    m[0] * n[0] + m[2] * n[1],
+    m[1] * n[0] + m[3] * n[1],
+    m[0] * n[2] + m[2] * n[3],
+    m[1] * n[2] + m[3] * n[3],
+    m[0] * n[4] + m[2] * n[5] + m[4],
+    m[1] * n[4] + m[3] * n[5] + m[5]
+];
+
+function parseTransform(attr: string | null): Matrix {
+    let m = IDENTITY;
+    if (!attr) return m;
+    for (const [, name, args] of attr.matchAll(/(\w+)\s*\(([^)]*)\)/g)) {
+        const v = args.split(/[\s,]+/).filter(Boolean).map(Number);
+        let t: Matrix = IDENTITY;
+        if (name === 'matrix' && v.length === 6) t = v as Matrix;
+        else if (name === 'translate') t = [1, 0, 0, 1, v[0] ?? 0, v[1] ?? 0];
+        else if (name === 'scale') t = [v[0] ?? 1, 0, 0, v[1] ?? v[0] ?? 1, 0, 0];
+        else if (name === 'rotate') {
+            const a = ((v[0] ?? 0) * Math.PI) / 180;
+            const [cx, cy] = [v[1] ?? 0, v[2] ?? 0];
+            t = multiply(multiply([1, 0, 0, 1, cx, cy], [Math.cos(a), Math.sin(a), -Math.sin(a), Math.cos(a), 0, 0]), [1, 0, 0, 1, -cx, -cy]);
+        } else if (name === 'skewX') t = [1, 0, Math.tan(((v[0] ?? 0) * Math.PI) / 180), 1, 0, 0];
+        else if (name === 'skewY') t = [1, Math.tan(((v[0] ?? 0) * Math.PI) / 180), 0, 1, 0, 0];
+        m = multiply(m, t);
+    }
+    return m;
+}
+
+// Arc from the current point to (x, y) in SVG endpoint parameterization (SVG spec, appendix B.2.4)
+function svgArcPoints(x1: number, y1: number, rx: number, ry: number, phiDeg: number, largeArc: boolean, sweepFlag: boolean, x2: number, y2: number): Point[] {
+    if (rx === 0 || ry === 0) return [[x1, y1], [x2, y2]];
+    rx = Math.abs(rx);
+    ry = Math.abs(ry);
+    const phi = (phiDeg * Math.PI) / 180;
+    const cos = Math.cos(phi);
+    const sin = Math.sin(phi);
+
+    const dx = (x1 - x2) / 2;
+    const dy = (y1 - y2) / 2;
+    const x1p = cos * dx + sin * dy;
+    const y1p = -sin * dx + cos * dy;
+
+    // Scale up radii that are too small to reach the endpoint
+    const lambda = (x1p * x1p) / (rx * rx) + (y1p * y1p) / (ry * ry);
+    if (lambda > 1) {
+        rx *= Math.sqrt(lambda);
+        ry *= Math.sqrt(lambda);
+    }
+
+    const num = rx * rx * ry * ry - rx * rx * y1p * y1p - ry * ry * x1p * x1p;
+    const den = rx * rx * y1p * y1p + ry * ry * x1p * x1p;
+    const coef = (largeArc === sweepFlag ? -1 : 1) * Math.sqrt(Math.max(0, num / den));
+    const cxp = (coef * rx * y1p) / ry;
+    const cyp = (-coef * ry * x1p) / rx;
+    const cx = cos * cxp - sin * cyp + (x1 + x2) / 2;
+    const cy = sin * cxp + cos * cyp + (y1 + y2) / 2;
+
+    const angle = (ux: number, uy: number, vx: number, vy: number) => Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy);
+    const theta = angle(1, 0, (x1p - cxp) / rx, (y1p - cyp) / ry);
+    let delta = angle((x1p - cxp) / rx, (y1p - cyp) / ry, (-x1p - cxp) / rx, (-y1p - cyp) / ry);
+    if (!sweepFlag && delta > 0) delta -= 2 * Math.PI;
+    if (sweepFlag && delta < 0) delta += 2 * Math.PI;
+
+    return arcPoints(0, 0, 1, theta, delta).map(([ux, uy]) => [
+        cx + cos * rx * ux - sin * ry * uy,
+        cy + sin * rx * ux + cos * ry * uy
+    ]);
+}
+
+const CURVE_STEPS = 16;
+
+/**
+ * Flattens SVG path data into polylines (one per subpath), in the path's own coordinates.
+ */
+export function parseSVGPath(d: string): Point[][] {
+    const tokens = d.match(/[a-zA-Z]|[-+]?(?:\d*\.\d+|\d+\.?)(?:[eE][-+]?\d+)?/g) ?? [];
+    const polylines: Point[][] = [];
+    let current: Point[] = [];
+    let x = 0, y = 0, startX = 0, startY = 0;
+    let lastControl: Point | null = null;
+    let lastCommand = '';
+    let i = 0;
+
+    const next = () => parseFloat(tokens[i++]);
+    const hasNumber = () => i < tokens.length && !/[a-zA-Z]/.test(tokens[i]);
+    const lineTo = (nx: number, ny: number) => {
+        if (current.length === 0) current.push([x, y]);
+        current.push([nx, ny]);
+        x = nx;
+        y = ny;
+    };
+    const curve = (points: (t: number) => Point) => {
+        for (let s = 1; s <= CURVE_STEPS; s++) {
+            const [px, py] = points(s / CURVE_STEPS);
+            lineTo(px, py);
+        }
+    };
+
+    while (i < tokens.length) {
+        let cmd = tokens[i];
+        if (/[a-zA-Z]/.test(cmd)) i++;
+        else if (lastCommand) cmd = lastCommand === 'M' ? 'L' : lastCommand === 'm' ? 'l' : lastCommand; // Implicit repeat
+        else throw new Error(`Invalid path data: ${d.slice(0, 40)}`);
+
+        const rel = cmd === cmd.toLowerCase();
+        const ox = rel ? x : 0;
+        const oy = rel ? y : 0;
+        const upper = cmd.toUpperCase();
+        let control: Point | null = null;
+
+        switch (upper) {
+            case 'M':
+                if (current.length > 1) polylines.push(current);
+                current = [];
+                x = next() + ox;
+                y = next() + oy;
+                startX = x;
+                startY = y;
+                break;
+            case 'L':
+                lineTo(next() + ox, next() + oy);
+                break;
+            case 'H':
+                lineTo(next() + ox, y);
+                break;
+            case 'V':
+                lineTo(x, next() + oy);
+                break;
+            case 'Z':
+                if (current.length > 0) lineTo(startX, startY);
+                if (current.length > 1) polylines.push(current);
+                current = [];
+                break;
+            case 'C':
+            case 'S': {
+                const [x0, y0] = [x, y];
+                let c1: Point;
+                if (upper === 'C') c1 = [next() + ox, next() + oy];
+                else c1 = lastControl && /[CS]/i.test(lastCommand) ? [2 * x0 - lastControl[0], 2 * y0 - lastControl[1]] : [x0, y0];
+                const c2: Point = [next() + ox, next() + oy];
+                const end: Point = [next() + ox, next() + oy];
+                curve(t => {
+                    const u = 1 - t;
+                    return [
+                        u * u * u * x0 + 3 * u * u * t * c1[0] + 3 * u * t * t * c2[0] + t * t * t * end[0],
+                        u * u * u * y0 + 3 * u * u * t * c1[1] + 3 * u * t * t * c2[1] + t * t * t * end[1]
+                    ];
+                });
+                control = c2;
+                break;
+            }
+            case 'Q':
+            case 'T': {
+                const [x0, y0] = [x, y];
+                let c: Point;
+                if (upper === 'Q') c = [next() + ox, next() + oy];
+                else c = lastControl && /[QT]/i.test(lastCommand) ? [2 * x0 - lastControl[0], 2 * y0 - lastControl[1]] : [x0, y0];
+                const end: Point = [next() + ox, next() + oy];
+                curve(t => {
+                    const u = 1 - t;
+                    return [u * u * x0 + 2 * u * t * c[0] + t * t * end[0], u * u * y0 + 2 * u * t * c[1] + t * t * end[1]];
+                });
+                control = c;
+                break;
+            }
+            case 'A': {
+                const rx = next(), ry = next(), rot = next(), large = next() !== 0, sweep = next() !== 0;
+                const ex = next() + ox, ey = next() + oy;
+                for (const [px, py] of svgArcPoints(x, y, rx, ry, rot, large, sweep, ex, ey).slice(1)) lineTo(px, py);
+                break;
+            }
+            default:
+                throw new Error(`Unsupported path command: ${cmd}`);
+        }
+
+        lastControl = control;
+        lastCommand = cmd;
+        // Z takes no arguments, so numbers right after it cannot repeat it
+        if (upper === 'Z' && hasNumber()) lastCommand = '';
+    }
+
+    if (current.length > 1) polylines.push(current);
+    return polylines;
+}
+
+/**
+ * Parses the path, line, rect, polyline and polygon elements of an SVG document, applying
+ * element and group transforms. SVG y points down, so it is flipped to keep the drawing y-up.
+ */
+export function parseSVGDrawing(text: string): Drawing {
+    const doc = new DOMParser().parseFromString(text, 'image/svg+xml');
+    const root = doc.documentElement;
+    if (!root || root.nodeName !== 'svg') throw new Error('Not an SVG document');
+
+    const segments: Segment[] = [];
+    const attr = (el: Element, name: string) => parseFloat(el.getAttribute(name) ?? '0') || 0;
+
+    const emit = (polyline: Point[], m: Matrix) => {
+        const points = polyline.map(([px, py]): Point => [
+            m[0] * px + m[2] * py + m[4],
+            -(m[1] * px + m[3] * py + m[5])
+        ]);
+        pushPolyline(segments, points);
+    };
+
+    const visit = (el: Element, parent: Matrix) => {
+        const m = multiply(parent, parseTransform(el.getAttribute('transform')));
+        const tag = el.localName;
+
+        if (tag === 'defs' || tag === 'clipPath' || tag === 'mask' || tag === 'symbol') return;
+
+        if (tag === 'line') {
+            emit([[attr(el, 'x1'), attr(el, 'y1')], [attr(el, 'x2'), attr(el, 'y2')]], m);
+        } else if (tag === 'rect') {
+            const [x, y, w, h] = [attr(el, 'x'), attr(el, 'y'), attr(el, 'width'), attr(el, 'height')];
+            emit([[x, y], [x + w, y], [x + w, y + h], [x, y + h], [x, y]], m);
+        } else if (tag === 'polyline' || tag === 'polygon') {
+            const v = (el.getAttribute('points') ?? '').split(/[\s,]+/).filter(Boolean).map(Number);
+            const points: Point[] = [];
+            for (let i = 0; i + 1 < v.length; i += 2) points.push([v[i], v[i + 1]]);
+            if (tag === 'polygon' && points.length > 2) points.push(points[0]);
+            emit(points, m);
+        } else if (tag === 'path') {
+            for (const polyline of parseSVGPath(el.getAttribute('d') ?? '')) emit(polyline, m);
+        }
+
+        for (const child of Array.from(el.children)) visit(child, m);
+    };
+
+    visit(root, IDENTITY);
+    return { segments };
+}
+
+/**
+ * Rasterizes a drawing into a new grid covering its bounds (padded by half a wall).
+ * Every cell whose center lies within half the wall thickness of a segment is occupied; walls
+ * thinner than a cell still come out one cell wide. The drawing's (0, 0) becomes world (0, 0),
+ * so metadata.origin holds the world position of the grid's bottom-left corner.
+ */
+export function rasterizeDrawing(drawing: Drawing, options: VectorImportOptions): GridState {
+    const { scale, wallThickness, resolution } = options;
+    if (drawing.segments.length === 0) throw new Error('Drawing contains no supported entities');
+
+    const segments = drawing.segments.map(s => ({ x1: s.x1 * scale, y1: s.y1 * scale, x2: s.x2 * scale, y2: s.y2 * scale }));
+    const pad = wallThickness / 2;
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+    for (const s of segments) {
+        minX = Math.min(minX, s.x1, s.x2);
+        minY = Math.min(minY, s.y1, s.y2);
+        maxX = Math.max(maxX, s.x1, s.x2);
+        maxY = Math.max(maxY, s.y1, s.y2);
+    }
+    minX -= pad;
+    minY -= pad;
+
+    const width = Math.max(1, Math.ceil((maxX + pad - minX) / resolution));
+    const height = Math.max(1, Math.ceil((maxY + pad - minY) / resolution));
+    if (width > MAX_GRID_SIZE || height > MAX_GRID_SIZE) {
+        throw new Error(`Drawing would be ${width} x ${height} cells (max ${MAX_GRID_SIZE}). Increase the resolution or decrease the scale.`);
+    }
+
+    const data = new Int8Array(width * height).fill(CELL_FREE);
+    const radius = Math.max(pad, resolution / 2);
+
+    // Cell (cx, cy) has its center at world (minX + (cx + 0.5) * res, minY + (height - cy - 0.5) * res)
+    for (const s of segments) {
+        const dx = s.x2 - s.x1;
+        const dy = s.y2 - s.y1;
+        const len2 = dx * dx + dy * dy;
+
+        const cx0 = Math.max(0, Math.floor((Math.min(s.x1, s.x2) - radius - minX) / resolution));
+        const cx1 = Math.min(width - 1, Math.floor((Math.max(s.x1, s.x2) + radius - minX) / resolution));
+        const cy0 = Math.max(0, Math.floor(height - (Math.max(s.y1, s.y2) + radius - minY) / resolution));
+        const cy1 = Math.min(height - 1, Math.floor(height - (Math.min(s.y1, s.y2) - radius - minY) / resolution));
+
+        for (let cy = cy0; cy <= cy1; cy++) {
+            const py = minY + (height - cy - 0.5) * resolution;
+            for (let cx = cx0; cx <= cx1; cx++) {
+                const px = minX + (cx + 0.5) * resolution;
+                const t = len2 === 0 ? 0 : Math.max(0, Math.min(1, ((px - s.x1) * dx + (py - s.y1) * dy) / len2));
+                if (Math.hypot(px - s.x1 - t * dx, py - s.y1 - t * dy) <= radius) {
+                    data[cy * width + cx] = CELL_OCCUPIED;
+                }
+            }
+        }
+    }
+
+    return {
+        width,
+        height,
+        data,
+        metadata: {
+            resolution,
+            origin: { x: minX, y: minY, theta: 0 }
+        }
+    };
+}